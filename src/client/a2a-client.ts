@@ -28,52 +28,37 @@ export class A2AClient {
       agent?: string;
       contextId?: string;
       taskId?: string;
+      /** When false, the server returns a `working` task immediately; poll it with getTask. */
+      blocking?: boolean;
     },
   ): Promise<Record<string, unknown>> {
-    const payload = {
-      jsonrpc: "2.0",
-      id: uuidv4(),
-      method: "message/send",
-      params: {
-        message: {
-          kind: "message",
-          messageId: uuidv4(),
-          role: "user",
-          parts: [{ kind: "text", text: message }],
-          ...(options?.contextId ? { contextId: options.contextId } : {}),
-          ...(options?.taskId ? { taskId: options.taskId } : {}),
-          metadata: {
-            ...(options?.agent ? { agent: options.agent } : {}),
-          },
-        },
-        configuration: {
-          blocking: true,
+    return this.rpc("message/send", {
+      message: {
+        kind: "message",
+        messageId: uuidv4(),
+        role: "user",
+        parts: [{ kind: "text", text: message }],
+        ...(options?.contextId ? { contextId: options.contextId } : {}),
+        ...(options?.taskId ? { taskId: options.taskId } : {}),
+        metadata: {
+          ...(options?.agent ? { agent: options.agent } : {}),
         },
       },
-    };
-
-    const res = await fetch(`${this.url}/a2a/jsonrpc`, {
-      method: "POST",
-      headers: {
-        ...this.headers(),
-        "Content-Type": "application/json",
+      configuration: {
+        blocking: options?.blocking ?? true,
       },
-      body: JSON.stringify(payload),
     });
+  }
 
-    if (!res.ok) {
-      const body = await res.text();
-      throw new Error(`A2A request failed: ${res.status} ${res.statusText} — ${body}`);
-    }
-
-    const jsonRpcResponse = (await res.json()) as Record<string, unknown>;
-
-    if (jsonRpcResponse["error"]) {
-      const err = jsonRpcResponse["error"] as Record<string, unknown>;
-      throw new Error(`A2A error: ${err["message"]} (code: ${err["code"]})`);
-    }
-
-    return jsonRpcResponse["result"] as Record<string, unknown>;
+  /** Fetch the current state of a task (tasks/get). */
+  async getTask(
+    taskId: string,
+    historyLength?: number,
+  ): Promise<Record<string, unknown>> {
+    return this.rpc("tasks/get", {
+      id: taskId,
+      ...(historyLength !== undefined ? { historyLength } : {}),
+    });
   }
 
   async getHealth(): Promise<Record<string, unknown>> {
@@ -107,6 +92,41 @@ export class A2AClient {
     return (await res.json()) as Record<string, unknown>;
   }
 
+  private async rpc(
+    method: string,
+    params: Record<string, unknown>,
+  ): Promise<Record<string, unknown>> {
+    const payload = {
+      jsonrpc: "2.0",
+      id: uuidv4(),
+      method,
+      params,
+    };
+
+    const res = await fetch(`${this.url}/a2a/jsonrpc`, {
+      method: "POST",
+      headers: {
+        ...this.headers(),
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(payload),
+    });
+
+    if (!res.ok) {
+      const body = await res.text();
+      throw new Error(`A2A request failed: ${res.status} ${res.statusText} — ${body}`);
+    }
+
+    const jsonRpcResponse = (await res.json()) as Record<string, unknown>;
+
+    if (jsonRpcResponse["error"]) {
+      const err = jsonRpcResponse["error"] as Record<string, unknown>;
+      throw new Error(`A2A error: ${err["message"]} (code: ${err["code"]})`);
+    }
+
+    return jsonRpcResponse["result"] as Record<string, unknown>;
+  }
+
   private headers(): Record<string, string> {
     const h: Record<string, string> = {};
     if (this.token) {
@@ -86,13 +86,18 @@ export function createMcpServer(config: ClientConfig): McpServer {
         .string()
         .optional()
         .describe("Task ID for continuing an existing task"),
+      background: z
+        .boolean()
+        .optional()
+        .describe("Return a working task immediately instead of waiting for the answer; poll it with get_task"),
     },
-    async ({ server: serverName, message, agent, context_id, task_id }) => {
+    async ({ server: serverName, message, agent, context_id, task_id, background }) => {
       const client = getClient(serverName);
       const result = await client.sendMessage(message, {
         agent,
         contextId: context_id,
         taskId: task_id,
+        blocking: !background,
       });
       return {
         content: [
@@ -105,6 +110,34 @@ export function createMcpServer(config: ClientConfig): McpServer {
     },
   );
 
+  // Tool: get_task
+  server.tool(
+    "get_task",
+    "Get the current state of a task on a remote claude-a2a server (use after send_message with background: true)",
+    {
+      server: z.string().describe("Name of the remote server"),
+      task_id: z.string().describe("The task ID returned by send_message"),
+      history_length: z
+        .number()
+        .int()
+        .nonnegative()
+        .optional()
+        .describe("Limit the number of history messages returned"),
+    },
+    async ({ server: serverName, task_id, history_length }) => {
+      const client = getClient(serverName);
+      const task = await client.getTask(task_id, history_length);
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify(task, null, 2),
+          },
+        ],
+      };
+    },
+  );
+
   // Tool: get_server_health
   server.tool(
     "get_server_health",
@@ -18,8 +18,11 @@ interface InitAnswers {
   model: string;
   maxBudget: number;
   systemPrompt: string;
+  mcpServers: Record<string, McpServerEntry>;
 }
 
+type McpServerEntry = { command: string; args: string[] } | { url: string };
+
 const DEFAULT_TOOLS = ["Read", "Write", "Edit", "Glob", "Grep", "Bash"];
 
 function getDefaults(targetDir: string): InitAnswers {
@@ -32,9 +35,21 @@ function getDefaults(targetDir: string): InitAnswers {
     model: "",
     maxBudget: 1.0,
     systemPrompt: "You are responding via the claude-a2a A2A API. Be concise.",
+    mcpServers: {},
   };
 }
 
+/**
+ * Turn an answer to "Command or URL" into an `mcp_servers` entry: an
+ * http(s) URL is a remote server, anything else a command line. Exported
+ * for testing.
+ */
+export function parseMcpServer(spec: string): McpServerEntry {
+  if (/^https?:\/\//.test(spec)) return { url: spec };
+  const [command, ...args] = spec.split(/\s+/);
+  return { command: command!, args };
+}
+
 async function promptUser(targetDir: string): Promise<InitAnswers> {
   const defaults = getDefaults(targetDir);
   const rl = createInterface({ input: stdin, output: stdout });
@@ -84,6 +99,18 @@ async function promptUser(targetDir: string): Promise<InitAnswers> {
         )
       ).trim() || defaults.systemPrompt;
 
+    const mcpServers: Record<string, McpServerEntry> = {};
+    for (;;) {
+      const name = (await rl.question(`MCP server name (blank to finish): `)).trim();
+      if (!name) break;
+      if (!/^[\w-]+$/.test(name)) {
+        console.log("MCP server names may only contain letters, digits, _ and -");
+        continue;
+      }
+      const spec = (await rl.question(`Command or URL for ${name}: `)).trim();
+      if (spec) mcpServers[name] = parseMcpServer(spec);
+    }
+
     return {
       agentName,
       description,
@@ -93,6 +120,7 @@ async function promptUser(targetDir: string): Promise<InitAnswers> {
       model,
       maxBudget,
       systemPrompt,
+      mcpServers,
     };
   } finally {
     rl.close();
@@ -110,10 +138,18 @@ function generateConfigYaml(answers: InitAnswers): string {
     max_budget_usd: answers.maxBudget,
     work_dir: resolve(answers.workDir),
   };
+  if (Object.keys(answers.mcpServers).length > 0) {
+    agentEntry["mcp_servers"] = answers.mcpServers;
+  }
 
+  // A project's own settings file is used as is; otherwise the permissions live in config.yaml
   const settingsPath = resolve(answers.workDir, ".claude", "settings.json");
   if (existsSync(settingsPath)) {
     agentEntry["settings_file"] = settingsPath;
+  } else {
+    agentEntry["permissions"] = {
+      allow: answers.allowedTools.map((tool) => `${tool}(*)`),
+    };
   }
 
   const config = {
@@ -130,15 +166,6 @@ function generateConfigYaml(answers: InitAnswers): string {
   return stringifyYaml(config, { lineWidth: 120 });
 }
 
-function generateSettingsJson(allowedTools: string[]): string {
-  const settings = {
-    permissions: {
-      allow: allowedTools.map((tool) => `${tool}(*)`),
-    },
-  };
-  return JSON.stringify(settings, null, 2) + "\n";
-}
-
 export async function runInit(options: InitOptions): Promise<void> {
   const targetDir = resolve(options.dir ?? ".");
 
@@ -155,20 +182,6 @@ export async function runInit(options: InitOptions): Promise<void> {
   writeFileSync(configPath, configContent, "utf-8");
   console.log(`Created ${configPath}`);
 
-  // Write .claude/settings.json (skip if already exists)
-  const workDir = resolve(answers.workDir);
-  const claudeDir = join(workDir, ".claude");
-  const settingsPath = join(claudeDir, "settings.json");
-
-  if (!existsSync(settingsPath)) {
-    mkdirSync(claudeDir, { recursive: true });
-    const settingsContent = generateSettingsJson(answers.allowedTools);
-    writeFileSync(settingsPath, settingsContent, "utf-8");
-    console.log(`Created ${settingsPath}`);
-  } else {
-    console.log(`Skipped ${settingsPath} (already exists)`);
-  }
-
   console.log("\nTo start the server:");
   console.log(`  claude-a2a serve -c ${configPath}`);
 }
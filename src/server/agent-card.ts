@@ -16,6 +16,7 @@ export function buildAgentCard(config: Config): AgentCard {
       tags: [
         "claude",
         ...(agentConfig.model ? [agentConfig.model] : []),
+        ...agentConfig.selectable_models.filter((model) => model !== agentConfig.model),
         ...(agentConfig.allowed_tools.length > 0 ? ["tools"] : []),
       ],
       examples: [
@@ -54,8 +55,8 @@ export function buildAgentCard(config: Config): AgentCard {
     version: VERSION,
     skills,
     capabilities: {
-      streaming: false,
-      pushNotifications: false,
+      streaming: true,
+      pushNotifications: config.push_notifications.enabled,
       stateTransitionHistory: true,
     },
     defaultInputModes: ["text", "image/png", "image/jpeg", "image/gif", "image/webp", "application/pdf"],
@@ -1,5 +1,12 @@
 import { v4 as uuidv4 } from "uuid";
-import type { Message, Part } from "@a2a-js/sdk";
+import type {
+  Message,
+  Part,
+  Task,
+  TaskState,
+  TaskStatusUpdateEvent,
+  TaskArtifactUpdateEvent,
+} from "@a2a-js/sdk";
 import type {
   AgentExecutor,
   RequestContext,
@@ -12,13 +19,29 @@ import {
   TimeoutError,
   ClaudeProcessError,
   SessionBusyError,
+  TurnInterruptedError,
+  ResourceLimitError,
+  SessionSilentError,
   type ClaudeResponse,
 } from "./claude-runner.js";
-import type { ContentBlock } from "./claude-session.js";
-import type { Config } from "./config.js";
+import {
+  agentAllowedTools,
+  toolRuleCovers,
+  type ContentBlock,
+  type SessionProgressEvent,
+} from "./claude-session.js";
+import { SessionCustomizationSchema, type Config, type SessionCustomization } from "./config.js";
 import { AuthenticatedUser } from "./auth/user.js";
-import { SessionStore } from "./services/session-store.js";
+import { SessionStore, type SessionMetadata } from "./services/session-store.js";
 import { BudgetTracker } from "./services/budget-tracker.js";
+import type { OrphanMonitor } from "./services/orphan-monitor.js";
+import type { SqliteTaskStore } from "./services/task-store.js";
+import {
+  QueueFullError,
+  QueueTimeoutError,
+  type AdmissionQueue,
+} from "./services/admission-queue.js";
+import { WorkspaceError, type WorkspaceManager } from "./services/workspace-manager.js";
 
 // ---------------------------------------------------------------------------
 // A2A Part[] → Claude content block conversion
@@ -94,12 +117,157 @@ export function convertPartsToMessage(
   return { message: blocks, hasNonText: true };
 }
 
+// ---------------------------------------------------------------------------
+// Claude progress → A2A streaming events
+// ---------------------------------------------------------------------------
+
+/** Artifact that accumulates the agent's answer for a task. */
+export const RESPONSE_ARTIFACT_NAME = "response";
+
+export function responseArtifactId(taskId: string): string {
+  return `${taskId}-${RESPONSE_ARTIFACT_NAME}`;
+}
+
+/** Artifact with the unified diff of a turn's changes (`workspace: isolated`). */
+export const DIFF_ARTIFACT_NAME = "diff";
+
+/**
+ * Convert a live session progress event into an A2A streaming event.
+ *
+ * Text deltas are appended to the task's response artifact; tool-use steps
+ * become non-final `working` status updates so streaming clients can see
+ * what the agent is doing.
+ */
+export function progressToEvent(
+  progress: SessionProgressEvent,
+  taskId: string,
+  contextId: string,
+): TaskStatusUpdateEvent | TaskArtifactUpdateEvent {
+  if (progress.type === "text_delta") {
+    return {
+      kind: "artifact-update",
+      taskId,
+      contextId,
+      artifact: {
+        artifactId: responseArtifactId(taskId),
+        name: RESPONSE_ARTIFACT_NAME,
+        parts: [{ kind: "text", text: progress.text }],
+      },
+      append: true,
+      lastChunk: false,
+    };
+  }
+
+  return {
+    kind: "status-update",
+    taskId,
+    contextId,
+    status: {
+      state: "working",
+      message: {
+        kind: "message",
+        messageId: uuidv4(),
+        role: "agent",
+        parts: [{ kind: "text", text: `Using tool: ${progress.name}` }],
+        taskId,
+        contextId,
+        metadata: {
+          claude: {
+            tool_use: { id: progress.toolUseId, name: progress.name, input: progress.input },
+          },
+        },
+      },
+      timestamp: new Date().toISOString(),
+    },
+    final: false,
+  };
+}
+
+/** Buffered text deltas are published after this long... */
+const DELTA_FLUSH_MS = 250;
+/** ...or once this many characters have built up, whichever comes first. */
+const DELTA_FLUSH_CHARS = 4096;
+
+/**
+ * Joins a turn's text deltas into fewer artifact chunks. The SDK saves the
+ * whole task, growing artifact included, on every event it sees, so one
+ * chunk per token would rewrite the answer hundreds of times per turn.
+ */
+class TextDeltaBuffer {
+  private readonly publish: (text: string) => void;
+  private text = "";
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(publish: (text: string) => void) {
+    this.publish = publish;
+  }
+
+  add(text: string): void {
+    this.text += text;
+    if (this.text.length >= DELTA_FLUSH_CHARS) {
+      this.flush();
+    } else {
+      this.timer ??= setTimeout(() => this.flush(), DELTA_FLUSH_MS);
+    }
+  }
+
+  /** Publish what is buffered now, e.g. before an event that must come after it. */
+  flush(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    if (!this.text) return;
+    const text = this.text;
+    this.text = "";
+    this.publish(text);
+  }
+
+  /** Drop what is buffered, for a task that already has its final state. */
+  discard(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.text = "";
+  }
+}
+
+export interface ClaudeAgentExecutorOptions {
+  /** Lets tasks reattached after a restart be cancelled. */
+  orphanMonitor?: OrphanMonitor;
+  /** Where results that arrive after a timeout are attached to their task. */
+  taskStore?: SqliteTaskStore;
+  /** Holds new contexts while the runner is at capacity. */
+  admissionQueue?: AdmissionQueue;
+  /** Per-context workspaces for agents with `workspace: isolated`. */
+  workspaces?: WorkspaceManager;
+}
+
+/** Who a turn was run for; needed again when its result arrives late. */
+interface TurnOwner {
+  taskId: string;
+  contextId: string;
+  agentName: string;
+  clientName: string;
+  /** Context this turn's context was forked from (first turn of a fork only). */
+  forkedFrom?: string;
+  /** Settings the context runs with (`customize`), stored with a new session. */
+  customization?: SessionCustomization;
+}
+
 export class ClaudeAgentExecutor implements AgentExecutor {
   private readonly runner: ClaudeRunner;
   private readonly config: Config;
   private readonly sessionStore: SessionStore;
   private readonly budgetTracker: BudgetTracker;
   private readonly log: Logger;
+  private readonly orphanMonitor?: OrphanMonitor;
+  private readonly taskStore?: SqliteTaskStore;
+  private readonly admissionQueue?: AdmissionQueue;
+  private readonly workspaces?: WorkspaceManager;
+  /** Tasks whose execute() has not returned yet. */
+  private readonly runningTasks = new Set<string>();
+  /** Tasks canceled while running; their in-flight turn must not publish a final state. */
+  private readonly canceledTasks = new Set<string>();
+  /** Message IDs sent with `blocking: false`; their turns use the background timeout. */
+  private readonly backgroundMessages = new Set<string>();
 
   constructor(
     runner: ClaudeRunner,
@@ -107,19 +275,63 @@ export class ClaudeAgentExecutor implements AgentExecutor {
     sessionStore: SessionStore,
     budgetTracker: BudgetTracker,
     log: Logger,
+    options?: ClaudeAgentExecutorOptions,
   ) {
     this.runner = runner;
     this.config = config;
     this.sessionStore = sessionStore;
     this.budgetTracker = budgetTracker;
     this.log = log.child({ component: "agent-executor" });
+    this.orphanMonitor = options?.orphanMonitor;
+    this.taskStore = options?.taskStore;
+    this.admissionQueue = options?.admissionQueue;
+    this.workspaces = options?.workspaces;
+  }
+
+  /**
+   * Mark a message as a background (non-blocking) request. Call before the
+   * request handler dispatches it; the returned function clears the mark.
+   */
+  markBackground(messageId: string): () => void {
+    this.backgroundMessages.add(messageId);
+    return () => {
+      this.backgroundMessages.delete(messageId);
+    };
   }
 
   async execute(
     requestContext: RequestContext,
     eventBus: ExecutionEventBus,
+  ): Promise<void> {
+    const { taskId } = requestContext;
+    this.runningTasks.add(taskId);
+    try {
+      await this.runTask(requestContext, eventBus);
+    } finally {
+      this.runningTasks.delete(taskId);
+      this.canceledTasks.delete(taskId);
+    }
+  }
+
+  private async runTask(
+    requestContext: RequestContext,
+    eventBus: ExecutionEventBus,
   ): Promise<void> {
     const { userMessage, taskId, contextId } = requestContext;
+    const background = this.backgroundMessages.has(userMessage.messageId);
+
+    // Every request is tracked as a Task from the start, so rejections are
+    // visible in tasks/get and distinguishable from completed work.
+    const task: Task = requestContext.task
+      ? { ...requestContext.task, status: { state: "submitted", timestamp: new Date().toISOString() } }
+      : {
+          kind: "task",
+          id: taskId,
+          contextId,
+          status: { state: "submitted", timestamp: new Date().toISOString() },
+          history: [userMessage],
+        };
+    eventBus.publish(task);
 
     // Convert A2A parts to Claude content format
     const { message: messageContent } = convertPartsToMessage(userMessage.parts);
@@ -127,7 +339,7 @@ export class ClaudeAgentExecutor implements AgentExecutor {
       ? !messageContent.trim()
       : messageContent.length === 0;
     if (isEmpty) {
-      this.publishMessage(eventBus, contextId, "Error: Empty message");
+      this.reject(eventBus, taskId, contextId, "invalid_request", "Error: Empty message");
       return;
     }
 
@@ -136,9 +348,11 @@ export class ClaudeAgentExecutor implements AgentExecutor {
     const agentConfig = this.config.agents[agentName];
 
     if (!agentConfig || !agentConfig.enabled) {
-      this.publishMessage(
+      this.reject(
         eventBus,
+        taskId,
         contextId,
+        "agent_not_found",
         `Error: Agent "${agentName}" not found or disabled`,
       );
       return;
@@ -149,9 +363,11 @@ export class ClaudeAgentExecutor implements AgentExecutor {
       const userScopes = this.resolveScopes(requestContext, userMessage);
       if (!userScopes.includes("*") &&
           !agentConfig.required_scopes.some((s) => userScopes.includes(s))) {
-        this.publishMessage(
+        this.reject(
           eventBus,
+          taskId,
           contextId,
+          "insufficient_scope",
           `Error: Insufficient scope for agent "${agentName}". Required: ${agentConfig.required_scopes.join(", ")}`,
         );
         return;
@@ -165,11 +381,37 @@ export class ClaudeAgentExecutor implements AgentExecutor {
       ?? (userMessage.metadata?.["clientName"] as string | undefined)
       ?? "anonymous";
 
+    // Model: the agent's, or one the client picked from its selectable_models
+    const modelValue = userMessage.metadata?.["model"];
+    if (modelValue !== undefined && (typeof modelValue !== "string" || !modelValue)) {
+      this.reject(eventBus, taskId, contextId, "invalid_request", "Error: metadata.model must be a model ID");
+      return;
+    }
+    const requestedModel = modelValue as string | undefined;
+    const agentModel = agentConfig.model ?? this.config.claude.default_model;
+    if (requestedModel !== undefined && requestedModel !== agentModel &&
+        !agentConfig.selectable_models.includes(requestedModel)) {
+      const offered = [...new Set([...(agentModel ? [agentModel] : []), ...agentConfig.selectable_models])];
+      this.reject(eventBus, taskId, contextId, "model_not_allowed",
+        `Error: Agent "${agentName}" does not offer model "${requestedModel}". ` +
+        (agentConfig.selectable_models.length > 0
+          ? `Available: ${offered.join(", ")}`
+          : "It has no selectable models."));
+      return;
+    }
+    const model = requestedModel ?? agentModel;
+    const allowedModels = user instanceof AuthenticatedUser ? user.authContext.allowedModels : undefined;
+    if (allowedModels && !(model && allowedModels.includes(model))) {
+      this.reject(eventBus, taskId, contextId, "model_not_allowed",
+        `Error: Your token does not allow model "${model ?? "default"}". Allowed: ${allowedModels.join(", ")}`);
+      return;
+    }
+
     // Check budget (per-client limit from JWT overrides the default)
     const clientBudgetLimit = user instanceof AuthenticatedUser ? user.authContext.budgetDailyUsd : undefined;
     const budgetError = this.budgetTracker.check(clientName, clientBudgetLimit);
     if (budgetError) {
-      this.publishMessage(eventBus, contextId, `Error: ${budgetError}`);
+      this.reject(eventBus, taskId, contextId, "budget_exceeded", `Error: ${budgetError}`);
       return;
     }
 
@@ -180,9 +422,11 @@ export class ClaudeAgentExecutor implements AgentExecutor {
     // Allowing reuse with a different agent would silently bypass the original agent's
     // permissions, tools, and model config. This is a security concern in multi-tenant use.
     if (existingSession && existingSession.agentName !== agentName) {
-      this.publishMessage(
+      this.reject(
         eventBus,
+        taskId,
         contextId,
+        "agent_mismatch",
         `Error: Context "${contextId}" belongs to agent "${existingSession.agentName}", ` +
         `not "${agentName}". Use a new contextId to talk to a different agent.`,
       );
@@ -193,9 +437,11 @@ export class ClaudeAgentExecutor implements AgentExecutor {
     if (existingSession && !existingSession.processAlive) {
       const lastPid = this.sessionStore.getLastPid(contextId);
       if (lastPid && this.isProcessAlive(lastPid)) {
-        this.publishMessage(
+        this.reject(
           eventBus,
+          taskId,
           contextId,
+          "orphan_running",
           "A previous Claude process for this session is still running. " +
           "Cancel the task to terminate it, or wait for it to complete and retry.",
           { orphan_pid: lastPid },
@@ -204,37 +450,229 @@ export class ClaudeAgentExecutor implements AgentExecutor {
       }
     }
 
+    // Customization: settings within the agent's, given by the context's first message
+    const customizeValue = userMessage.metadata?.["customize"];
+    let customization: SessionCustomization | undefined;
+    if (customizeValue !== undefined) {
+      // Only the token's own scopes (master key: "*"); message metadata can't grant this
+      const userScopes = user instanceof AuthenticatedUser ? user.authContext.scopes : [];
+      if (!userScopes.includes("*") && !userScopes.includes(`agent:${agentName}:customize`)) {
+        this.reject(eventBus, taskId, contextId, "insufficient_scope",
+          `Error: Customizing agent "${agentName}" requires scope "agent:${agentName}:customize"`);
+        return;
+      }
+      const parsed = SessionCustomizationSchema.safeParse(customizeValue);
+      if (!parsed.success) {
+        const issues = parsed.error.issues.map((i) => `${["customize", ...i.path].join(".")}: ${i.message}`);
+        this.reject(eventBus, taskId, contextId, "invalid_request", `Error: ${issues.join("; ")}`);
+        return;
+      }
+      const agentTools = agentAllowedTools(agentConfig);
+      const requestedTools = parsed.data.allowed_tools ?? [];
+      // Without allow rules the agent's tools come from its permission mode or
+      // settings, and any rule given here would add to them
+      if (requestedTools.length > 0 && agentTools.length === 0) {
+        this.reject(eventBus, taskId, contextId, "invalid_request",
+          `Error: Agent "${agentName}" has no allowed_tools to narrow; ` +
+          `use customize.disallowed_tools to take tools away instead`);
+        return;
+      }
+      const widened = requestedTools.filter((t) => !agentTools.some((rule) => toolRuleCovers(rule, t)));
+      if (widened.length > 0) {
+        this.reject(eventBus, taskId, contextId, "invalid_request",
+          `Error: customize.allowed_tools can only narrow the agent's allowed_tools; ` +
+          `not allowed for "${agentName}": ${widened.join(", ")}`);
+        return;
+      }
+      const maxTurns = parsed.data.max_turns;
+      if (maxTurns && agentConfig.max_turns && maxTurns > agentConfig.max_turns) {
+        this.reject(eventBus, taskId, contextId, "invalid_request",
+          `Error: customize.max_turns can only lower the agent's max_turns (${agentConfig.max_turns}); got ${maxTurns}`);
+        return;
+      }
+      // Spawn-time settings: a context that already has a process or a conversation keeps its own
+      if (existingSession || this.runner.hasSession(contextId)) {
+        this.reject(eventBus, taskId, contextId, "invalid_request",
+          `Error: Context "${contextId}" has already started. customize only applies to the first message of a context.`);
+        return;
+      }
+      customization = parsed.data;
+    }
+
+    // Fork: the first turn of this context continues a copy of another
+    // context's conversation (`--resume <parent> --fork-session`)
+    const forkFrom = userMessage.metadata?.["fork_from_context"];
+    let forkParent: SessionMetadata | undefined;
+    if (forkFrom !== undefined) {
+      const parent = typeof forkFrom === "string" ? this.sessionStore.getByContextId(forkFrom) : undefined;
+      // Another client's context is reported as missing, not as forbidden
+      if (!parent || parent.clientName !== clientName) {
+        this.reject(eventBus, taskId, contextId, "invalid_request",
+          `Error: Cannot fork context "${String(forkFrom)}": no such context.`);
+        return;
+      }
+      if (parent.agentName !== agentName) {
+        this.reject(eventBus, taskId, contextId, "agent_mismatch",
+          `Error: Context "${parent.contextId}" belongs to agent "${parent.agentName}", ` +
+          `not "${agentName}". A fork stays with the agent of the context it came from.`);
+        return;
+      }
+      if (existingSession && existingSession.parentContextId !== parent.contextId) {
+        this.reject(eventBus, taskId, contextId, "invalid_request",
+          `Error: Context "${contextId}" already has a conversation. Fork into a new contextId.`);
+        return;
+      }
+      // A repeated fork_from_context on the fork itself is an ordinary follow-up
+      if (!existingSession) forkParent = parent;
+    }
+
+    // A fork's own settings narrow its parent's, as the parent's narrow the
+    // agent's: what it leaves out it inherits, and the parent's denials stay
+    const inherited = forkParent?.customization;
+    if (customization && inherited) {
+      const parentTools = inherited.allowed_tools;
+      const widened = parentTools
+        ? (customization.allowed_tools ?? []).filter((t) => !parentTools.some((rule) => toolRuleCovers(rule, t)))
+        : [];
+      if (widened.length > 0) {
+        this.reject(eventBus, taskId, contextId, "invalid_request",
+          `Error: customize.allowed_tools can only narrow the allowed_tools of context "${forkParent!.contextId}"; ` +
+          `not allowed: ${widened.join(", ")}`);
+        return;
+      }
+      if (customization.max_turns && inherited.max_turns && customization.max_turns > inherited.max_turns) {
+        this.reject(eventBus, taskId, contextId, "invalid_request",
+          `Error: customize.max_turns can only lower the max_turns of context "${forkParent!.contextId}" ` +
+          `(${inherited.max_turns}); got ${customization.max_turns}`);
+        return;
+      }
+      const disallowed = [...new Set([...inherited.disallowed_tools ?? [], ...customization.disallowed_tools ?? []])];
+      customization = {
+        ...inherited,
+        ...customization,
+        ...(disallowed.length > 0 ? { disallowed_tools: disallowed } : {}),
+      };
+    }
+
+    // Rollback: restore the workspace to how an earlier task of this
+    // context left it, then run this message's turn
+    const rollbackValue = userMessage.metadata?.["rollback_to_task"];
+    let rollbackTo: string | undefined;
+    if (rollbackValue !== undefined) {
+      if (agentConfig.workspace !== "isolated" || !this.workspaces) {
+        this.reject(eventBus, taskId, contextId, "invalid_request",
+          `Error: Agent "${agentName}" has no per-context workspace to roll back (needs workspace: isolated).`);
+        return;
+      }
+      if (typeof rollbackValue !== "string" || !await this.workspaces.hasCheckpoint(contextId, rollbackValue)) {
+        this.reject(eventBus, taskId, contextId, "invalid_request",
+          `Error: No checkpoint for task "${String(rollbackValue)}" in context "${contextId}".`);
+        return;
+      }
+      rollbackTo = rollbackValue;
+    }
+
+    // A fork without settings of its own keeps its parent's
+    customization ??= forkParent?.customization ?? existingSession?.customization ?? undefined;
+
+    const owner: TurnOwner = {
+      taskId,
+      contextId,
+      agentName,
+      clientName,
+      ...(forkParent ? { forkedFrom: forkParent.contextId } : {}),
+      ...(customization ? { customization } : {}),
+    };
+
+    let workDir: string | undefined;
     try {
-      const response = await this.runner.sendMessage({
-        agentName,
-        agentConfig,
-        message: messageContent,
-        contextId,
+      // Wait for a free process slot; the task stays `submitted` meanwhile
+      const releaseSlot = this.admissionQueue && await this.admissionQueue.admit({
         taskId,
-        resumeSessionId: existingSession?.sessionId,
+        contextId,
+        clientName,
+        priority: (user instanceof AuthenticatedUser ? user.authContext.queuePriority : undefined) ?? 0,
+        onPosition: (position, queued) =>
+          this.publishInterim(eventBus, taskId, contextId, "submitted",
+            `Waiting for capacity: position ${position} of ${queued}`,
+            { queue_position: position, queue_size: queued }),
       });
 
-      // Track session
-      if (!existingSession) {
-        this.sessionStore.create(
-          response.session_id,
+      let diff: string | null = null;
+      const deltas = new TextDeltaBuffer((text) =>
+        eventBus.publish(progressToEvent({ type: "text_delta", text }, taskId, contextId)));
+      let turn: Promise<ClaudeResponse>;
+      try {
+        // Canceled between admission and now: don't start Claude at all
+        if (this.canceledTasks.delete(taskId)) return;
+
+        this.publishInterim(eventBus, taskId, contextId, "working",
+          `Agent "${agentName}" is working on the request`);
+
+        // An isolated context gets its workspace once admitted, before its
+        // first process spawns; a fork starts from a copy of its parent's files
+        if (agentConfig.workspace === "isolated" && this.workspaces) {
+          workDir = await this.workspaces.prepare(contextId, agentConfig, forkParent?.contextId);
+          if (this.canceledTasks.delete(taskId)) {
+            await this.discardUnusedWorkspace(contextId);
+            return;
+          }
+        }
+
+        turn = this.runner.sendMessage({
           agentName,
-          clientName,
+          agentConfig,
+          message: messageContent,
           contextId,
           taskId,
-        );
-      } else {
-        this.sessionStore.update(response.session_id, response.total_cost_usd);
+          resumeSessionId: forkParent?.sessionId ?? existingSession?.sessionId,
+          forkSession: forkParent !== undefined,
+          timeoutMs: background ? this.config.server.background_timeout * 1000 : undefined,
+          onProgress: (progress) => {
+            if (progress.type === "text_delta") {
+              deltas.add(progress.text);
+              return;
+            }
+            deltas.flush();
+            eventBus.publish(progressToEvent(progress, taskId, contextId));
+          },
+          onLateResult: (late) => void this.attachLateResult(owner, late),
+          onQueued: (position) =>
+            this.publishInterim(eventBus, taskId, contextId, "working",
+              `Queued behind the running turn on this context (position ${position})`,
+              { context_queue_position: position }),
+          onCompacting: (usage) =>
+            this.publishInterim(eventBus, taskId, contextId, "working",
+              `Compacting the conversation first (${Math.round(usage.used_tokens / usage.max_tokens * 100)}% of the context window used)`,
+              { compacting: true, context: usage }),
+          workDir,
+          model: requestedModel,
+          customization,
+          // Taken before the next queued message can touch the workspace
+          beforeTurn: rollbackTo === undefined ? undefined : async () => {
+            await this.workspaces!.rollback(contextId, rollbackTo);
+            this.publishInterim(eventBus, taskId, contextId, "working",
+              `Workspace rolled back to the checkpoint of task ${rollbackTo}`,
+              { rolled_back_to: rollbackTo });
+          },
+          afterTurn: workDir === undefined ? undefined : async () => {
+            diff = await this.checkpointWorkspace(contextId, taskId);
+          },
+        });
+      } finally {
+        // The runner has claimed its process slot synchronously
+        releaseSlot?.();
       }
-
-      // Persist PID for orphan detection after restart
-      const pid = this.runner.getSessionPid(contextId);
-      if (pid) {
-        this.sessionStore.savePid(contextId, pid);
+      let response: ClaudeResponse;
+      try {
+        response = await turn;
+      } finally {
+        // cancelTask already published the final state
+        if (this.canceledTasks.has(taskId)) deltas.discard();
+        else deltas.flush();
       }
 
-      // Track budget
-      this.budgetTracker.record_cost(clientName, response.total_cost_usd);
+      this.recordTurn(owner, response);
 
       // Build the response message with claude extension metadata
       const metadata = buildClaudeExtension(response, agentName);
@@ -243,46 +681,270 @@ export class ClaudeAgentExecutor implements AgentExecutor {
         metadata["error_type"] = "permission_denied";
       }
 
-      const responseMessage: Message = {
-        kind: "message",
-        messageId: uuidv4(),
-        role: "agent",
-        parts: [{ kind: "text", text: response.result }],
+      // cancelTask already published the final state
+      if (this.canceledTasks.delete(taskId)) return;
+
+      if (diff !== null) {
+        eventBus.publish({
+          kind: "artifact-update",
+          taskId,
+          contextId,
+          artifact: {
+            artifactId: `${taskId}-${DIFF_ARTIFACT_NAME}`,
+            name: DIFF_ARTIFACT_NAME,
+            parts: [{ kind: "text", text: diff }],
+            metadata: { mime_type: "text/x-diff" },
+          },
+          lastChunk: true,
+        });
+      }
+
+      // Claude stopped without an answer (max_turns, budget, API error): its
+      // result text describes the failure, so it doesn't replace the stream
+      if (response.is_error) {
+        const { errorType, errorText } = resultError(response);
+        this.publishStatus(eventBus, taskId, contextId, "failed", errorText, {
+          ...metadata,
+          error_type: errorType,
+        });
+        return;
+      }
+
+      // Replace the streamed deltas with the complete answer
+      eventBus.publish({
+        kind: "artifact-update",
+        taskId,
         contextId,
-        metadata,
-      };
+        artifact: {
+          artifactId: responseArtifactId(taskId),
+          name: RESPONSE_ARTIFACT_NAME,
+          parts: [{ kind: "text", text: response.result }],
+        },
+        append: false,
+        lastChunk: true,
+      });
 
-      eventBus.publish(responseMessage);
-      eventBus.finished();
+      this.publishStatus(eventBus, taskId, contextId, "completed", response.result, metadata);
     } catch (err) {
+      // Cancel surfaces here as an interrupted turn (or a session error if
+      // the process had to be killed). An interrupted turn still cost money.
+      if (this.canceledTasks.delete(taskId)) {
+        if (err instanceof TurnInterruptedError) this.recordTurn(owner, err.response);
+        if (workDir !== undefined) await this.discardUnusedWorkspace(contextId);
+        return;
+      }
+
+      // Released for shutdown: the process keeps running and the task stays
+      // `working` so OrphanMonitor can pick it up after the restart
+      if (this.runner.isReleasing) {
+        this.log.info({ taskId, contextId }, "task left running across shutdown");
+        return;
+      }
+
       let errorText: string;
+      let errorType: string;
       if (err instanceof CapacityError) {
         errorText = `Error: ${err.message}`;
+        errorType = "capacity";
+      } else if (err instanceof QueueFullError) {
+        errorText = `Error: ${err.message}`;
+        errorType = "capacity";
+      } else if (err instanceof QueueTimeoutError) {
+        errorText = `Error: ${err.message}`;
+        errorType = "queue_timeout";
+      } else if (err instanceof ResourceLimitError) {
+        errorText = `Error: Claude process killed — ${err.message}`;
+        errorType = "resource_limit";
+      } else if (err instanceof SessionSilentError) {
+        errorText = `Error: Claude process killed — ${err.message}`;
+        errorType = "silence_timeout";
+      } else if (err instanceof WorkspaceError) {
+        errorText = `Error: ${err.message}`;
+        errorType = "workspace_error";
       } else if (err instanceof SessionBusyError) {
         errorText = "Error: Session is currently processing another message. Please wait.";
+        errorType = "session_busy";
       } else if (err instanceof TimeoutError) {
         errorText = `Error: ${err.message}`;
+        errorType = "timeout";
       } else if (err instanceof ClaudeProcessError) {
         errorText = `Error: Claude process failed — ${err.message}`;
+        errorType = "process_error";
         this.log.error({ stderr: err.stderr.slice(0, 500) }, "claude process error");
       } else {
         errorText = `Error: ${err instanceof Error ? err.message : String(err)}`;
+        errorType = "internal";
+      }
+
+      this.publishStatus(eventBus, taskId, contextId, "failed", errorText, {
+        error_type: errorType,
+      });
+      if (workDir !== undefined) await this.discardUnusedWorkspace(contextId);
+    }
+  }
+
+  /**
+   * Remove the workspace of a context whose first turn failed. Workspaces
+   * otherwise go with their session, and a context without one (and without
+   * a process that may still report) would keep its worktree forever.
+   */
+  private async discardUnusedWorkspace(contextId: string): Promise<void> {
+    if (this.sessionStore.getByContextId(contextId) || this.runner.hasSession(contextId)) return;
+    try {
+      await this.workspaces!.remove(contextId);
+    } catch (err) {
+      this.log.warn(
+        { contextId, error: err instanceof Error ? err.message : String(err) },
+        "failed to remove workspace",
+      );
+    }
+  }
+
+  /**
+   * Track the session, PID and cost of a finished turn. Runs for late
+   * results too, so the session is looked up again rather than reusing the
+   * lookup made before the turn started.
+   */
+  private recordTurn(owner: TurnOwner, response: ClaudeResponse): void {
+    const existing = this.sessionStore.getByContextId(owner.contextId);
+    if (!existing) {
+      this.sessionStore.create(
+        response.session_id,
+        owner.agentName,
+        owner.clientName,
+        owner.contextId,
+        owner.taskId,
+        owner.forkedFrom,
+        owner.customization,
+      );
+    } else {
+      this.sessionStore.update(response.session_id, response.total_cost_usd);
+    }
+
+    // Persist PID for orphan detection after restart
+    const pid = this.runner.getSessionPid(owner.contextId);
+    if (pid) {
+      this.sessionStore.savePid(owner.contextId, pid);
+    }
+
+    this.budgetTracker.record_cost(owner.clientName, response.total_cost_usd);
+  }
+
+  /**
+   * Checkpoint the workspace after a task's turn and return the turn's
+   * changes. A failure is logged and costs only the artifact and the
+   * checkpoint; the changes show up in the next turn's diff.
+   */
+  private async checkpointWorkspace(contextId: string, taskId: string): Promise<string | null> {
+    try {
+      return await this.workspaces!.checkpoint(contextId, taskId);
+    } catch (err) {
+      this.log.warn(
+        { contextId, error: err instanceof Error ? err.message : String(err) },
+        "failed to checkpoint workspace",
+      );
+      return null;
+    }
+  }
+
+  /**
+   * A turn that timed out finished anyway. Its task already failed with
+   * `timeout`; keep that state but attach the answer as the response
+   * artifact and note it on the status message, so `tasks/get` returns it.
+   */
+  private async attachLateResult(owner: TurnOwner, response: ClaudeResponse): Promise<void> {
+    const { taskId, contextId } = owner;
+    try {
+      this.recordTurn(owner, response);
+
+      const task = this.taskStore ? await this.taskStore.load(taskId) : undefined;
+      if (!this.taskStore || !task) {
+        this.log.info({ taskId, contextId }, "late result recorded (task not stored)");
+        return;
       }
 
-      this.publishMessage(eventBus, contextId, errorText);
+      const artifactId = responseArtifactId(taskId);
+      task.artifacts = [
+        ...(task.artifacts ?? []).filter((a) => a.artifactId !== artifactId),
+        {
+          artifactId,
+          name: RESPONSE_ARTIFACT_NAME,
+          parts: [{ kind: "text", text: response.result }],
+        },
+      ];
+
+      const previous = task.status.message;
+      task.status = {
+        ...task.status,
+        message: {
+          kind: "message",
+          messageId: uuidv4(),
+          role: "agent",
+          parts: [{
+            kind: "text",
+            text: `${previous ? textOf(previous) : "Error: Timed out"} ` +
+              "The result arrived later and is attached as the response artifact.",
+          }],
+          taskId,
+          contextId,
+          metadata: {
+            ...previous?.metadata,
+            ...buildClaudeExtension(response, owner.agentName),
+            late_result: true,
+          },
+        },
+      };
+      await this.taskStore.save(task);
+      this.log.info({ taskId, contextId, cost: response.total_cost_usd }, "late result attached to task");
+    } catch (err) {
+      this.log.error(
+        { taskId, error: err instanceof Error ? err.message : String(err) },
+        "failed to record late result",
+      );
     }
   }
 
+  /**
+   * Kill the task's Claude process and publish the final `canceled` state.
+   * The SDK requires the task to be canceled once this returns, so the state
+   * is published even when no process was found.
+   */
   async cancelTask(
     taskId: string,
-    _eventBus: ExecutionEventBus,
+    eventBus: ExecutionEventBus,
   ): Promise<void> {
-    const cancelled = this.runner.cancelByTaskId(taskId, this.sessionStore);
+    // Task reattached after a restart: no execute() is running for it
+    const orphanContextId = this.orphanMonitor?.cancel(taskId);
+    if (orphanContextId != null) {
+      this.log.info({ taskId }, "orphaned task cancelled");
+      this.publishStatus(eventBus, taskId, orphanContextId, "canceled", "Task canceled by client");
+      return;
+    }
+
+    // Mark first so the in-flight turn's (or queue wait's) rejection is
+    // ignored. Only a running task: execute() clears the mark when it returns
+    if (this.runningTasks.has(taskId)) this.canceledTasks.add(taskId);
+
+    const queuedContextId = this.admissionQueue?.cancel(taskId);
+    if (queuedContextId != null) {
+      this.log.info({ taskId }, "queued task cancelled");
+      this.publishStatus(eventBus, taskId, queuedContextId, "canceled", "Task canceled by client");
+      return;
+    }
+
+    // Resolve the context before cancelling: the runner forgets the task once killed
+    const contextId = this.runner.getContextIdForTask(taskId)
+      ?? this.sessionStore.getByTaskId(taskId)?.contextId
+      ?? "";
+
+    const cancelled = await this.runner.interruptByTaskId(taskId, this.sessionStore);
     if (cancelled) {
       this.log.info({ taskId }, "task cancelled");
     } else {
       this.log.warn({ taskId }, "cancelTask: no active process found for task");
     }
+
+    this.publishStatus(eventBus, taskId, contextId, "canceled", "Task canceled by client");
   }
 
   /** Check if a process with the given PID is still alive. */
@@ -324,27 +986,116 @@ export class ClaudeAgentExecutor implements AgentExecutor {
     return "general";
   }
 
-  /** Publish a simple agent Message and signal finished — the pattern the A2A SDK expects for blocking requests */
-  private publishMessage(
+  /** Finish a task that was refused before Claude was invoked. */
+  private reject(
     eventBus: ExecutionEventBus,
+    taskId: string,
     contextId: string,
+    errorType: string,
     text: string,
     metadata?: Record<string, unknown>,
   ): void {
-    const msg: Message = {
-      kind: "message",
-      messageId: uuidv4(),
-      role: "agent",
-      parts: [{ kind: "text", text }],
+    this.publishStatus(eventBus, taskId, contextId, "rejected", text, {
+      error_type: errorType,
+      ...metadata,
+    });
+  }
+
+  /** Publish a non-final status update (queue positions, start of work). */
+  private publishInterim(
+    eventBus: ExecutionEventBus,
+    taskId: string,
+    contextId: string,
+    state: TaskState,
+    text: string,
+    metadata?: Record<string, unknown>,
+  ): void {
+    eventBus.publish({
+      kind: "status-update",
+      taskId,
       contextId,
-      ...(metadata ? { metadata } : {}),
-    };
-    eventBus.publish(msg);
+      status: {
+        state,
+        message: {
+          kind: "message",
+          messageId: uuidv4(),
+          role: "agent",
+          parts: [{ kind: "text", text }],
+          taskId,
+          contextId,
+          ...(metadata ? { metadata } : {}),
+        },
+        timestamp: new Date().toISOString(),
+      },
+      final: false,
+    });
+  }
+
+  /** Publish the final status update for a task and signal finished. */
+  private publishStatus(
+    eventBus: ExecutionEventBus,
+    taskId: string,
+    contextId: string,
+    state: TaskState,
+    text: string,
+    metadata?: Record<string, unknown>,
+  ): void {
+    eventBus.publish({
+      kind: "status-update",
+      taskId,
+      contextId,
+      status: {
+        state,
+        message: {
+          kind: "message",
+          messageId: uuidv4(),
+          role: "agent",
+          parts: [{ kind: "text", text }],
+          taskId,
+          contextId,
+          ...(metadata ? { metadata } : {}),
+        },
+        timestamp: new Date().toISOString(),
+      },
+      final: true,
+    });
     eventBus.finished();
   }
 }
 
-function buildClaudeExtension(
+function textOf(message: Message): string {
+  return message.parts
+    .filter((p): p is Extract<Part, { kind: "text" }> => p.kind === "text")
+    .map((p) => p.text)
+    .join("\n");
+}
+
+/**
+ * `error_type` and status text for a turn Claude ended with an error result,
+ * told apart by the result's subtype.
+ */
+export function resultError(response: ClaudeResponse): { errorType: string; errorText: string } {
+  const detail = response.result ? ` — ${response.result}` : "";
+  switch (response.subtype) {
+    case "error_max_turns":
+      return {
+        errorType: "max_turns",
+        errorText: `Error: Claude stopped after ${response.num_turns} turns (max_turns) without finishing`,
+      };
+    case "error_max_budget_usd":
+      return { errorType: "max_budget", errorText: "Error: Claude reached the agent's max_budget_usd without finishing" };
+    case "error_during_execution":
+      return { errorType: "execution_error", errorText: `Error: Claude failed during the turn${detail}` };
+    default:
+      return {
+        errorType: "claude_error",
+        errorText: `Error: Claude ended the turn with an error (${response.subtype ?? "unknown"})${detail}`,
+      };
+  }
+}
+
+/** `metadata.claude` for the status message of a finished turn. */
+export function buildClaudeExtension(
   response: ClaudeResponse,
   agentName: string,
 ): Record<string, unknown> {
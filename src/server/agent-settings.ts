@@ -0,0 +1,52 @@
+import { mkdirSync, renameSync, rmSync, writeFileSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import type { Logger } from "pino";
+import type { AgentPermissions, Config } from "./config.js";
+
+/** Where the settings file generated from an agent's `permissions` lives. */
+export function agentSettingsPath(dataDir: string, agentName: string): string {
+  return resolve(dataDir, "agents", agentName, "settings.json");
+}
+
+/** An agent's `permissions` as a Claude settings file. */
+export function agentSettingsJson(permissions: AgentPermissions): Record<string, unknown> {
+  const settings: Record<string, unknown> = {
+    permissions: {
+      allow: permissions.allow,
+      deny: permissions.deny,
+      ask: permissions.ask,
+      ...(permissions.default_mode ? { defaultMode: permissions.default_mode } : {}),
+    },
+  };
+  if (Object.keys(permissions.hooks).length > 0) {
+    settings["hooks"] = permissions.hooks;
+  }
+  return settings;
+}
+
+/**
+ * Write the settings files of enabled agents with inline `permissions`.
+ * Run at startup, so every process of an agent sees the config as loaded.
+ */
+export function writeAgentSettings(config: Config, log: Logger): void {
+  for (const [name, agentConfig] of Object.entries(config.agents)) {
+    if (!agentConfig.enabled || !agentConfig.permissions) continue;
+    const path = agentSettingsPath(config.data_dir, name);
+    writePrivateJson(path, agentSettingsJson(agentConfig.permissions));
+    log.info({ agent: name, path }, "agent settings written");
+  }
+}
+
+/**
+ * Write a generated agent file readable by the server's user only. The JSON
+ * goes to a fresh temporary file that is renamed over `path`: the mode
+ * applies even when `path` already exists with another one, and a CLI
+ * starting meanwhile reads the old file or the new one, never half of one.
+ */
+export function writePrivateJson(path: string, value: unknown): void {
+  mkdirSync(dirname(path), { recursive: true });
+  const tmp = `${path}.${process.pid}.tmp`;
+  rmSync(tmp, { force: true });
+  writeFileSync(tmp, JSON.stringify(value, null, 2) + "\n", { mode: 0o600, flag: "wx" });
+  renameSync(tmp, path);
+}
@@ -10,6 +10,9 @@ export interface AuthContext {
   scopes: string[];
   budgetDailyUsd?: number;
   rateLimitRpm?: number;
+  queuePriority?: number;
+  /** From the `allowed_models` JWT claim; undefined allows any model. */
+  allowedModels?: string[];
   tokenId?: string;
 }
 
@@ -82,6 +85,8 @@ export function createAuthMiddleware(config: Config, log: Logger) {
           scopes: decoded.scopes,
           budgetDailyUsd: decoded.budget_daily_usd,
           rateLimitRpm: decoded.rate_limit_rpm,
+          queuePriority: decoded.queue_priority,
+          allowedModels: decoded.allowed_models,
           tokenId: decoded.jti,
         };
         logger.debug({ client: decoded.sub }, "jwt auth");
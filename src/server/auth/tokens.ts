@@ -12,6 +12,9 @@ export interface TokenClaims {
   token_type?: "access" | "refresh";
   budget_daily_usd?: number;
   rate_limit_rpm?: number;
+  /** Admission queue priority; higher is served first (default 0). */
+  queue_priority?: number;
+  /** Models the client may run turns on; absent allows any model. */
   allowed_models?: string[];
   ephemeral?: boolean;
 }
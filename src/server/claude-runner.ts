@@ -1,9 +1,24 @@
 import type { Logger } from "pino";
 import { z } from "zod";
-import type { AgentConfig, Config } from "./config.js";
-import { ClaudeSession, ClaudeSessionError, SessionBusyError, type ContentBlock } from "./claude-session.js";
+import type { AgentConfig, Config, SessionCustomization } from "./config.js";
+import {
+  ClaudeSession,
+  ClaudeSessionError,
+  ResourceLimitError,
+  SessionBusyError,
+  SessionSilentError,
+  TurnInterruptedError,
+  type ContentBlock,
+  type LateResultListener,
+  type SessionActivity,
+  type SessionProgressListener,
+} from "./claude-session.js";
+import type { ContextUsage } from "./context-window.js";
 import type { SqliteTaskStore } from "./services/task-store.js";
 import type { SessionStore } from "./services/session-store.js";
+import type { LimitedProcess, WatchdogTarget } from "./services/resource-watchdog.js";
+import type { ProcessGroupSource } from "./services/process-tracker.js";
+import { processStartedAt, type ProcessGroup } from "./proc.js";
 
 // ---------------------------------------------------------------------------
 // Response schema (unchanged — used by executor, budget tracker, tests)
@@ -13,6 +28,8 @@ export const ClaudeResponseSchema = z.object({
   result: z.string(),
   session_id: z.string(),
   is_error: z.boolean(),
+  /** The CLI's result subtype: "success", "error_max_turns", "error_during_execution", … */
+  subtype: z.string().optional(),
   duration_ms: z.number(),
   duration_api_ms: z.number(),
   num_turns: z.number(),
@@ -30,6 +47,8 @@ export const ClaudeResponseSchema = z.object({
     max_tokens: z.number(),
     remaining_tokens: z.number(),
     compact_recommended: z.boolean(),
+    /** The conversation was compacted before this turn (`auto_compact`). */
+    compacted: z.boolean().optional(),
   }).optional(),
 });
 
@@ -43,35 +62,140 @@ export interface RunOptions {
   taskId?: string;
   /** Claude session ID for resuming after process death. Typically supplied by SessionStore. */
   resumeSessionId?: string;
+  /** Fork `resumeSessionId` instead of continuing it (used only when a process is spawned). */
+  forkSession?: boolean;
+  /** Receives text deltas and tool-use steps while the turn is in progress. */
+  onProgress?: SessionProgressListener;
+  /** Turn timeout; defaults to `server.request_timeout`. */
+  timeoutMs?: number;
+  /** Receives the result if it arrives after the turn timed out. */
+  onLateResult?: LateResultListener;
+  /**
+   * Called with the 1-based position when the message has to wait for an
+   * earlier turn on the same context (`max_queued_messages` > 0).
+   */
+  onQueued?: (position: number) => void;
+  /** Called when the conversation is compacted before this turn (`auto_compact`). */
+  onCompacting?: (usage: ContextUsage) => void;
+  /** Directory to spawn Claude in instead of the agent's work_dir (`workspace: isolated`). */
+  workDir?: string;
+  /**
+   * Model for this turn instead of the agent's. A running process is
+   * switched to it, and back to the agent's model for the next turn without one.
+   */
+  model?: string;
+  /** Settings the context was started with (`customize`); applied when a process is spawned. */
+  customization?: SessionCustomization;
+  /**
+   * Awaited once the turn owns the context's session, before Claude gets
+   * the message. Used to roll the workspace back to a checkpoint.
+   */
+  beforeTurn?: () => Promise<void>;
+  /**
+   * Awaited after a successful turn, before the next queued message on the
+   * context may start. Used to capture the turn's workspace changes.
+   */
+  afterTurn?: () => Promise<void>;
+}
+
+interface QueuedTurn {
+  taskId?: string;
+  resolve: () => void;
+  reject: (error: Error) => void;
 }
 
 // ---------------------------------------------------------------------------
 // ClaudeRunner — session pool manager
 // ---------------------------------------------------------------------------
 
-export class ClaudeRunner {
+export class ClaudeRunner implements WatchdogTarget, ProcessGroupSource {
   private readonly sessions = new Map<string, ClaudeSession>();
   private readonly taskToContext = new Map<string, string>();
+  /** Contexts with a turn in progress (from admission until it settles) → owning task. */
+  private readonly activeTurns = new Map<string, string | undefined>();
+  /** Follow-ups waiting for the active turn on their context, oldest first. */
+  private readonly contextQueues = new Map<string, QueuedTurn[]>();
+  /** agent → spawned sessions not bound to a context yet (`warm_pool`). */
+  private readonly warmPools = new Map<string, ClaudeSession[]>();
+  /**
+   * context → process groups of every Claude process it has had, with the
+   * start time of their leader. Tool commands outlive a reaped or killed
+   * CLI in its group, so groups stay here until ProcessTracker finds them
+   * empty or their PID taken by another process.
+   */
+  private readonly groupsByContext = new Map<string, Map<number, number | null>>();
   private readonly maxConcurrent: number;
   private readonly requestTimeout: number;
+  private readonly processIdleTimeoutMs: number;
+  private readonly interruptGraceMs: number;
   private readonly config: Config;
   private readonly log: Logger;
+  private releasing = false;
+  private reapTimer: ReturnType<typeof setInterval> | null = null;
+
+  /** Called when a turn ends or a session goes away. Set by the owner (AdmissionQueue wiring). */
+  onCapacityFreed: (() => void) | null = null;
 
   constructor(config: Config, log: Logger) {
     this.config = config;
     this.maxConcurrent = config.server.max_concurrent;
     this.requestTimeout = config.server.request_timeout;
+    this.processIdleTimeoutMs = config.sessions.process_idle_timeout_minutes * 60_000;
+    this.interruptGraceMs = config.claude.interrupt_grace_seconds * 1000;
     this.log = log.child({ component: "claude-runner" });
   }
 
+  /** Start the idle-process reaper and fill the warm pools. */
+  start(): void {
+    this.fillWarmPools();
+    this.reapTimer = setInterval(() => {
+      this.reapIdle();
+      this.fillWarmPools();
+    }, 60_000);
+  }
+
+  stop(): void {
+    if (this.reapTimer) {
+      clearInterval(this.reapTimer);
+      this.reapTimer = null;
+    }
+  }
+
   /** Number of active sessions (live Claude processes). */
   get concurrentCount(): number {
     return this.sessions.size;
   }
 
-  /** Whether we're at the maximum number of concurrent sessions. */
+  /** Spawned sessions waiting in warm pools, not bound to a context. */
+  get warmCount(): number {
+    let count = 0;
+    for (const pool of this.warmPools.values()) count += pool.length;
+    return count;
+  }
+
+  /** Whether we're at the maximum number of concurrent sessions (warm ones included). */
   get isFull(): boolean {
-    return this.sessions.size >= this.maxConcurrent;
+    return this.sessions.size + this.warmCount >= this.maxConcurrent;
+  }
+
+  /**
+   * Sessions that could be started now, counting idle ones that would be
+   * evicted. Warm sessions are free slots too: used or killed on demand.
+   */
+  get freeSlots(): number {
+    let free = this.maxConcurrent - this.sessions.size;
+    for (const [contextId, session] of this.sessions) {
+      if (this.isReclaimable(contextId, session)) free++;
+    }
+    return Math.max(0, free);
+  }
+
+  /**
+   * True once releaseAll() has started. Turns rejected by the release are not
+   * failures: their processes keep running and are reattached on restart.
+   */
+  get isReleasing(): boolean {
+    return this.releasing;
   }
 
   /** Check if a live session exists for a contextId. */
@@ -85,13 +209,112 @@ export class ClaudeRunner {
     return this.sessions.get(contextId)?.pid;
   }
 
+  /** What the context's live session is doing, if it has one. */
+  getSessionActivity(contextId: string): SessionActivity | undefined {
+    return this.sessions.get(contextId)?.activity;
+  }
+
+  /** Contexts whose session has gone silent (`max_silence_seconds`) and was flagged, not killed. */
+  silentContexts(): string[] {
+    const result: string[] = [];
+    for (const [contextId, session] of this.sessions) {
+      if (session.isAlive && session.activity.silentSince !== null) result.push(contextId);
+    }
+    return result;
+  }
+
+  /** Context a running task belongs to, if the task was started by this runner. */
+  getContextIdForTask(taskId: string): string | undefined {
+    return this.taskToContext.get(taskId);
+  }
+
+  /** Number of follow-ups waiting on a context. */
+  queuedCount(contextId: string): number {
+    return this.contextQueues.get(contextId)?.length ?? 0;
+  }
+
   /**
    * Send a message to the session for a contextId.
    * Creates a new session if none exists. Reuses existing session otherwise.
    * Throws CapacityError if no session exists and we're at capacity.
-   * Throws SessionBusyError if the session is currently processing.
+   * If a turn is already running on the context, waits behind it when the
+   * agent allows queueing (`max_queued_messages`), else throws SessionBusyError.
    */
   async sendMessage(options: RunOptions): Promise<ClaudeResponse> {
+    const queued = this.acquireTurn(options);
+
+    // Track taskId → contextId for cancellation (queued messages included),
+    // until the turn settles: a finished task must not reach the context's next one
+    if (options.taskId) {
+      this.taskToContext.set(options.taskId, options.contextId);
+    }
+
+    try {
+      // Only await when actually queued: the session must be claimed in the
+      // same tick as the call (AdmissionQueue relies on it)
+      if (queued) await queued;
+      try {
+        const response = await this.runTurn(options);
+        await options.afterTurn?.();
+        return response;
+      } finally {
+        this.releaseTurn(options.contextId);
+      }
+    } finally {
+      if (options.taskId) this.taskToContext.delete(options.taskId);
+    }
+  }
+
+  /**
+   * Take the context's turn. Returns undefined if taken immediately, or a
+   * promise that resolves when the queued message's turn comes.
+   */
+  private acquireTurn(options: RunOptions): Promise<void> | undefined {
+    const { contextId } = options;
+    if (!this.activeTurns.has(contextId)) {
+      this.activeTurns.set(contextId, options.taskId);
+      return undefined;
+    }
+
+    const maxQueued = options.agentConfig.max_queued_messages;
+    const queue = this.contextQueues.get(contextId) ?? [];
+    if (maxQueued === 0) {
+      throw new SessionBusyError("Session is currently processing another message");
+    }
+    if (queue.length >= maxQueued) {
+      throw new SessionBusyError(
+        `Session is busy and ${queue.length} message(s) are already queued (max ${maxQueued})`,
+      );
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      queue.push({ taskId: options.taskId, resolve, reject });
+      this.contextQueues.set(contextId, queue);
+      this.log.info(
+        { contextId, taskId: options.taskId, position: queue.length },
+        "message queued behind running turn",
+      );
+      options.onQueued?.(queue.length);
+    });
+  }
+
+  /** Hand the context's turn to the next queued message, or free it. */
+  private releaseTurn(contextId: string): void {
+    const queue = this.contextQueues.get(contextId);
+    const next = queue?.shift();
+    if (queue?.length === 0) this.contextQueues.delete(contextId);
+    if (next) {
+      // The context stays in activeTurns: ownership passes straight to `next`
+      this.activeTurns.set(contextId, next.taskId);
+      next.resolve();
+    } else {
+      // Only now is the session reclaimable, so only now can a waiting context use it
+      this.activeTurns.delete(contextId);
+      this.onCapacityFreed?.();
+    }
+  }
+
+  private async runTurn(options: RunOptions): Promise<ClaudeResponse> {
     let session = this.sessions.get(options.contextId);
 
     // If session is dead, remove it and allow re-creation
@@ -100,31 +323,45 @@ export class ClaudeRunner {
       session = undefined;
     }
 
-    // Create new session if needed
+    // Create new session if needed: a warm one if the agent has any, else spawn
     if (!session) {
-      if (this.isFull) {
-        throw new CapacityError(
-          `At capacity (${this.sessions.size}/${this.maxConcurrent})`,
+      session = this.takeWarm(options);
+      if (session) {
+        this.log.info(
+          { agent: options.agentName, contextId: options.contextId, warmLeft: this.warmPools.get(options.agentName)?.length },
+          "bound warm claude session",
         );
-      }
+        setImmediate(() => this.fillWarmPools());
+      } else {
+        if (this.isFull && !this.evictWarm() && !this.evictLeastRecentlyUsed()) {
+          throw new CapacityError(
+            `At capacity (${this.sessions.size}/${this.maxConcurrent})`,
+          );
+        }
 
-      this.log.info(
-        {
-          agent: options.agentName,
-          contextId: options.contextId,
-          resumeSessionId: options.resumeSessionId,
-          concurrent: this.sessions.size + 1,
-        },
-        "creating new claude session",
-      );
+        this.log.info(
+          {
+            agent: options.agentName,
+            contextId: options.contextId,
+            resumeSessionId: options.resumeSessionId,
+            fork: options.forkSession,
+            concurrent: this.sessions.size + 1,
+          },
+          "creating new claude session",
+        );
 
-      session = new ClaudeSession({
-        agentName: options.agentName,
-        agentConfig: options.agentConfig,
-        config: this.config,
-        log: this.log,
-        resumeSessionId: options.resumeSessionId,
-      });
+        session = new ClaudeSession({
+          agentName: options.agentName,
+          agentConfig: options.agentConfig,
+          config: this.config,
+          log: this.log,
+          resumeSessionId: options.resumeSessionId,
+          forkSession: options.forkSession,
+          workDir: options.workDir,
+          model: options.model,
+          customization: options.customization,
+        });
+      }
 
       session.onDeath = (err) => {
         this.log.warn(
@@ -132,19 +369,32 @@ export class ClaudeRunner {
           "claude session died",
         );
         this.sessions.delete(options.contextId);
+        this.onCapacityFreed?.();
       };
 
       this.sessions.set(options.contextId, session);
+      if (session.pid !== undefined) {
+        const groups = this.groupsByContext.get(options.contextId) ?? new Map<number, number | null>();
+        groups.set(session.pid, processStartedAt(session.pid));
+        this.groupsByContext.set(options.contextId, groups);
+      }
     }
 
-    // Track taskId → contextId for cancellation
-    if (options.taskId) {
-      this.taskToContext.set(options.taskId, options.contextId);
+    const model = options.model ?? options.agentConfig.model ?? this.config.claude.default_model;
+    if (session.model !== model) await session.setModel(model);
+    if (options.beforeTurn) await options.beforeTurn();
+    // Checked here rather than inside compact() so that an uncompacted
+    // turn reaches the session without an extra await
+    let compaction: ClaudeResponse | null = null;
+    const usage = session.contextUsage;
+    if (options.agentConfig.auto_compact.enabled && usage?.compact_recommended) {
+      compaction = await this.compact(session, options, usage);
     }
-
-    const response = await session.sendMessage(
+    let response = await session.sendMessage(
       options.message,
-      this.requestTimeout * 1000,
+      options.timeoutMs ?? this.requestTimeout * 1000,
+      options.onProgress,
+      options.onLateResult,
     );
 
     this.log.info(
@@ -158,9 +408,174 @@ export class ClaudeRunner {
       "claude message completed",
     );
 
+    if (compaction) {
+      response = {
+        ...response,
+        total_cost_usd: response.total_cost_usd + compaction.total_cost_usd,
+        context: response.context && { ...response.context, compacted: true },
+      };
+    }
     return response;
   }
 
+  /**
+   * Send `/compact` ahead of a turn (`auto_compact`). Returns the
+   * compaction's result, or null if it failed: that is logged and the turn
+   * goes ahead uncompacted. An interrupt (cancel) ends the turn.
+   */
+  private async compact(
+    session: ClaudeSession,
+    options: RunOptions,
+    usage: ContextUsage,
+  ): Promise<ClaudeResponse | null> {
+    this.log.info(
+      { contextId: options.contextId, usedTokens: usage.used_tokens, maxTokens: usage.max_tokens },
+      "compacting conversation before turn",
+    );
+    options.onCompacting?.(usage);
+    try {
+      return await session.sendMessage(
+        "/compact",
+        options.timeoutMs ?? this.requestTimeout * 1000,
+      );
+    } catch (err) {
+      if (err instanceof TurnInterruptedError) throw err;
+      this.log.warn(
+        { contextId: options.contextId, error: err instanceof Error ? err.message : String(err) },
+        "auto-compaction failed",
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Spawn sessions for agents with a `warm_pool` until each pool is full or
+   * no slot is left. Warm processes only start up; the CLI does not emit its
+   * init message until the first message arrives.
+   */
+  fillWarmPools(): void {
+    if (this.releasing) return;
+    for (const [agentName, agentConfig] of Object.entries(this.config.agents)) {
+      // Isolated contexts each run in their own directory, unknown until bound
+      if (!agentConfig.enabled || agentConfig.warm_pool === 0 || agentConfig.workspace === "isolated") continue;
+      const pool = this.warmPools.get(agentName) ?? [];
+      this.warmPools.set(agentName, pool);
+
+      while (pool.length < agentConfig.warm_pool && !this.isFull) {
+        const session = new ClaudeSession({
+          agentName,
+          agentConfig,
+          config: this.config,
+          log: this.log,
+        });
+        session.onDeath = (err) => {
+          this.log.warn({ agent: agentName, error: err.message }, "warm claude session died");
+          this.removeWarm(agentName, session);
+          this.onCapacityFreed?.();
+        };
+        pool.push(session);
+        this.log.debug({ agent: agentName, warm: pool.length }, "spawned warm claude session");
+      }
+    }
+  }
+
+  /** A warm session for a new, non-resumed context of this agent. */
+  private takeWarm(options: RunOptions): ClaudeSession | undefined {
+    // A resumed or forked conversation needs `--resume` at spawn time, a workspace its
+    // cwd, a customized context its own flags
+    if (options.resumeSessionId || options.workDir || options.customization) return undefined;
+    const pool = this.warmPools.get(options.agentName);
+    while (pool && pool.length > 0) {
+      const session = pool.shift()!;
+      if (session.isAlive) return session;
+    }
+    return undefined;
+  }
+
+  /** Kill a warm session from the largest pool to make room. Returns false if there is none. */
+  private evictWarm(): boolean {
+    let largest: [string, ClaudeSession[]] | undefined;
+    for (const entry of this.warmPools) {
+      if (entry[1].length > 0 && (!largest || entry[1].length > largest[1].length)) {
+        largest = entry;
+      }
+    }
+    if (!largest) return false;
+
+    const session = largest[1].pop()!;
+    session.destroy();
+    this.log.info({ agent: largest[0] }, "evicted warm session (at capacity)");
+    return true;
+  }
+
+  private removeWarm(agentName: string, session: ClaudeSession): void {
+    const pool = this.warmPools.get(agentName);
+    const index = pool?.indexOf(session) ?? -1;
+    if (index !== -1) pool!.splice(index, 1);
+  }
+
+  private drainWarmPools(): void {
+    for (const pool of this.warmPools.values()) {
+      for (const session of pool.splice(0)) session.destroy();
+    }
+  }
+
+  /**
+   * Kill processes idle for longer than `sessions.process_idle_timeout_minutes`.
+   * The conversation survives: the next message respawns with `--resume`.
+   * Returns the number of sessions reaped.
+   */
+  reapIdle(now = Date.now()): number {
+    let reaped = 0;
+    for (const [contextId, session] of this.sessions) {
+      if (!this.isReclaimable(contextId, session)) continue;
+      const idleMs = now - session.lastActivityAt;
+      if (idleMs < this.processIdleTimeoutMs) continue;
+
+      session.destroy();
+      this.sessions.delete(contextId);
+      reaped++;
+      this.log.info(
+        { contextId, idleMinutes: Math.round(idleMs / 60_000) },
+        "reaped idle claude session",
+      );
+    }
+    if (reaped > 0) this.onCapacityFreed?.();
+    return reaped;
+  }
+
+  /**
+   * Make room for a new session by killing the least recently used idle one.
+   * Returns false if every session is busy.
+   */
+  private evictLeastRecentlyUsed(): boolean {
+    let lru: [string, ClaudeSession] | undefined;
+    for (const entry of this.sessions) {
+      if (!this.isReclaimable(...entry)) continue;
+      if (!lru || entry[1].lastActivityAt < lru[1].lastActivityAt) {
+        lru = entry;
+      }
+    }
+    if (!lru) return false;
+
+    const [contextId, session] = lru;
+    session.destroy();
+    this.sessions.delete(contextId);
+    this.log.info(
+      { contextId, idleSeconds: Math.round((Date.now() - session.lastActivityAt) / 1000) },
+      "evicted least recently used idle session (at capacity)",
+    );
+    return true;
+  }
+
+  /**
+   * Idle, not owing the result of a timed-out turn, and not about to be
+   * used by a queued message.
+   */
+  private isReclaimable(contextId: string, session: ClaudeSession): boolean {
+    return session.isIdle && !session.awaitingLateResult && !this.activeTurns.has(contextId);
+  }
+
   /** Destroy a specific session by contextId. */
   destroySession(contextId: string): void {
     const session = this.sessions.get(contextId);
@@ -168,11 +583,71 @@ export class ClaudeRunner {
       session.destroy();
       this.sessions.delete(contextId);
       this.log.info({ contextId }, "session destroyed");
+      this.onCapacityFreed?.();
+    }
+  }
+
+  /** Live sessions, warm ones included, whose agent sets a watchdog limit. */
+  limitedProcesses(): LimitedProcess[] {
+    const result: LimitedProcess[] = [];
+    const add = (session: ClaudeSession, contextId: string | null) => {
+      const { limits } = session.agentConfig;
+      if (session.isAlive && session.pid !== undefined &&
+          (limits.max_rss_mb !== null || limits.max_cpu_percent !== null)) {
+        result.push({ pid: session.pid, contextId, limits });
+      }
+    };
+    for (const [contextId, session] of this.sessions) add(session, contextId);
+    for (const pool of this.warmPools.values()) {
+      for (const session of pool) add(session, null);
+    }
+    return result;
+  }
+
+  /**
+   * Kill a session and its tool processes for exceeding a resource limit
+   * (ResourceWatchdog). Its turn fails with `error`; the conversation
+   * survives and the next message respawns with `--resume`.
+   */
+  killOverLimit(pid: number, error: ResourceLimitError): void {
+    for (const [contextId, session] of this.sessions) {
+      if (session.pid !== pid) continue;
+      session.kill(error);
+      this.sessions.delete(contextId);
+      this.onCapacityFreed?.();
+      return;
+    }
+    for (const [agentName, pool] of this.warmPools) {
+      const session = pool.find((s) => s.pid === pid);
+      if (!session) continue;
+      session.kill(error);
+      this.removeWarm(agentName, session);
+      this.onCapacityFreed?.();
+      return;
     }
   }
 
+  /** Process groups of each context's current and earlier Claude processes. */
+  processGroups(): Map<string, ProcessGroup[]> {
+    const result = new Map<string, ProcessGroup[]>();
+    for (const [contextId, groups] of this.groupsByContext) {
+      result.set(contextId, [...groups].map(([pgid, leaderStartedAt]) => ({ pgid, leaderStartedAt })));
+    }
+    return result;
+  }
+
+  /** Stop tracking a process group that has no members left. */
+  forgetProcessGroup(contextId: string, pgid: number): void {
+    const groups = this.groupsByContext.get(contextId);
+    if (!groups) return;
+    groups.delete(pgid);
+    if (groups.size === 0) this.groupsByContext.delete(contextId);
+  }
+
   /** Kill all active sessions (used for explicit kills: admin, task cancellation, tests). */
   killAll(): void {
+    this.rejectQueued(new ClaudeSessionError("Session destroyed"));
+    this.drainWarmPools();
     for (const [contextId, session] of this.sessions) {
       session.destroy();
       this.log.debug({ contextId }, "killing session");
@@ -181,12 +656,60 @@ export class ClaudeRunner {
     this.taskToContext.clear();
   }
 
+  private rejectQueued(error: Error): void {
+    for (const queue of this.contextQueues.values()) {
+      for (const queued of queue) queued.reject(error);
+    }
+    this.contextQueues.clear();
+  }
+
   /**
    * Release all active sessions during graceful shutdown.
    * Processes continue running independently. In-flight tasks are updated
-   * to "working" status with an informative message.
+   * to "working" status with an informative message and the process PID
+   * (`metadata.orphan_pid`) so OrphanMonitor can reattach them on restart.
    */
   async releaseAll(taskStore: SqliteTaskStore): Promise<void> {
+    this.releasing = true;
+    // Warm processes hold no conversation; nothing to keep running
+    this.drainWarmPools();
+
+    // Queued follow-ups never reached Claude; fail them so they are not
+    // mistaken for the orphaned turn ahead of them after the restart
+    for (const queue of this.contextQueues.values()) {
+      for (const { taskId } of queue) {
+        if (!taskId) continue;
+        this.taskToContext.delete(taskId);
+        try {
+          const task = await taskStore.load(taskId);
+          if (task) {
+            task.status = {
+              state: "failed",
+              message: {
+                kind: "message",
+                messageId: `shutdown-${Date.now()}`,
+                role: "agent",
+                parts: [{
+                  kind: "text",
+                  text: "Error: The server restarted before this queued message was sent to Claude. Send it again.",
+                }],
+                contextId: task.contextId,
+                metadata: { error_type: "process_lost" },
+              },
+              timestamp: new Date().toISOString(),
+            };
+            await taskStore.save(task);
+          }
+        } catch (err) {
+          this.log.warn(
+            { taskId, error: err instanceof Error ? err.message : String(err) },
+            "failed to update queued task during shutdown",
+          );
+        }
+      }
+    }
+    this.rejectQueued(new ClaudeSessionError("Session released (server shutting down)"));
+
     // Update in-flight tasks before releasing sessions
     for (const [taskId, contextId] of this.taskToContext) {
       const session = this.sessions.get(contextId);
@@ -208,6 +731,16 @@ export class ClaudeRunner {
               },
               timestamp: new Date().toISOString(),
             };
+            // What OrphanMonitor needs to finish the task from the transcript
+            // (and to tell the process from a later one with its PID)
+            const startedAt = session.pid ? this.groupsByContext.get(contextId)?.get(session.pid) : undefined;
+            task.metadata = {
+              ...task.metadata,
+              ...(session.pid ? { orphan_pid: session.pid } : {}),
+              ...(startedAt ? { orphan_started_at: startedAt } : {}),
+              ...(session.claudeSessionId ? { orphan_session_id: session.claudeSessionId } : {}),
+              orphan_agent: session.agentName,
+            };
             await taskStore.save(task);
             this.log.info({ taskId, contextId }, "updated in-flight task status for shutdown");
           }
@@ -229,11 +762,43 @@ export class ClaudeRunner {
     this.taskToContext.clear();
   }
 
+  /**
+   * Stop a task's turn without killing its process. A queued message is
+   * dropped; a running turn is interrupted and the session stays warm for
+   * the next message. The process is killed only if the turn does not stop
+   * within `claude.interrupt_grace_seconds`. Anything else (no turn of this
+   * task running, orphans) falls back to cancelByTaskId().
+   */
+  async interruptByTaskId(taskId: string, sessionStore?: SessionStore): Promise<boolean> {
+    if (this.dropQueued(taskId)) return true;
+
+    const contextId = this.taskToContext.get(taskId);
+    const session = contextId !== undefined ? this.sessions.get(contextId) : undefined;
+    if (!contextId || !session || session.state !== "processing" ||
+        this.activeTurns.get(contextId) !== taskId) {
+      return this.cancelByTaskId(taskId, sessionStore);
+    }
+
+    const kept = await session.interrupt(this.interruptGraceMs);
+    this.taskToContext.delete(taskId);
+    if (kept) {
+      this.log.info({ taskId, contextId }, "interrupted turn for task");
+    } else {
+      if (this.sessions.get(contextId) === session) this.sessions.delete(contextId);
+      this.log.info({ taskId, contextId }, "killed session for task after failed interrupt");
+      this.onCapacityFreed?.();
+    }
+    return true;
+  }
+
   /**
    * Cancel a specific task's session. Returns true if found and destroyed.
    * Also handles orphaned processes from before a restart (via sessionStore PID lookup).
    */
   cancelByTaskId(taskId: string, sessionStore?: SessionStore): boolean {
+    // Still waiting behind another turn: drop it without touching the session
+    if (this.dropQueued(taskId)) return true;
+
     const contextId = this.taskToContext.get(taskId);
     if (contextId) {
       const session = this.sessions.get(contextId);
@@ -242,14 +807,17 @@ export class ClaudeRunner {
         this.sessions.delete(contextId);
         this.taskToContext.delete(taskId);
         this.log.info({ taskId, contextId }, "cancelled session for task");
+        this.onCapacityFreed?.();
         return true;
       }
     }
 
-    // No live session — check for orphaned process via session store
+    // No live session — check for orphaned process via session store. A
+    // context this runner has a session for is no orphan: its last PID is
+    // the process of whatever turn runs there now
     if (sessionStore) {
       const sessionMeta = sessionStore.getByTaskId(taskId);
-      if (sessionMeta) {
+      if (sessionMeta && !this.sessions.has(sessionMeta.contextId)) {
         const pid = sessionStore.getLastPid(sessionMeta.contextId);
         if (pid) {
           return this.killOrphanPid(pid, taskId, sessionMeta.contextId);
@@ -260,6 +828,20 @@ export class ClaudeRunner {
     return false;
   }
 
+  /** Remove a message still waiting behind another turn. Returns false if not queued. */
+  private dropQueued(taskId: string): boolean {
+    for (const [contextId, queue] of this.contextQueues) {
+      const index = queue.findIndex((q) => q.taskId === taskId);
+      if (index === -1) continue;
+      const [queued] = queue.splice(index, 1);
+      if (queue.length === 0) this.contextQueues.delete(contextId);
+      queued!.reject(new ClaudeSessionError("Message canceled while queued"));
+      this.log.info({ taskId, contextId }, "cancelled queued message");
+      return true;
+    }
+    return false;
+  }
+
   /**
    * Kill an orphaned process by PID. Returns true if the process was found and killed.
    */
@@ -317,4 +899,4 @@ export class ClaudeProcessError extends Error {
   }
 }
 
-export { SessionBusyError, ClaudeSessionError };
+export { SessionBusyError, ClaudeSessionError, TurnInterruptedError, ResourceLimitError, SessionSilentError };
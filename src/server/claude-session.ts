@@ -1,8 +1,12 @@
 import { spawn, type ChildProcess } from "node:child_process";
+import { v4 as uuidv4 } from "uuid";
 import type { Logger } from "pino";
 import { z } from "zod";
-import type { AgentConfig, Config } from "./config.js";
+import type { AgentConfig, AgentEnv, Config, ResourceLimits, SessionCustomization } from "./config.js";
 import { TimeoutError, type ClaudeResponse } from "./claude-runner.js";
+import { computeContextUsage, type ContextUsage, type TokenUsage } from "./context-window.js";
+import { mcpAllowedTools, mcpConfigPath } from "./mcp-servers.js";
+import { agentSettingsPath } from "./agent-settings.js";
 
 // ---------------------------------------------------------------------------
 // Stream-JSON schemas (loose parsing for forward compatibility)
@@ -18,6 +22,13 @@ export const StreamSystemInitSchema = z.object({
   permissionMode: z.string().optional(),
 }).passthrough();
 
+const StreamUsageSchema = z.object({
+  input_tokens: z.number().default(0),
+  output_tokens: z.number().default(0),
+  cache_creation_input_tokens: z.number().default(0),
+  cache_read_input_tokens: z.number().default(0),
+}).passthrough();
+
 export const StreamResultSchema = z.object({
   type: z.literal("result"),
   subtype: z.string(), // "success" | "error_max_turns" | "error_during_execution" | etc.
@@ -28,16 +39,48 @@ export const StreamResultSchema = z.object({
   num_turns: z.number(),
   result: z.string().optional().default(""),
   total_cost_usd: z.number(),
-  usage: z.object({
-    input_tokens: z.number().default(0),
-    output_tokens: z.number().default(0),
-    cache_creation_input_tokens: z.number().default(0),
-    cache_read_input_tokens: z.number().default(0),
-  }).passthrough(),
+  usage: StreamUsageSchema,
   permission_denials: z.array(z.unknown()).default([]),
   stop_reason: z.string().nullable().optional(),
 }).passthrough();
 
+const StreamContentBlockSchema = z.object({
+  type: z.string(),
+}).passthrough();
+
+export const StreamAssistantSchema = z.object({
+  type: z.literal("assistant"),
+  message: z.object({
+    content: z.array(StreamContentBlockSchema).default([]),
+    /** Usage of the API call that produced this message. */
+    usage: StreamUsageSchema.optional(),
+  }).passthrough(),
+  parent_tool_use_id: z.string().nullable().optional(),
+}).passthrough();
+
+/** Partial message events, emitted when `--include-partial-messages` is set. */
+export const StreamEventSchema = z.object({
+  type: z.literal("stream_event"),
+  event: z.object({
+    type: z.string(),
+    delta: z.object({
+      type: z.string(),
+      text: z.string().optional(),
+    }).passthrough().optional(),
+  }).passthrough(),
+  parent_tool_use_id: z.string().nullable().optional(),
+}).passthrough();
+
+/** Reply to a control request we wrote on stdin (e.g. `interrupt`). */
+export const StreamControlResponseSchema = z.object({
+  type: z.literal("control_response"),
+  response: z.object({
+    subtype: z.string(), // "success" | "error"
+    request_id: z.string(),
+    error: z.string().optional(),
+  }).passthrough(),
+}).passthrough();
+
 /** Minimal discriminator for dispatching NDJSON lines by type. */
 const StreamLineTypeSchema = z.object({
   type: z.string(),
@@ -58,14 +101,50 @@ export type ContentBlock =
 
 export type SessionState = "initializing" | "idle" | "processing" | "dead";
 
+/** What a session is doing, for telling a long turn apart from a wedged CLI. */
+export interface SessionActivity {
+  state: SessionState;
+  /** Claude owes output: a turn, a timed-out turn or an interrupt is still running. */
+  working: boolean;
+  /** Last NDJSON line from Claude, or the write that started the current work. */
+  lastOutputAt: number;
+  /** Set while Claude has been silent for longer than `max_silence_seconds`. */
+  silentSince: number | null;
+}
+
+/**
+ * Live progress from an in-flight turn, derived from the NDJSON lines that
+ * precede the result. Only top-level output is reported — subagent text
+ * (lines with a `parent_tool_use_id`) is not part of the final answer.
+ */
+export type SessionProgressEvent =
+  | { type: "text_delta"; text: string }
+  | { type: "tool_use"; toolUseId: string; name: string; input: unknown };
+
+export type SessionProgressListener = (event: SessionProgressEvent) => void;
+
+/** Receives the result of a turn whose caller already gave up waiting (timed out). */
+export type LateResultListener = (response: ClaudeResponse) => void;
+
 export interface ClaudeSessionOptions {
   agentName: string;
   agentConfig: AgentConfig;
   config: Config;
   log: Logger;
   resumeSessionId?: string;
+  /** With resumeSessionId: continue a copy of that conversation under a new session ID. */
+  forkSession?: boolean;
+  /** Overrides the agent's work_dir (per-context workspaces). */
+  workDir?: string;
+  /** Overrides the agent's model (a `model` picked per message). */
+  model?: string;
+  /** The context's own settings within the agent's (`customize`). */
+  customization?: SessionCustomization;
 }
 
+/** How much of the CLI's stderr is kept for diagnostics. */
+const STDERR_TAIL_CHARS = 4000;
+
 // ---------------------------------------------------------------------------
 // ClaudeSession
 // ---------------------------------------------------------------------------
@@ -78,20 +157,47 @@ export class ClaudeSession {
   private _state: SessionState = "initializing";
   private lineBuffer = "";
   private modelUsed = "unknown";
+  /** Usage of the latest top-level API call; the result's usage sums the whole turn. */
+  private lastCallUsage: TokenUsage | null = null;
+  readonly agentName: string;
+  readonly agentConfig: AgentConfig;
+  /** Model requested at spawn or by setModel(); null is the CLI's default. */
+  private _model: string | null;
   private readonly log: Logger;
   private readonly maxBufferBytes: number;
 
   // Per-message promise plumbing
   private pendingResolve: ((response: ClaudeResponse) => void) | null = null;
   private pendingReject: ((error: Error) => void) | null = null;
+  private pendingProgress: SessionProgressListener | null = null;
+  private pendingLateResult: LateResultListener | null = null;
   private messageTimeout: ReturnType<typeof setTimeout> | null = null;
 
+  /**
+   * Turns that timed out but are still running in Claude, oldest first.
+   * Claude answers stdin messages in order, so the next result belongs to
+   * the head of this queue before it belongs to the pending caller.
+   */
+  private readonly timedOutTurns: (LateResultListener | null)[] = [];
+
+  // Interrupt plumbing: set while an interrupt request awaits the turn's end
+  private interruptRequestId: string | null = null;
+  private interruptSettle: ((interrupted: boolean) => void) | null = null;
+
+  /** Control requests awaiting their control_response, by request ID. */
+  private readonly controlRequests = new Map<string, (error?: Error) => void>();
+
   // Init wait plumbing
   private initResolve: (() => void) | null = null;
   private initReject: ((error: Error) => void) | null = null;
 
-  // Stderr capture for diagnostics
-  private stderrChunks: string[] = [];
+  // Stderr capture for diagnostics (the last STDERR_TAIL_CHARS)
+  private stderrTail = "";
+
+  // Silence watch (max_silence_seconds)
+  private lastOutputAt = Date.now();
+  private silentSince: number | null = null;
+  private silenceTimer: ReturnType<typeof setTimeout> | null = null;
 
   /** Called when the process dies unexpectedly. Set by the owner (ClaudeRunner). */
   onDeath: ((error: Error) => void) | null = null;
@@ -99,21 +205,27 @@ export class ClaudeSession {
   /** Timestamp of last message send or result receive. */
   lastActivityAt = Date.now();
 
+  /** Context window usage as of the last result, or null before the first one. */
+  contextUsage: ContextUsage | null = null;
+
   constructor(options: ClaudeSessionOptions) {
     this.log = options.log.child({
       component: "claude-session",
       agent: options.agentName,
     });
     this.maxBufferBytes = options.config.claude.max_stdout_buffer_mb * 1024 * 1024;
+    this.agentName = options.agentName;
+    this.agentConfig = options.agentConfig;
+    this._model = options.model ?? options.agentConfig.model ?? options.config.claude.default_model;
 
     const args = buildArgs(options);
-    const env = { ...process.env };
-    delete env["CLAUDECODE"];
+    const env = agentEnv(options.agentConfig.env, options.config);
 
     const workDir =
-      options.agentConfig.work_dir ?? options.config.claude.work_dir ?? process.cwd();
+      options.workDir ?? options.agentConfig.work_dir ?? options.config.claude.work_dir ?? process.cwd();
 
-    this.proc = spawn(options.config.claude.binary, args, {
+    const [command, commandArgs] = limitedCommand(options.config.claude.binary, args, options.agentConfig.limits);
+    this.proc = spawn(command, commandArgs, {
       env,
       cwd: workDir,
       stdio: ["pipe", "pipe", "pipe"],
@@ -121,10 +233,9 @@ export class ClaudeSession {
     });
 
     this.proc.stdout!.on("data", (chunk: Buffer) => this.handleStdoutData(chunk));
-    this.stderrChunks = [];
     this.proc.stderr!.on("data", (chunk: Buffer) => {
       const text = chunk.toString();
-      this.stderrChunks.push(text);
+      this.stderrTail = (this.stderrTail + text).slice(-STDERR_TAIL_CHARS);
       this.log.warn({ stderr: text.slice(0, 500) }, "claude stderr");
     });
 
@@ -136,11 +247,14 @@ export class ClaudeSession {
       this.onDeath?.(err);
     });
 
-    this.proc.on("close", (code) => {
+    this.proc.on("close", (code, signal) => {
       if (this._state === "dead") return; // already handled
-      this.log.info({ code }, "claude process exited");
+      this.log.info({ code, signal }, "claude process exited");
       this._state = "dead";
-      const err = new ClaudeSessionError(`Claude process exited with code ${code}`);
+      // The kernel sends SIGXCPU when the CLI itself reaches limits.cpu_seconds
+      const err = signal === "SIGXCPU"
+        ? new ResourceLimitError("Claude process exceeded its CPU time limit (limits.cpu_seconds)")
+        : new ClaudeSessionError(`Claude process exited with code ${code}`);
       this.rejectPending(err);
       this.resolveInitError(err);
       this.onDeath?.(err);
@@ -163,6 +277,27 @@ export class ClaudeSession {
     return this._state === "idle";
   }
 
+  /**
+   * True while a timed-out turn is still running in Claude. The session is
+   * `idle` (it accepts messages) but killing it would lose that result.
+   */
+  get awaitingLateResult(): boolean {
+    return this.timedOutTurns.length > 0;
+  }
+
+  get activity(): SessionActivity {
+    return {
+      state: this._state,
+      working: this.owesOutput,
+      lastOutputAt: this.lastOutputAt,
+      silentSince: this.silentSince,
+    };
+  }
+
+  get model(): string | null {
+    return this._model;
+  }
+
   /** PID of the underlying Claude process. */
   get pid(): number | undefined {
     return this.proc.pid;
@@ -197,8 +332,17 @@ export class ClaudeSession {
    * initializing we write the message immediately — the init message
    * always arrives on stdout before the result, so processLine() will
    * set claudeSessionId and transition state correctly in sequence.
+   *
+   * `onProgress` receives text deltas and tool-use steps while the turn runs.
+   * If the turn times out, Claude keeps working on it; `onLateResult`
+   * receives the result when it eventually arrives.
    */
-  async sendMessage(message: string | ContentBlock[], timeoutMs: number): Promise<ClaudeResponse> {
+  async sendMessage(
+    message: string | ContentBlock[],
+    timeoutMs: number,
+    onProgress?: SessionProgressListener,
+    onLateResult?: LateResultListener,
+  ): Promise<ClaudeResponse> {
     if (this._state === "dead") {
       throw new ClaudeSessionError("Session process is dead");
     }
@@ -207,27 +351,122 @@ export class ClaudeSession {
     }
 
     this.lastActivityAt = Date.now();
+    // Silence is counted from the first write Claude has not answered yet
+    if (!this.owesOutput) this.lastOutputAt = Date.now();
 
     return new Promise<ClaudeResponse>((resolve, reject) => {
       this.pendingResolve = resolve;
       this.pendingReject = reject;
+      this.pendingProgress = onProgress ?? null;
+      this.pendingLateResult = onLateResult ?? null;
       this._state = "processing";
 
       this.messageTimeout = setTimeout(() => {
         this.messageTimeout = null;
-        // Do NOT kill the process — just stop waiting.
-        // The result will arrive eventually and be silently consumed.
+        // Do NOT kill the process — just stop waiting. The result is
+        // handed to the late-result listener when it arrives.
         this._state = "idle";
         const savedReject = this.pendingReject;
+        this.timedOutTurns.push(this.pendingLateResult);
         this.pendingResolve = null;
         this.pendingReject = null;
+        this.pendingProgress = null;
+        this.pendingLateResult = null;
         savedReject?.(new TimeoutError(`Message timed out after ${timeoutMs / 1000}s`));
       }, timeoutMs);
 
       this.writeMessage(message);
+      this.watchSilence();
     });
   }
 
+  /**
+   * Abort the running turn but keep the process and its conversation.
+   *
+   * Writes an `interrupt` control request and waits for the result that
+   * ends the turn; the caller's sendMessage() then rejects with
+   * TurnInterruptedError and the session is `idle` again. If the turn has
+   * not stopped within `graceMs`, Claude refuses, or a timed-out turn is
+   * still ahead of it (the interrupt would hit that one instead), the
+   * process is destroyed. Resolves true if the process was kept.
+   */
+  async interrupt(graceMs: number): Promise<boolean> {
+    if (this._state !== "processing") return this.isAlive;
+    if (this.interruptSettle) {
+      throw new ClaudeSessionError("An interrupt is already in progress");
+    }
+    if (this.timedOutTurns.length > 0) {
+      this.log.info("timed-out turn still running; killing instead of interrupting");
+      this.destroy();
+      return false;
+    }
+
+    // The grace period replaces the turn timeout, and output from here on is
+    // the tail of an aborted turn
+    this.clearTimeout();
+    this.pendingProgress = null;
+    this.pendingLateResult = null;
+
+    const requestId = uuidv4();
+    return new Promise<boolean>((resolve) => {
+      const timer = setTimeout(() => {
+        this.log.warn({ graceMs }, "turn did not stop after interrupt — killing process");
+        this.destroy();
+      }, graceMs);
+      this.interruptRequestId = requestId;
+      this.interruptSettle = (interrupted) => {
+        clearTimeout(timer);
+        this.interruptRequestId = null;
+        this.interruptSettle = null;
+        resolve(interrupted);
+      };
+
+      this.log.info({ requestId }, "interrupting turn");
+      this.proc.stdin!.write(JSON.stringify({
+        type: "control_request",
+        request_id: requestId,
+        request: { subtype: "interrupt" },
+      }) + "\n");
+    });
+  }
+
+  /**
+   * Switch the model for the following turns with a `set_model` control
+   * request; null goes back to the CLI's default. The conversation stays.
+   * Rejects if Claude refuses the model or does not answer in time.
+   */
+  async setModel(model: string | null, timeoutMs = 10_000): Promise<void> {
+    if (model === this._model) return;
+    if (this._state === "dead") {
+      throw new ClaudeSessionError("Session process is dead");
+    }
+    if (this._state === "processing") {
+      throw new SessionBusyError("Session is currently processing another message");
+    }
+
+    const requestId = uuidv4();
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(
+        () => settle(new ClaudeSessionError(`Claude did not confirm the switch to model "${model}"`)),
+        timeoutMs,
+      );
+      const settle = (error?: Error) => {
+        clearTimeout(timer);
+        this.controlRequests.delete(requestId);
+        if (error) reject(error);
+        else resolve();
+      };
+      this.controlRequests.set(requestId, settle);
+      this.proc.stdin!.write(JSON.stringify({
+        type: "control_request",
+        request_id: requestId,
+        request: { subtype: "set_model", ...(model ? { model } : {}) },
+      }) + "\n");
+    });
+    this.log.info({ from: this._model, to: model }, "switched model");
+    this._model = model;
+  }
+
   /** Kill the process gracefully. */
   destroy(): void {
     if (this._state === "dead") return;
@@ -243,6 +482,25 @@ export class ClaudeSession {
     }
   }
 
+  /**
+   * Kill the process and everything it started (its process group) at once,
+   * rejecting the pending turn with `error`. Used when a resource limit is
+   * exceeded: a runaway tool gets no grace period.
+   */
+  kill(error: Error): void {
+    if (this._state === "dead") return;
+    this._state = "dead";
+    this.clearTimeout();
+    this.rejectPending(error);
+    this.resolveInitError(error);
+    try {
+      // Spawned detached, so the process group ID is the CLI's PID
+      process.kill(-this.proc.pid!, "SIGKILL");
+    } catch {
+      this.proc.kill("SIGKILL");
+    }
+  }
+
   /**
    * Release the process without killing it. The process continues running
    * independently after the server exits. Used during graceful shutdown so
@@ -300,6 +558,16 @@ export class ClaudeSession {
   }
 
   private processLine(line: string): void {
+    this.lastOutputAt = Date.now();
+    if (this.silentSince !== null) {
+      this.log.info(
+        { silentSeconds: Math.round((this.lastOutputAt - this.silentSince) / 1000) },
+        "claude session output resumed",
+      );
+      this.silentSince = null;
+      this.watchSilence();
+    }
+
     let parsed: unknown;
     try {
       parsed = JSON.parse(line);
@@ -318,7 +586,9 @@ export class ClaudeSession {
       if (init.success && init.data.subtype === "init") {
         this.claudeSessionId = init.data.session_id;
         this.modelUsed = init.data.model;
-        this._state = "idle";
+        // The CLI sends init only once it has read the first message, so
+        // the first turn is usually already running
+        if (this._state === "initializing") this._state = "idle";
         this.log.info(
           { sessionId: this.claudeSessionId, model: this.modelUsed },
           "claude session initialized",
@@ -332,25 +602,83 @@ export class ClaudeSession {
       const result = StreamResultSchema.safeParse(parsed);
       if (result.success) {
         this.lastActivityAt = Date.now();
-        const response = streamResultToClaudeResponse(result.data, this.modelUsed);
-        this.clearTimeout();
-        this._state = "idle";
+        this.contextUsage = computeContextUsage(
+          this.lastCallUsage ?? result.data.usage,
+          this.modelUsed,
+          this.agentConfig,
+        );
+        this.lastCallUsage = null;
+        const response = streamResultToClaudeResponse(result.data, this.modelUsed, this.contextUsage);
 
-        if (this.pendingResolve) {
+        if (this.interruptSettle) {
+          // The interrupted turn ended; the process stays warm for the next one
+          this._state = "idle";
+          const savedReject = this.pendingReject;
+          this.pendingResolve = null;
+          this.pendingReject = null;
+          this.interruptSettle(true);
+          savedReject?.(new TurnInterruptedError("Turn interrupted", response));
+        } else if (this.timedOutTurns.length > 0) {
+          // Belongs to a turn that timed out; the pending caller (if any)
+          // is still queued behind it in Claude
+          this.deliverLateResult(this.timedOutTurns.shift() ?? null, response);
+        } else if (this.pendingResolve) {
+          this.clearTimeout();
+          this._state = "idle";
           const savedResolve = this.pendingResolve;
           this.pendingResolve = null;
           this.pendingReject = null;
+          this.pendingProgress = null;
+          this.pendingLateResult = null;
           savedResolve(response);
         } else {
-          // Result arrived after timeout — silently consume
-          this.log.debug("result arrived after timeout, silently consumed");
+          this._state = "idle";
+          this.log.warn("result arrived with no turn waiting for it");
         }
       } else {
         this.log.warn({ errors: result.error.issues }, "failed to parse stream result");
       }
+    } else if (type === "control_response") {
+      const reply = StreamControlResponseSchema.safeParse(parsed);
+      const response = reply.success ? reply.data.response : undefined;
+      const settle = response && this.controlRequests.get(response.request_id);
+      if (response && settle) {
+        settle(response.subtype === "error"
+          ? new ClaudeSessionError(`Claude refused the request: ${response.error ?? "unknown error"}`)
+          : undefined);
+      } else if (response && response.request_id === this.interruptRequestId && response.subtype === "error") {
+        this.log.warn({ error: response.error }, "claude refused interrupt — killing process");
+        this.destroy();
+      }
+    } else if (type === "stream_event") {
+      const event = StreamEventSchema.safeParse(parsed);
+      if (event.success && !event.data.parent_tool_use_id) {
+        const delta = event.data.event.delta;
+        if (event.data.event.type === "content_block_delta" && delta?.type === "text_delta" && delta.text) {
+          this.emitProgress({ type: "text_delta", text: delta.text });
+        }
+      }
+    } else if (type === "assistant") {
+      // Text already arrived as stream_event deltas — only tool use is new here
+      const assistant = StreamAssistantSchema.safeParse(parsed);
+      if (assistant.success) {
+        if (assistant.data.message.usage && !assistant.data.parent_tool_use_id) {
+          this.lastCallUsage = assistant.data.message.usage;
+        }
+        for (const block of assistant.data.message.content) {
+          if (block.type === "tool_use") {
+            this.emitProgress({
+              type: "tool_use",
+              toolUseId: String(block["id"] ?? ""),
+              name: String(block["name"] ?? "unknown"),
+              input: block["input"],
+            });
+          }
+        }
+      }
     }
-    // assistant, user, rate_limit_event, stream_event: debug-level noise
-    else if (type !== "assistant" && type !== "user" && type !== "rate_limit_event") {
+    // user (tool results), rate_limit_event: debug-level noise
+    else if (type !== "user" && type !== "rate_limit_event") {
       this.log.debug({ type }, "unhandled NDJSON message type");
     }
   }
@@ -370,6 +698,77 @@ export class ClaudeSession {
     this.proc.stdin!.write(msg + "\n");
   }
 
+  private get owesOutput(): boolean {
+    return this.pendingResolve !== null || this.timedOutTurns.length > 0 || this.interruptSettle !== null;
+  }
+
+  /**
+   * Check for `max_silence_seconds` without output while Claude owes some.
+   * One timer per session, re-armed for the remaining window until the work
+   * is done or the session goes silent.
+   */
+  private watchSilence(): void {
+    const maxSilenceMs = (this.agentConfig.max_silence_seconds ?? 0) * 1000;
+    if (!maxSilenceMs || this.silenceTimer || this.silentSince !== null || this._state === "dead") return;
+
+    const check = () => {
+      this.silenceTimer = null;
+      if (this._state === "dead" || !this.owesOutput) return;
+      const silentMs = Date.now() - this.lastOutputAt;
+      if (silentMs < maxSilenceMs) {
+        this.silenceTimer = setTimeout(check, maxSilenceMs - silentMs);
+        return;
+      }
+      this.onSilence(silentMs);
+    };
+    this.silenceTimer = setTimeout(check, maxSilenceMs - (Date.now() - this.lastOutputAt));
+  }
+
+  private onSilence(silentMs: number): void {
+    const action = this.agentConfig.silence_action;
+    this.silentSince = this.lastOutputAt;
+    this.log.warn(
+      { pid: this.pid, state: this._state, silentSeconds: Math.round(silentMs / 1000), action, stderr: this.stderrTail },
+      "claude session silent for longer than max_silence_seconds",
+    );
+    if (action === "kill") {
+      const error = new SessionSilentError(
+        `No output from Claude for ${Math.round(silentMs / 1000)}s (max_silence_seconds)`,
+      );
+      this.kill(error);
+      this.onDeath?.(error);
+    }
+  }
+
+  private emitProgress(event: SessionProgressEvent): void {
+    // Output still belongs to a timed-out turn, not the pending caller
+    if (!this.pendingProgress || this.timedOutTurns.length > 0) return;
+    try {
+      this.pendingProgress(event);
+    } catch (err) {
+      this.log.warn(
+        { error: err instanceof Error ? err.message : String(err) },
+        "progress listener threw",
+      );
+    }
+  }
+
+  private deliverLateResult(listener: LateResultListener | null, response: ClaudeResponse): void {
+    this.log.info(
+      { sessionId: response.session_id, cost: response.total_cost_usd },
+      "late result arrived for timed-out turn",
+    );
+    if (!listener) return;
+    try {
+      listener(response);
+    } catch (err) {
+      this.log.warn(
+        { error: err instanceof Error ? err.message : String(err) },
+        "late result listener threw",
+      );
+    }
+  }
+
   private clearTimeout(): void {
     if (this.messageTimeout) {
       clearTimeout(this.messageTimeout);
@@ -379,10 +778,20 @@ export class ClaudeSession {
 
   private rejectPending(error: Error): void {
     this.clearTimeout();
+    if (this.silenceTimer) {
+      clearTimeout(this.silenceTimer);
+      this.silenceTimer = null;
+    }
+    // Timed-out turns die with the process; their results will never arrive
+    this.timedOutTurns.length = 0;
+    this.interruptSettle?.(false);
+    for (const settle of this.controlRequests.values()) settle(error);
     if (this.pendingReject) {
       const savedReject = this.pendingReject;
       this.pendingResolve = null;
       this.pendingReject = null;
+      this.pendingProgress = null;
+      this.pendingLateResult = null;
       savedReject(error);
     }
   }
@@ -403,11 +812,16 @@ export class ClaudeSession {
 
 type StreamResult = z.infer<typeof StreamResultSchema>;
 
-function streamResultToClaudeResponse(result: StreamResult, modelUsed: string): ClaudeResponse {
+function streamResultToClaudeResponse(
+  result: StreamResult,
+  modelUsed: string,
+  context: ContextUsage,
+): ClaudeResponse {
   return {
     result: result.result ?? "",
     session_id: result.session_id,
     is_error: result.is_error,
+    subtype: result.subtype,
     duration_ms: result.duration_ms,
     duration_api_ms: result.duration_api_ms,
     num_turns: result.num_turns,
@@ -419,6 +833,7 @@ function streamResultToClaudeResponse(result: StreamResult, modelUsed: string):
       cache_read_input_tokens: result.usage.cache_read_input_tokens,
     },
     model_used: modelUsed,
+    context,
     permission_denials: result.permission_denials
       .map((d) => (typeof d === "string" ? d : (d as Record<string, unknown>)?.["tool_name"] as string ?? ""))
       .filter(Boolean),
@@ -429,44 +844,190 @@ function streamResultToClaudeResponse(result: StreamResult, modelUsed: string):
 // Build CLI args for stream-json mode
 // ---------------------------------------------------------------------------
 
-function buildArgs(options: ClaudeSessionOptions): string[] {
-  const { agentConfig, config, resumeSessionId } = options;
-  const args = ["-p", "--verbose", "--input-format", "stream-json", "--output-format", "stream-json"];
+/** Everything buildArgs reads; a bare agent and config give the flags of a plain spawn. */
+type ArgsOptions = Pick<ClaudeSessionOptions, "agentName" | "agentConfig" | "config" | "resumeSessionId" | "forkSession" | "model" | "customization">;
+
+function buildArgs(options: ArgsOptions): string[] {
+  const { agentName, agentConfig, config, resumeSessionId, forkSession, customization } = options;
+  const args = [
+    "-p", "--verbose",
+    "--input-format", "stream-json",
+    "--output-format", "stream-json",
+    "--include-partial-messages",
+  ];
 
   if (resumeSessionId) {
     args.push("--resume", resumeSessionId);
+    if (forkSession) {
+      args.push("--fork-session");
+    }
   }
 
-  const model = agentConfig.model ?? config.claude.default_model;
+  const model = options.model ?? agentConfig.model ?? config.claude.default_model;
   if (model) {
     args.push("--model", model);
   }
 
-  if (agentConfig.settings_file) {
-    args.push("--settings", agentConfig.settings_file);
+  if (agentConfig.fallback_model) {
+    args.push("--fallback-model", agentConfig.fallback_model);
+  }
+
+  const settingsFile = agentConfig.permissions ? agentSettingsPath(config.data_dir, agentName) : agentConfig.settings_file;
+  if (settingsFile) {
+    args.push("--settings", settingsFile);
+  }
+
+  const mcpConfig = [...agentConfig.mcp_config];
+  if (Object.keys(agentConfig.mcp_servers).length > 0) {
+    mcpConfig.push(mcpConfigPath(config.data_dir, agentName));
+  }
+  if (mcpConfig.length > 0) {
+    args.push("--mcp-config", ...mcpConfig);
+  }
+
+  if (agentConfig.add_dirs.length > 0) {
+    args.push("--add-dir", ...agentConfig.add_dirs);
   }
 
   const permMode =
-    agentConfig.permission_mode ?? config.claude.default_permission_mode;
+    agentConfig.permissions?.default_mode ?? agentConfig.permission_mode ?? config.claude.default_permission_mode;
   if (permMode) {
     args.push("--permission-mode", permMode);
   }
 
-  if (agentConfig.allowed_tools.length > 0) {
-    args.push("--allowedTools", ...agentConfig.allowed_tools);
+  const allowedTools = customization?.allowed_tools ?? agentAllowedTools(agentConfig);
+  if (allowedTools.length > 0) {
+    args.push("--allowedTools", ...allowedTools);
+  }
+
+  const disallowedTools = [...agentConfig.disallowed_tools, ...(customization?.disallowed_tools ?? [])];
+  if (disallowedTools.length > 0) {
+    args.push("--disallowedTools", ...disallowedTools);
+  }
+
+  const maxTurns = customization?.max_turns ?? agentConfig.max_turns;
+  if (maxTurns) {
+    args.push("--max-turns", maxTurns.toString());
   }
 
   if (agentConfig.max_budget_usd) {
     args.push("--max-budget-usd", agentConfig.max_budget_usd.toString());
   }
 
-  if (agentConfig.append_system_prompt) {
-    args.push("--append-system-prompt", agentConfig.append_system_prompt);
+  if (agentConfig.system_prompt) {
+    args.push("--system-prompt", agentConfig.system_prompt);
+  }
+
+  // The client's instructions come after the agent's, never instead of them
+  const systemPrompt = [agentConfig.append_system_prompt, customization?.system_prompt].filter(Boolean).join("\n\n");
+  if (systemPrompt) {
+    args.push("--append-system-prompt", systemPrompt);
   }
 
   return args;
 }
 
+/** The agent's allowed_tools, plus the tools of its `mcp_servers`. */
+export function agentAllowedTools(agentConfig: AgentConfig): string[] {
+  return [...agentConfig.allowed_tools, ...mcpAllowedTools(agentConfig.mcp_servers)];
+}
+
+/**
+ * Whether the allow rule `rule` permits everything `requested` does, so a
+ * context may be given `requested` instead: the same rule, the tool with a
+ * specifier (`Bash` → `Bash(git:*)`), a longer Bash prefix (`Bash(git:*)` →
+ * `Bash(git log:*)`), or one tool of an MCP server (`mcp__docs` →
+ * `mcp__docs__search`). Commands with shell operators are never covered.
+ */
+export function toolRuleCovers(rule: string, requested: string): boolean {
+  if (rule === requested) return true;
+
+  const scoped = /^([^(]+)\((.+)\)$/.exec(requested);
+  if (!scoped) {
+    return /^mcp__[^_]+(?:_[^_]+)*$/.test(rule) && requested.startsWith(`${rule}__`);
+  }
+  const [, tool = "", specifier = ""] = scoped;
+  if (rule === tool) return true;
+
+  const prefix = /^Bash\((.+):\*\)$/.exec(rule)?.[1];
+  if (tool !== "Bash" || prefix === undefined || /[;&|`$<>()\n]/.test(specifier)) return false;
+  const command = specifier.replace(/:\*$/, "");
+  return command === prefix || command.startsWith(`${prefix} `);
+}
+
+/**
+ * The CLI flags a plain spawn of this agent passes, for checking them
+ * against the installed CLI at startup.
+ */
+export function agentCliFlags(agentName: string, agentConfig: AgentConfig, config: Config): string[] {
+  const args = buildArgs({ agentName, agentConfig, config });
+  return [...new Set(args.filter((arg) => /^--[a-z][\w-]*$/i.test(arg)))];
+}
+
+/**
+ * Wrap the CLI command so the agent's `limits` apply from the start:
+ * `prlimit` sets the rlimits and `nice` the priority. Both exec the next
+ * command, so the spawned PID is still Claude's, and tools inherit both.
+ */
+export function limitedCommand(binary: string, args: string[], limits: ResourceLimits): [string, string[]] {
+  const command = [binary, ...args];
+
+  if (limits.nice !== null) {
+    command.unshift("nice", "-n", String(limits.nice));
+  }
+
+  const rlimits: string[] = [];
+  if (limits.address_space_mb !== null) rlimits.push(`--as=${limits.address_space_mb * 1024 * 1024}`);
+  if (limits.cpu_seconds !== null) rlimits.push(`--cpu=${limits.cpu_seconds}`);
+  if (limits.open_files !== null) rlimits.push(`--nofile=${limits.open_files}`);
+  if (limits.processes !== null) rlimits.push(`--nproc=${limits.processes}`);
+  if (rlimits.length > 0) {
+    command.unshift("prlimit", ...rlimits, "--");
+  }
+
+  return [command[0]!, command.slice(1)];
+}
+
+/** Inherited in `allowlist` mode whatever the agent allows: what shells and the CLI need to run. */
+const BASE_ENV = ["PATH", "HOME", "USER", "LOGNAME", "SHELL", "LANG", "LC_*", "TZ", "TMPDIR", "TERM", "CLAUDE_CONFIG_DIR"];
+
+/**
+ * Environment for an agent's CLI, inherited by every tool it runs. Whatever
+ * the agent's `env` says, the server's own `CLAUDE_A2A_*` variables and any
+ * variable holding one of its secrets are left out.
+ */
+export function agentEnv(env: AgentEnv, config: Config, serverEnv: NodeJS.ProcessEnv = process.env): NodeJS.ProcessEnv {
+  const allowed = env.mode === "allowlist" ? [...BASE_ENV, ...env.allow] : null;
+  const result: NodeJS.ProcessEnv = {};
+  for (const [name, value] of Object.entries(serverEnv)) {
+    if (value === undefined) continue;
+    if (allowed && !allowed.some((pattern) => matchesEnvName(pattern, name))) continue;
+    result[name] = value;
+  }
+  for (const [name, value] of Object.entries(env.set)) {
+    const referenced = /^\$\{(\w+)\}$/.exec(value)?.[1];
+    if (referenced !== undefined && isServerVariable(referenced)) continue;
+    const resolved = referenced !== undefined ? serverEnv[referenced] : value;
+    if (resolved !== undefined) result[name] = resolved;
+  }
+  delete result["CLAUDECODE"];
+
+  const secrets = [config.auth.master_key, config.auth.jwt.secret, config.push_notifications.signing_secret]
+    .filter((secret): secret is string => !!secret);
+  for (const [name, value] of Object.entries(result)) {
+    if (isServerVariable(name) || secrets.includes(value!)) delete result[name];
+  }
+  return result;
+}
+
+function isServerVariable(name: string): boolean {
+  return name.startsWith("CLAUDE_A2A_");
+}
+
+function matchesEnvName(pattern: string, name: string): boolean {
+  return pattern.endsWith("*") ? name.startsWith(pattern.slice(0, -1)) : name === pattern;
+}
+
 // ---------------------------------------------------------------------------
 // Error classes
 // ---------------------------------------------------------------------------
@@ -478,6 +1039,32 @@ export class ClaudeSessionError extends Error {
   }
 }
 
+/** The turn was stopped by interrupt(). Carries the result Claude sent for the aborted turn. */
+export class TurnInterruptedError extends Error {
+  readonly response: ClaudeResponse;
+  constructor(message: string, response: ClaudeResponse) {
+    super(message);
+    this.name = "TurnInterruptedError";
+    this.response = response;
+  }
+}
+
+/** The session was killed for exceeding one of its agent's `limits`. */
+export class ResourceLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ResourceLimitError";
+  }
+}
+
+/** The session produced no output for `max_silence_seconds` and was killed. */
+export class SessionSilentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SessionSilentError";
+  }
+}
+
 export class SessionBusyError extends Error {
   constructor(message: string) {
     super(message);
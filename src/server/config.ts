@@ -1,12 +1,112 @@
 import { readFileSync, existsSync } from "node:fs";
-import { resolve } from "node:path";
+import { isAbsolute, resolve } from "node:path";
 import { parse as parseYaml } from "yaml";
 import { z } from "zod";
 
+const ResourceLimitsSchema = z
+  .object({
+    /** RLIMIT_AS per process, in MB. Node reserves a lot of address space; keep this generous. */
+    address_space_mb: z.number().int().positive().nullable().default(null),
+    /** RLIMIT_CPU per process, in CPU seconds. Applies to the long-lived CLI process too. */
+    cpu_seconds: z.number().int().positive().nullable().default(null),
+    /** RLIMIT_NOFILE per process. */
+    open_files: z.number().int().positive().nullable().default(null),
+    /** RLIMIT_NPROC: counted per user, not per session. */
+    processes: z.number().int().positive().nullable().default(null),
+    /** Niceness increment for the CLI and everything it starts. */
+    nice: z.number().int().min(-20).max(19).nullable().default(null),
+    /** Watchdog: kill the session when its process group's RSS exceeds this, in MB. */
+    max_rss_mb: z.number().positive().nullable().default(null),
+    /** Watchdog: kill the session when its process group averages more CPU than this over a minute (100 = one core). */
+    max_cpu_percent: z.number().positive().nullable().default(null),
+  })
+  .default({});
+
+/** Tools of an MCP server the agent may use; omitted, all of them are allowed. */
+const McpToolsSchema = z.array(z.string().min(1)).optional();
+
+/** An MCP server the CLI starts as a subprocess. It inherits the agent's environment. */
+const McpStdioServerSchema = z
+  .object({
+    type: z.literal("stdio").optional(),
+    command: z.string().min(1),
+    args: z.array(z.string()).default([]),
+    env: z.record(z.string(), z.string()).default({}),
+    tools: McpToolsSchema,
+  })
+  .strict();
+
+/** A remote MCP server. */
+const McpHttpServerSchema = z
+  .object({
+    type: z.enum(["http", "sse"]).default("http"),
+    url: z.string().url(),
+    headers: z.record(z.string(), z.string()).default({}),
+    tools: McpToolsSchema,
+  })
+  .strict();
+
+const McpServerSchema = z.union([McpStdioServerSchema, McpHttpServerSchema]);
+
+/** One entry of a Claude settings `hooks` event: commands run for tools matching `matcher`. */
+const HookMatcherSchema = z
+  .object({
+    matcher: z.string().optional(),
+    hooks: z.array(
+      z
+        .object({
+          type: z.literal("command"),
+          command: z.string().min(1),
+          /** Seconds before the CLI gives up on the hook. */
+          timeout: z.number().positive().optional(),
+        })
+        .strict(),
+    ).min(1),
+  })
+  .strict();
+
+/**
+ * Claude permission rules and hooks kept in the agent config. The server
+ * writes them to a settings file of its own at startup (instead of settings_file).
+ */
+const AgentPermissionsSchema = z
+  .object({
+    allow: z.array(z.string().min(1)).default([]),
+    deny: z.array(z.string().min(1)).default([]),
+    ask: z.array(z.string().min(1)).default([]),
+    /** Written as `defaultMode` and passed as `--permission-mode`, in place of permission_mode. */
+    default_mode: z.string().min(1).nullable().default(null),
+    /** By event name, e.g. `PreToolUse`, as in a settings file. */
+    hooks: z.record(z.string().min(1), z.array(HookMatcherSchema)).default({}),
+  })
+  .strict();
+
+const AgentEnvSchema = z
+  .object({
+    /** `inherit` passes the server's environment on; `allowlist` passes only the basics and `allow`. */
+    mode: z.enum(["inherit", "allowlist"]).default("inherit"),
+    /** Variables inherited in `allowlist` mode. A trailing `*` matches a prefix, e.g. `AWS_*`. */
+    allow: z.array(z.string().min(1)).default([]),
+    /** Variables set for this agent, e.g. its own ANTHROPIC_API_KEY. `${NAME}` takes the server's value of NAME. */
+    set: z
+      .record(
+        z.string().min(1).refine((name) => !name.startsWith("CLAUDE_A2A_"), "CLAUDE_A2A_* variables are the server's own"),
+        z.string(),
+      )
+      .default({}),
+  })
+  .default({});
+
 const AgentConfigSchema = z.object({
   description: z.string().default("General-purpose Claude assistant"),
   enabled: z.boolean().default(true),
   model: z.string().nullable().default(null),
+  /** Models a client may pick per message with `metadata.model`, besides `model`. */
+  selectable_models: z.array(z.string().min(1)).default([]),
+  /** `--fallback-model`: used when the model is overloaded. */
+  fallback_model: z.string().min(1).nullable().default(null),
+  /** `--system-prompt`: replaces Claude's default system prompt. append_system_prompt still goes after it. */
+  system_prompt: z.string().min(1).nullable().default(null),
   append_system_prompt: z
     .string()
     .nullable()
@@ -14,13 +114,78 @@ const AgentConfigSchema = z.object({
       "You are responding via the claude-a2a A2A API. Be concise.",
     ),
   settings_file: z.string().nullable().default(null),
+  /** Inline alternative to settings_file: permission rules and hooks. */
+  permissions: AgentPermissionsSchema.nullable().default(null),
+  /** `--mcp-config`: MCP config files (or JSON strings) loaded besides the settings file's. */
+  mcp_config: z.array(z.string().min(1)).default([]),
+  /** MCP servers by name, written to a generated `--mcp-config` file; their tools are added to allowed_tools. */
+  mcp_servers: z
+    .record(z.string().regex(/^[\w-]+$/, "MCP server names may only contain letters, digits, _ and -"), McpServerSchema)
+    .default({}),
   permission_mode: z.string().default("default"),
   allowed_tools: z.array(z.string()).default([]),
+  /** `--disallowedTools`: deny rules win over allowed_tools and the settings file. */
+  disallowed_tools: z.array(z.string().min(1)).default([]),
   max_budget_usd: z.number().positive().default(1.0),
+  /** `--max-turns`: API round trips per message; null leaves it to the CLI. */
+  max_turns: z.number().int().positive().nullable().default(null),
   required_scopes: z.array(z.string()).default([]),
   work_dir: z.string().nullable().default(null),
+  /** `--add-dir`: directories outside work_dir that tools may use. Absolute, and must exist at startup. */
+  add_dirs: z.array(z.string().min(1).refine((dir) => isAbsolute(dir), "add_dirs must be absolute paths")).default([]),
+  /** `isolated` gives each context its own worktree or copy of work_dir and returns per-turn diffs. */
+  workspace: z.enum(["shared", "isolated"]).default("shared"),
+  /** OS limits applied at spawn, and watchdog limits checked while the process runs. */
+  limits: ResourceLimitsSchema,
+  /** Environment of the CLI and its tools. The server's secrets are never passed on. */
+  env: AgentEnvSchema,
+  /** Seconds a working session may go without an NDJSON line before it counts as silent; null disables. */
+  max_silence_seconds: z.number().positive().nullable().default(null),
+  /** `flag` marks a silent session for the admin API; `kill` also kills it and fails its turn. */
+  silence_action: z.enum(["flag", "kill"]).default("flag"),
+  /** Processes kept spawned and unbound, ready for this agent's next new context. */
+  warm_pool: z.number().int().min(0).default(0),
+  /** Follow-ups allowed to wait per context while a turn runs; 0 rejects them as busy. */
+  max_queued_messages: z.number().int().min(0).default(0),
+  /** Context window in tokens; null looks the model up in the built-in table. */
+  context_window_tokens: z.number().int().positive().nullable().default(null),
+  auto_compact: z
+    .object({
+      /** Send `/compact` before the next turn once the threshold is reached. */
+      enabled: z.boolean().default(false),
+      /** Fraction of the context window that sets `compact_recommended`. */
+      threshold: z.number().gt(0).max(1).default(0.8),
+    })
+    .default({}),
+}).refine((agent) => !agent.fallback_model || agent.fallback_model !== agent.model, {
+  message: "fallback_model must differ from model",
+  path: ["fallback_model"],
+}).refine((agent) => !agent.permissions || !agent.settings_file, {
+  message: "set either settings_file or permissions, not both",
+  path: ["permissions"],
+}).refine((agent) => !agent.permissions?.default_mode || agent.permission_mode === "default", {
+  message: "set either permission_mode or permissions.default_mode, not both",
+  path: ["permissions", "default_mode"],
 });
 
+/**
+ * Settings a client with the `agent:<name>:customize` scope may give a
+ * context in its first message (`metadata.customize`). They can only narrow
+ * what the agent allows.
+ */
+export const SessionCustomizationSchema = z
+  .object({
+    /** Appended after the agent's append_system_prompt. */
+    system_prompt: z.string().min(1).max(20_000).optional(),
+    /** `--max-turns`: API round trips per message; at most the agent's max_turns. */
+    max_turns: z.number().int().positive().optional(),
+    /** Replaces the agent's allowed_tools; each entry must be one of them or narrower (toolRuleCovers). */
+    allowed_tools: z.array(z.string().min(1)).optional(),
+    /** Added to the agent's disallowed_tools. */
+    disallowed_tools: z.array(z.string().min(1)).optional(),
+  })
+  .strict();
+
 const ConfigSchema = z.object({
   server: z
     .object({
@@ -28,6 +193,7 @@ const ConfigSchema = z.object({
       port: z.number().int().min(1).max(65535).default(8462),
       max_concurrent: z.number().int().positive().default(4),
       request_timeout: z.number().positive().default(300),
+      background_timeout: z.number().positive().default(14400),
       max_body_size: z.string().default("10mb"),
     })
     .default({}),
@@ -67,6 +233,31 @@ const ConfigSchema = z.object({
       default_client_daily_limit_usd: z.number().positive().default(25.0),
     })
     .default({}),
+  push_notifications: z
+    .object({
+      /** Off by default: clients choose where the server POSTs task contents. */
+      enabled: z.boolean().default(false),
+      /** HMAC key for `X-A2A-Signature`; required when enabled. */
+      signing_secret: z.string().min(1).nullable().default(null),
+      /** Only these webhook hosts (`*.example.com` for subdomains), which may then be private; empty allows any public host. */
+      allowed_hosts: z.array(z.string().min(1)).default([]),
+      max_attempts: z.number().int().positive().default(5),
+      initial_backoff_seconds: z.number().positive().default(1),
+      max_backoff_seconds: z.number().positive().default(60),
+      timeout_seconds: z.number().positive().default(10),
+    })
+    .refine((push) => !push.enabled || push.signing_secret, {
+      message: "signing_secret (or CLAUDE_A2A_PUSH_SIGNING_SECRET) is required when push notifications are enabled",
+      path: ["signing_secret"],
+    })
+    .default({}),
+  admission_queue: z
+    .object({
+      enabled: z.boolean().default(true),
+      max_queued: z.number().int().positive().default(100),
+      max_wait_seconds: z.number().positive().default(600),
+    })
+    .default({}),
   data_dir: z.string().default("/var/lib/claude-a2a"),
   claude: z
     .object({
@@ -74,6 +265,8 @@ const ConfigSchema = z.object({
       default_model: z.string().nullable().default(null),
       default_permission_mode: z.string().default("default"),
       max_stdout_buffer_mb: z.number().positive().default(10),
+      /** How long `tasks/cancel` waits for an interrupted turn to stop before killing the process. */
+      interrupt_grace_seconds: z.number().positive().default(10),
       work_dir: z.string().nullable().default(null),
     })
     .default({}),
@@ -84,6 +277,11 @@ const ConfigSchema = z.object({
 
 export type Config = z.infer<typeof ConfigSchema>;
 export type AgentConfig = z.infer<typeof AgentConfigSchema>;
+export type McpServerConfig = z.infer<typeof McpServerSchema>;
+export type ResourceLimits = z.infer<typeof ResourceLimitsSchema>;
+export type AgentEnv = z.infer<typeof AgentEnvSchema>;
+export type AgentPermissions = z.infer<typeof AgentPermissionsSchema>;
+export type SessionCustomization = z.infer<typeof SessionCustomizationSchema>;
 
 export function applyEnvOverrides(raw: Record<string, unknown>): void {
   if (process.env["CLAUDE_A2A_MASTER_KEY"]) {
@@ -108,6 +306,12 @@ export function applyEnvOverrides(raw: Record<string, unknown>): void {
       port: parseInt(process.env["CLAUDE_A2A_PORT"], 10),
     };
   }
+  if (process.env["CLAUDE_A2A_PUSH_SIGNING_SECRET"]) {
+    raw["push_notifications"] = {
+      ...(raw["push_notifications"] as Record<string, unknown> | undefined),
+      signing_secret: process.env["CLAUDE_A2A_PUSH_SIGNING_SECRET"],
+    };
+  }
   if (process.env["CLAUDE_A2A_DATA_DIR"]) {
     raw["data_dir"] = process.env["CLAUDE_A2A_DATA_DIR"];
   }
@@ -0,0 +1,63 @@
+import type { AgentConfig } from "./config.js";
+import type { ClaudeResponse } from "./claude-runner.js";
+
+export type ContextUsage = NonNullable<ClaudeResponse["context"]>;
+
+/** Token counts of one API call, as reported in stream `usage` objects. */
+export interface TokenUsage {
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens: number;
+  cache_read_input_tokens: number;
+}
+
+const DEFAULT_CONTEXT_WINDOW = 200_000;
+const EXTENDED_CONTEXT_WINDOW = 1_000_000;
+
+/** Context window by model ID prefix. The first match wins. */
+const CONTEXT_WINDOWS: [prefix: string, tokens: number][] = [
+  ["claude-opus-4", 200_000],
+  ["claude-sonnet-4", 200_000],
+  ["claude-haiku-4", 200_000],
+  ["claude-3-7-sonnet", 200_000],
+  ["claude-3-5-sonnet", 200_000],
+  ["claude-3-5-haiku", 200_000],
+  ["claude-3-opus", 200_000],
+  ["claude-3-haiku", 200_000],
+];
+
+/**
+ * Context window for a model ID. IDs with the `[1m]` suffix (extended
+ * context) get 1M tokens; unknown models get 200k.
+ */
+export function contextWindowFor(model: string): number {
+  if (model.endsWith("[1m]")) return EXTENDED_CONTEXT_WINDOW;
+  for (const [prefix, tokens] of CONTEXT_WINDOWS) {
+    if (model.startsWith(prefix)) return tokens;
+  }
+  return DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * How full the context is after an API call. Everything the call read
+ * (fresh, cached and cache-written input) plus what it wrote is part of
+ * the prompt for the next call.
+ */
+export function computeContextUsage(
+  usage: TokenUsage,
+  model: string,
+  agentConfig: AgentConfig,
+): ContextUsage {
+  const maxTokens = agentConfig.context_window_tokens ?? contextWindowFor(model);
+  const usedTokens =
+    usage.input_tokens +
+    usage.cache_creation_input_tokens +
+    usage.cache_read_input_tokens +
+    usage.output_tokens;
+  return {
+    used_tokens: usedTokens,
+    max_tokens: maxTokens,
+    remaining_tokens: Math.max(0, maxTokens - usedTokens),
+    compact_recommended: usedTokens >= maxTokens * agentConfig.auto_compact.threshold,
+  };
+}
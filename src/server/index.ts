@@ -1,8 +1,5 @@
 import express from "express";
 import { AGENT_CARD_PATH } from "@a2a-js/sdk";
-import {
-  DefaultRequestHandler,
-} from "@a2a-js/sdk/server";
 import {
   agentCardHandler,
   jsonRpcHandler,
@@ -15,7 +12,11 @@ import pino from "pino";
 import type { Config } from "./config.js";
 import { buildAgentCard } from "./agent-card.js";
 import { ClaudeRunner } from "./claude-runner.js";
+import { agentCliFlags } from "./claude-session.js";
+import { writeAgentSettings } from "./agent-settings.js";
+import { writeMcpConfigs } from "./mcp-servers.js";
 import { ClaudeAgentExecutor } from "./agent-executor.js";
+import { ClaudeRequestHandler } from "./request-handler.js";
 import { createAuthMiddleware } from "./auth/middleware.js";
 import { initRevocationStore } from "./auth/tokens.js";
 import { AuthenticatedUser } from "./auth/user.js";
@@ -24,10 +25,17 @@ import { AppDatabase } from "./services/database.js";
 import { BudgetTracker } from "./services/budget-tracker.js";
 import { SessionStore } from "./services/session-store.js";
 import { SqliteTaskStore } from "./services/task-store.js";
+import { SqlitePushNotificationStore } from "./services/push-notification-store.js";
+import { WebhookPushSender } from "./services/push-notification-sender.js";
+import { OrphanMonitor } from "./services/orphan-monitor.js";
+import { AdmissionQueue } from "./services/admission-queue.js";
+import { WorkspaceManager } from "./services/workspace-manager.js";
+import { ResourceWatchdog } from "./services/resource-watchdog.js";
+import { ProcessTracker } from "./services/process-tracker.js";
 import { healthRouter } from "./routes/health.js";
 import { adminRouter } from "./routes/admin.js";
 import type { Request } from "express";
-import { User, UnauthenticatedUser } from "@a2a-js/sdk/server";
+import { DefaultExecutionEventBusManager, User, UnauthenticatedUser } from "@a2a-js/sdk/server";
 
 export async function startServer(config: Config): Promise<void> {
   const log = pino({
@@ -62,9 +70,32 @@ export async function startServer(config: Config): Promise<void> {
     process.exit(1);
   }
 
+  // Fail now rather than on every spawn when the agents use options this CLI predates
+  const flagAgents = new Map<string, string[]>();
+  for (const [name, agentConfig] of Object.entries(config.agents)) {
+    if (!agentConfig.enabled) continue;
+    for (const flag of agentCliFlags(name, agentConfig, config)) {
+      flagAgents.set(flag, [...(flagAgents.get(flag) ?? []), name]);
+    }
+  }
+  const unsupported = unsupportedClaudeFlags(config.claude.binary, flagAgents.keys());
+  if (unsupported === null) {
+    log.warn({ binary: config.claude.binary }, "could not read claude --help — agent CLI options not checked");
+  } else if (unsupported.length > 0) {
+    log.fatal(
+      { binary: config.claude.binary, version: binaryCheck.version, unsupported: Object.fromEntries(unsupported.map((f) => [f, flagAgents.get(f)])) },
+      "claude CLI does not support options the agent config uses — upgrade the CLI or remove the options",
+    );
+    process.exit(1);
+  }
+
   // Ensure data directory and work directories exist
   validateDirectories(config, log);
 
+  // Settings and MCP config files for agents that keep them in the config
+  writeAgentSettings(config, log);
+  writeMcpConfigs(config, log);
+
   // Open database
   const appDb = new AppDatabase(`${config.data_dir}/claude-a2a.db`, log);
 
@@ -75,15 +106,62 @@ export async function startServer(config: Config): Promise<void> {
   initRevocationStore(appDb, log);
 
   const runner = new ClaudeRunner(config, log);
+  const workspaces = new WorkspaceManager(config, log);
   const sessionStore = new SessionStore(config, log, appDb, {
     onSessionEvicted: (contextId) => runner.destroySession(contextId),
+    // Isolated workspaces live exactly as long as their session
+    onSessionRemoved: (contextId) => void workspaces.remove(contextId).catch((err: unknown) => {
+      log.warn({ contextId, error: err instanceof Error ? err.message : String(err) }, "failed to remove workspace");
+    }),
   });
   const budgetTracker = new BudgetTracker(config, log, appDb);
   const rateLimiter = new RateLimiter(config);
 
+  // New contexts wait here while all process slots are busy
+  const admissionQueue = new AdmissionQueue(config, log, runner);
+  runner.onCapacityFreed = () => admissionQueue.pump();
+
+  // Kills sessions over their agent's limits.max_rss_mb / max_cpu_percent
+  const watchdog = new ResourceWatchdog(log, runner);
+  const processTracker = new ProcessTracker(log, runner);
+
+  runner.start();
+  watchdog.start();
   sessionStore.start();
   rateLimiter.start();
 
+  const taskStore = new SqliteTaskStore(appDb);
+
+  // Push notifications: webhooks signed with the server's secret, to public hosts or allowed_hosts
+  let pushStore: SqlitePushNotificationStore | undefined;
+  let pushSender: WebhookPushSender | undefined;
+  if (config.push_notifications.enabled) {
+    pushStore = new SqlitePushNotificationStore(appDb, {
+      allowedHosts: config.push_notifications.allowed_hosts,
+    });
+    pushSender = new WebhookPushSender(config, log, appDb, pushStore);
+  }
+
+  // Reattach tasks whose Claude process survived the last restart. The bus
+  // manager is shared so the request handler can resubscribe/cancel them.
+  const eventBusManager = new DefaultExecutionEventBusManager();
+  const orphanMonitor = new OrphanMonitor(log, taskStore, sessionStore, eventBusManager, {
+    pushSender,
+    budgetTracker,
+  });
+  const orphanCount = await orphanMonitor.recover();
+  if (orphanCount > 0) {
+    log.info({ count: orphanCount }, "watching orphaned tasks from previous run");
+  }
+
+  // Workspaces left behind by a crash. A context's first turn has no
+  // session yet, so contexts with live tasks keep theirs too.
+  const liveContexts = new Set([
+    ...sessionStore.listAll().map((s) => s.contextId),
+    ...taskStore.listUnfinished().map((t) => t.contextId),
+  ]);
+  await workspaces.sweep((contextId) => liveContexts.has(contextId));
+
   // Build A2A agent card and executor
   const agentCard = buildAgentCard(config);
   const executor = new ClaudeAgentExecutor(
@@ -92,13 +170,16 @@ export async function startServer(config: Config): Promise<void> {
     sessionStore,
     budgetTracker,
     log,
+    { orphanMonitor, taskStore, admissionQueue, workspaces },
   );
 
-  const taskStore = new SqliteTaskStore(appDb);
-  const requestHandler = new DefaultRequestHandler(
+  const requestHandler = new ClaudeRequestHandler(
     agentCard,
     taskStore,
     executor,
+    eventBusManager,
+    pushStore,
+    pushSender,
   );
 
   // Build a UserBuilder that passes through auth context
@@ -149,7 +230,12 @@ export async function startServer(config: Config): Promise<void> {
   }));
 
   // Admin routes (auth required)
-  app.use("/admin", authMiddleware, adminRouter(config, sessionStore, budgetTracker));
+  app.use("/admin", authMiddleware, adminRouter(config, sessionStore, budgetTracker, {
+    pushSender,
+    admissionQueue,
+    processTracker,
+    runner,
+  }));
 
   // If no auth is configured, force bind to localhost only
   let { host, port } = config.server;
@@ -181,10 +267,15 @@ export async function startServer(config: Config): Promise<void> {
   // Graceful shutdown — release processes (they continue running independently)
   const shutdown = async () => {
     log.info("shutting down");
+    runner.stop();                             // stop idle reaper
+    watchdog.stop();                           // stop sampling /proc
     await runner.releaseAll(taskStore);        // update in-flight tasks + release processes
+    admissionQueue.stop();                     // drop queued requests (failed on restart)
     sessionStore.markAllProcessesDead();       // persist processAlive=false to SQLite
     sessionStore.stop();                       // stop cleanup timer
     rateLimiter.stop();                        // stop rate limiter timer
+    pushSender?.stop();                        // abandon pending webhook retries
+    orphanMonitor.stop();                      // stop polling orphaned PIDs
     appDb.close();                             // close database (after all writes done)
     server.close(() => {
       log.info("server closed");
@@ -248,7 +339,7 @@ export function requestTimeoutMiddleware(timeoutSeconds: number) {
 /**
  * Validate and prepare directories at startup.
  * - data_dir and default work_dir are auto-created (they're ours to manage).
- * - Per-agent work_dir overrides must already exist (they point to external projects).
+ * - Per-agent work_dir overrides and add_dirs must already exist (they point to external projects).
  */
 export function validateDirectories(config: Config, log: pino.Logger): void {
   // Ensure data_dir exists
@@ -261,16 +352,21 @@ export function validateDirectories(config: Config, log: pino.Logger): void {
     log.info({ workDir: defaultWorkDir }, "work directory ready");
   }
 
-  // Validate per-agent work_dir overrides exist
+  // Validate per-agent work_dir overrides and extra directories exist
   for (const [name, agentConfig] of Object.entries(config.agents)) {
-    if (!agentConfig.enabled || !agentConfig.work_dir) continue;
-    if (!existsSync(agentConfig.work_dir)) {
+    if (!agentConfig.enabled) continue;
+    if (agentConfig.work_dir && !existsSync(agentConfig.work_dir)) {
       log.fatal(
         { agent: name, workDir: agentConfig.work_dir },
         "agent work_dir does not exist — create the directory or fix the config",
       );
       process.exit(1);
     }
+    const missing = agentConfig.add_dirs.filter((dir) => !existsSync(dir));
+    if (missing.length > 0) {
+      log.fatal({ agent: name, addDirs: missing }, "agent add_dirs do not exist — create them or fix the config");
+      process.exit(1);
+    }
   }
 }
 
@@ -287,6 +383,24 @@ export function checkClaudeBinary(binary: string): { ok: true; version: string }
   }
 }
 
+/** Flags the CLI takes without listing them in `--help`. */
+const UNLISTED_CLAUDE_FLAGS = new Set(["--max-turns"]);
+
+/**
+ * The flags among `flags` that the binary's `--help` doesn't list, or null
+ * if it couldn't be run. Exported for testing.
+ */
+export function unsupportedClaudeFlags(binary: string, flags: Iterable<string>): string[] | null {
+  let help: string;
+  try {
+    help = execFileSync(binary, ["--help"], { timeout: 5000, encoding: "utf-8" });
+  } catch {
+    return null;
+  }
+  const listed = new Set(help.match(/--[a-z][\w-]*/gi));
+  return [...flags].filter((flag) => !listed.has(flag) && !UNLISTED_CLAUDE_FLAGS.has(flag));
+}
+
 /**
  * One-time migration of legacy JSON persistence files into SQLite.
  * Old files are renamed to `.migrated` (not deleted) as a safety measure.
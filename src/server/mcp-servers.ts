@@ -0,0 +1,49 @@
+import { resolve } from "node:path";
+import type { Logger } from "pino";
+import { writePrivateJson } from "./agent-settings.js";
+import type { Config, McpServerConfig } from "./config.js";
+
+/**
+ * Where an agent's generated `--mcp-config` file lives. Absolute, because the
+ * CLI resolves relative paths against its own working directory.
+ */
+export function mcpConfigPath(dataDir: string, agentName: string): string {
+  return resolve(dataDir, "agents", agentName, "mcp.json");
+}
+
+/** The agent's `mcp_servers` in the CLI's `--mcp-config` format. */
+export function mcpConfigJson(servers: Record<string, McpServerConfig>): { mcpServers: Record<string, unknown> } {
+  const mcpServers: Record<string, unknown> = {};
+  for (const [name, server] of Object.entries(servers)) {
+    if ("command" in server) {
+      mcpServers[name] = { type: "stdio", command: server.command, args: server.args, env: server.env };
+    } else {
+      mcpServers[name] = { type: server.type, url: server.url, headers: server.headers };
+    }
+  }
+  return { mcpServers };
+}
+
+/**
+ * Write the MCP config files of enabled agents with `mcp_servers`. Run at
+ * startup, like writeAgentSettings. The files may hold tokens from `env` or
+ * `headers`, so only the server's user can read them.
+ */
+export function writeMcpConfigs(config: Config, log: Logger): void {
+  for (const [name, agentConfig] of Object.entries(config.agents)) {
+    if (!agentConfig.enabled || Object.keys(agentConfig.mcp_servers).length === 0) continue;
+    const path = mcpConfigPath(config.data_dir, name);
+    writePrivateJson(path, mcpConfigJson(agentConfig.mcp_servers));
+    log.info({ agent: name, path }, "agent MCP config written");
+  }
+}
+
+/**
+ * allowed_tools entries for the agent's MCP servers: `mcp__<server>` for
+ * all of a server's tools, or `mcp__<server>__<tool>` for those listed.
+ */
+export function mcpAllowedTools(servers: Record<string, McpServerConfig>): string[] {
+  return Object.entries(servers).flatMap(([name, server]) =>
+    server.tools ? server.tools.map((tool) => `mcp__${name}__${tool}`) : [`mcp__${name}`],
+  );
+}
@@ -0,0 +1,41 @@
+import type { TokenUsage } from "./context-window.js";
+
+/** USD per million tokens. */
+interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/** List prices by model ID prefix. The first match wins. */
+const MODEL_PRICES: [prefix: string, price: ModelPrice][] = [
+  ["claude-opus-4-5", { input: 5, output: 25 }],
+  ["claude-opus-4-6", { input: 5, output: 25 }],
+  ["claude-opus-4", { input: 15, output: 75 }],
+  ["claude-sonnet-4", { input: 3, output: 15 }],
+  ["claude-haiku-4", { input: 1, output: 5 }],
+  ["claude-3-7-sonnet", { input: 3, output: 15 }],
+  ["claude-3-5-sonnet", { input: 3, output: 15 }],
+  ["claude-3-5-haiku", { input: 0.8, output: 4 }],
+  ["claude-3-opus", { input: 15, output: 75 }],
+  ["claude-3-haiku", { input: 0.25, output: 1.25 }],
+];
+
+/** Unknown models are priced like the most expensive one, so budgets err on the safe side. */
+const FALLBACK_PRICE: ModelPrice = { input: 15, output: 75 };
+
+/** Cache writes (5-minute TTL) and reads, relative to the input price. */
+const CACHE_WRITE_FACTOR = 1.25;
+const CACHE_READ_FACTOR = 0.1;
+
+/**
+ * Cost of an API call from its token counts, at list prices. Only used when
+ * the CLI did not report a cost itself (transcripts of orphaned processes).
+ */
+export function estimateCostUsd(usage: TokenUsage, model: string): number {
+  const price = MODEL_PRICES.find(([prefix]) => model.startsWith(prefix))?.[1] ?? FALLBACK_PRICE;
+  const inputTokens =
+    usage.input_tokens +
+    usage.cache_creation_input_tokens * CACHE_WRITE_FACTOR +
+    usage.cache_read_input_tokens * CACHE_READ_FACTOR;
+  return (inputTokens * price.input + usage.output_tokens * price.output) / 1_000_000;
+}
@@ -0,0 +1,150 @@
+import { readFileSync } from "node:fs";
+import { readdir, readFile } from "node:fs/promises";
+import { join } from "node:path";
+
+/** USER_HZ: the unit of the times in /proc/<pid>/stat on every mainstream Linux architecture. */
+const CLOCK_TICKS_PER_SECOND = 100;
+
+/** What /proc/<pid>/stat says about a process. */
+export interface ProcessStat {
+  pid: number;
+  ppid: number;
+  pgid: number;
+  /** User + system time, including that of reaped children. */
+  cpuSeconds: number;
+  /** Start time in ms since the epoch. */
+  startedAt: number;
+}
+
+/**
+ * A process group by its leader's PID and start time. PIDs are reused, so
+ * the start time tells the group apart from a later one with the same ID.
+ */
+export interface ProcessGroup {
+  pgid: number;
+  /** Start time of the leader in ms since the epoch; null if unknown (no procfs). */
+  leaderStartedAt: number | null;
+}
+
+/** A process with its command line and memory use. */
+export interface ProcessInfo extends ProcessStat {
+  command: string;
+  rssBytes: number;
+}
+
+/**
+ * Every live process on the host. Processes that exit while being read are
+ * skipped; without procfs (not Linux) the list is empty.
+ */
+export async function listProcesses(procDir = "/proc"): Promise<ProcessStat[]> {
+  let entries: string[];
+  try {
+    entries = await readdir(procDir);
+  } catch {
+    return [];
+  }
+  const bootTime = await readBootTime(procDir);
+  const processes: ProcessStat[] = [];
+  for (const entry of entries) {
+    if (!/^\d+$/.test(entry)) continue;
+    try {
+      const stat = parseStat(Number(entry), await readFile(join(procDir, entry, "stat"), "utf-8"), bootTime);
+      if (stat) processes.push(stat);
+    } catch {
+      // The process exited between readdir and read
+    }
+  }
+  return processes;
+}
+
+/**
+ * One process, read synchronously so a caller can act on it in the same
+ * tick. Null if it is gone (or a zombie) or there is no procfs.
+ */
+export function readProcessStat(pid: number, procDir = "/proc"): ProcessStat | null {
+  try {
+    const bootTime = parseBootTime(readFileSync(join(procDir, "stat"), "utf-8"));
+    return parseStat(pid, readFileSync(join(procDir, String(pid), "stat"), "utf-8"), bootTime);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Start time of a process, read synchronously so a caller can record it in
+ * the same tick it spawned the process. Null if it is gone or there is no procfs.
+ */
+export function processStartedAt(pid: number, procDir = "/proc"): number | null {
+  return readProcessStat(pid, procDir)?.startedAt ?? null;
+}
+
+/** Add the command line and RSS. Null if the process has exited. */
+export async function describeProcess(stat: ProcessStat, procDir = "/proc"): Promise<ProcessInfo | null> {
+  try {
+    const [status, cmdline] = await Promise.all([
+      readFile(join(procDir, String(stat.pid), "status"), "utf-8"),
+      readFile(join(procDir, String(stat.pid), "cmdline"), "utf-8"),
+    ]);
+    const rssKb = Number(/^VmRSS:\s+(\d+) kB$/m.exec(status)?.[1] ?? 0);
+    // Kernel threads have no command line; fall back to the name
+    const name = /^Name:\s+(.*)$/m.exec(status)?.[1] ?? "";
+    const command = cmdline.split("\0").filter(Boolean).join(" ") || `[${name}]`;
+    return { ...stat, command, rssBytes: rssKb * 1024 };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The processes of the given process groups, plus everything descended from
+ * them that left the group (e.g. with setsid). Processes reparented to init
+ * after leaving the group are out of reach.
+ */
+export function processTree(processes: ProcessStat[], pgids: Iterable<number>): ProcessStat[] {
+  const groups = new Set(pgids);
+  const members = new Map<number, ProcessStat>();
+  for (const proc of processes) {
+    if (groups.has(proc.pgid)) members.set(proc.pid, proc);
+  }
+
+  const children = new Map<number, ProcessStat[]>();
+  for (const proc of processes) {
+    const siblings = children.get(proc.ppid) ?? [];
+    siblings.push(proc);
+    children.set(proc.ppid, siblings);
+  }
+  const pending = [...members.keys()];
+  while (pending.length > 0) {
+    for (const child of children.get(pending.pop()!) ?? []) {
+      if (members.has(child.pid)) continue;
+      members.set(child.pid, child);
+      pending.push(child.pid);
+    }
+  }
+  return [...members.values()];
+}
+
+/** Parse /proc/<pid>/stat. Null for zombies, which have exited and only wait to be reaped. */
+function parseStat(pid: number, stat: string, bootTime: number): ProcessStat | null {
+  // comm (field 2) is in parentheses and may contain spaces. fields[0] is
+  // field 3 (state): ppid is field 4, pgrp 5, utime/stime/cutime/cstime
+  // 14-17, starttime 22.
+  const fields = stat.slice(stat.lastIndexOf(")") + 2).split(" ");
+  if (fields[0] === "Z") return null;
+  const ticks = [11, 12, 13, 14].reduce((sum, i) => sum + Number(fields[i]), 0);
+  return {
+    pid,
+    ppid: Number(fields[1]),
+    pgid: Number(fields[2]),
+    cpuSeconds: ticks / CLOCK_TICKS_PER_SECOND,
+    startedAt: bootTime + (Number(fields[19]) / CLOCK_TICKS_PER_SECOND) * 1000,
+  };
+}
+
+async function readBootTime(procDir: string): Promise<number> {
+  return parseBootTime(await readFile(join(procDir, "stat"), "utf-8"));
+}
+
+function parseBootTime(stat: string): number {
+  return Number(/^btime (\d+)$/m.exec(stat)?.[1] ?? 0) * 1000;
+}
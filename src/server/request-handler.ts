@@ -0,0 +1,117 @@
+import type { AgentCard, Message, MessageSendParams, Task } from "@a2a-js/sdk";
+import {
+  DefaultExecutionEventBusManager,
+  DefaultRequestHandler,
+  type AgentExecutionEvent,
+  type ExecutionEventBusManager,
+  type PushNotificationSender,
+  type PushNotificationStore,
+  type ServerCallContext,
+  type TaskStore,
+} from "@a2a-js/sdk/server";
+import type { ClaudeAgentExecutor } from "./agent-executor.js";
+
+/**
+ * DefaultRequestHandler with claude-a2a's handling of `blocking: false`.
+ *
+ * The SDK answers a non-blocking send with the task as of the first event,
+ * which is always `submitted`, and keeps mutating that same object while the
+ * response is being serialized. This handler marks the turn as a background
+ * turn for the executor (longer timeout) and answers with a stored snapshot
+ * taken once the executor has accepted (`working`), queued (`submitted` with
+ * a queue position) or refused the request.
+ */
+export class ClaudeRequestHandler extends DefaultRequestHandler {
+  private readonly claudeExecutor: ClaudeAgentExecutor;
+  private readonly tasks: TaskStore;
+  private readonly eventBuses: ExecutionEventBusManager;
+
+  constructor(
+    agentCard: AgentCard,
+    taskStore: TaskStore,
+    executor: ClaudeAgentExecutor,
+    eventBusManager?: ExecutionEventBusManager,
+    pushNotificationStore?: PushNotificationStore,
+    pushNotificationSender?: PushNotificationSender,
+  ) {
+    const eventBuses = eventBusManager ?? new DefaultExecutionEventBusManager();
+    super(
+      agentCard,
+      taskStore,
+      executor,
+      eventBuses,
+      pushNotificationStore,
+      pushNotificationSender,
+    );
+    this.claudeExecutor = executor;
+    this.tasks = taskStore;
+    this.eventBuses = eventBuses;
+  }
+
+  override async sendMessage(
+    params: MessageSendParams,
+    context?: ServerCallContext,
+  ): Promise<Message | Task> {
+    if (params.configuration?.blocking !== false || !params.message.messageId) {
+      return super.sendMessage(params, context);
+    }
+
+    const release = this.claudeExecutor.markBackground(params.message.messageId);
+    try {
+      const first = await super.sendMessage(params, context);
+      if (first.kind !== "task") return first;
+
+      // Listen before looking, so a decision published in between isn't missed
+      const decided = this.nextStatusUpdate(first.id);
+      try {
+        const stored = await this.persisted(first.id, context);
+        if (stored && !isUndecided(stored)) return stored;
+        // The executor is still checking (a workspace lookup, say); wait for its decision
+        await decided.event;
+        return (await this.persisted(first.id, context)) ?? first;
+      } finally {
+        decided.cancel();
+      }
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * The task as stored once the SDK has caught up with the events published
+   * so far. Saving is synchronous, so one macrotask is enough.
+   */
+  private async persisted(taskId: string, context?: ServerCallContext): Promise<Task | undefined> {
+    await new Promise<void>((resolve) => setImmediate(resolve));
+    return this.tasks.load(taskId, context);
+  }
+
+  /** Resolves on the task's next status update, or when its event bus finishes or is gone. */
+  private nextStatusUpdate(taskId: string): { event: Promise<void>; cancel: () => void } {
+    const bus = this.eventBuses.getByTaskId(taskId);
+    if (!bus) return { event: Promise.resolve(), cancel: () => {} };
+
+    let listener!: (event: AgentExecutionEvent) => void;
+    let onFinished!: () => void;
+    const event = new Promise<void>((resolve) => {
+      listener = (e) => {
+        if (e.kind === "status-update") resolve();
+      };
+      onFinished = resolve;
+    });
+    bus.on("event", listener);
+    bus.on("finished", onFinished);
+    return {
+      event,
+      cancel: () => {
+        bus.off("event", listener);
+        bus.off("finished", onFinished);
+      },
+    };
+  }
+}
+
+/** Still the bare `submitted` the executor starts every task with. */
+function isUndecided(task: Task): boolean {
+  return task.status.state === "submitted" && !task.status.message;
+}
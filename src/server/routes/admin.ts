@@ -1,8 +1,14 @@
 import { Router, type Request, type Response } from "express";
 import { z } from "zod";
 import type { Config } from "../config.js";
+import type { ClaudeRunner } from "../claude-runner.js";
+import type { SessionActivity } from "../claude-session.js";
 import type { SessionStore } from "../services/session-store.js";
 import type { BudgetTracker } from "../services/budget-tracker.js";
+import type { WebhookPushSender } from "../services/push-notification-sender.js";
+import type { AdmissionQueue } from "../services/admission-queue.js";
+import type { ProcessTracker } from "../services/process-tracker.js";
+import type { ProcessInfo } from "../proc.js";
 import {
   createToken,
   createRefreshToken,
@@ -16,10 +22,50 @@ export const CreateTokenSchema = z.object({
   scopes: z.array(z.string()).min(1, "at least one scope is required"),
   budget_daily_usd: z.number().positive().optional(),
   rate_limit_rpm: z.number().int().positive().optional(),
+  queue_priority: z.number().int().min(0).optional(),
+  allowed_models: z.array(z.string().min(1)).min(1, "allowed_models must not be empty").optional(),
   expires_hours: z.number().positive().optional(),
 });
 
-export function adminRouter(config: Config, sessionStore: SessionStore, budgetTracker: BudgetTracker): Router {
+export interface AdminRouterOptions {
+  /** Enables GET /push-deliveries when push notifications are configured. */
+  pushSender?: WebhookPushSender;
+  /** Adds the number of queued requests to GET /stats. */
+  admissionQueue?: AdmissionQueue;
+  /** Adds processes to GET /sessions/:id, enables killing them, and counts them in GET /stats. */
+  processTracker?: ProcessTracker;
+  /** Adds live session activity to GET /sessions/:id and enables `?silent=true` on GET /sessions. */
+  runner?: ClaudeRunner;
+}
+
+const KILL_SIGNALS = ["SIGTERM", "SIGINT", "SIGKILL"] as const;
+
+function activityJson(activity: SessionActivity, now: number) {
+  return {
+    state: activity.state,
+    working: activity.working,
+    silent_seconds: Math.floor((now - activity.lastOutputAt) / 1000),
+    stuck: activity.silentSince !== null,
+  };
+}
+
+function processJson(proc: ProcessInfo, now: number) {
+  return {
+    pid: proc.pid,
+    ppid: proc.ppid,
+    command: proc.command,
+    cpu_seconds: proc.cpuSeconds,
+    rss_bytes: proc.rssBytes,
+    age_seconds: Math.max(0, Math.floor((now - proc.startedAt) / 1000)),
+  };
+}
+
+export function adminRouter(
+  config: Config,
+  sessionStore: SessionStore,
+  budgetTracker: BudgetTracker,
+  options?: AdminRouterOptions,
+): Router {
   const router = Router();
 
   // All admin routes require master key auth
@@ -43,8 +89,8 @@ export function adminRouter(config: Config, sessionStore: SessionStore, budgetTr
     }
 
     try {
-      const { sub, scopes, budget_daily_usd, rate_limit_rpm, expires_hours } = parsed.data;
-      const tokenClaims = { sub, scopes, budget_daily_usd, rate_limit_rpm };
+      const { sub, scopes, budget_daily_usd, rate_limit_rpm, queue_priority, allowed_models, expires_hours } = parsed.data;
+      const tokenClaims = { sub, scopes, budget_daily_usd, rate_limit_rpm, queue_priority, allowed_models };
 
       const token = createToken(config, tokenClaims, expires_hours);
 
@@ -94,6 +140,8 @@ export function adminRouter(config: Config, sessionStore: SessionStore, budgetTr
         scopes: decoded.scopes,
         budget_daily_usd: decoded.budget_daily_usd,
         rate_limit_rpm: decoded.rate_limit_rpm,
+        queue_priority: decoded.queue_priority,
+        allowed_models: decoded.allowed_models,
       });
 
       res.json({ token, sub: decoded.sub, scopes: decoded.scopes });
@@ -114,12 +162,87 @@ export function adminRouter(config: Config, sessionStore: SessionStore, budgetTr
   router.get("/sessions", (req: Request, res: Response) => {
     const client = req.query["client"];
     const clientName = typeof client === "string" ? client : undefined;
-    const sessions = clientName
+    let sessions = clientName
       ? sessionStore.listForClient(clientName)
       : sessionStore.listAll();
+    if (req.query["silent"] === "true" && options?.runner) {
+      const silent = new Set(options.runner.silentContexts());
+      sessions = sessions.filter((s) => silent.has(s.contextId));
+    }
     res.json({ sessions, count: sessions.length });
   });
 
+  // Fork tree containing a context
+  router.get("/sessions/tree", (req: Request, res: Response) => {
+    const contextId = req.query["context_id"];
+    if (typeof contextId !== "string" || !contextId) {
+      res.status(400).json({ error: "Missing context_id" });
+      return;
+    }
+    const tree = sessionStore.forkTree(contextId);
+    if (!tree) {
+      res.status(404).json({ error: `No session for context "${contextId}"` });
+      return;
+    }
+    res.json({ tree });
+  });
+
+  // Session detail: live activity, Claude process and background processes
+  router.get("/sessions/:id", async (req: Request, res: Response) => {
+    const id = String(req.params["id"]);
+    const session = sessionStore.get(id);
+    if (!session) {
+      res.status(404).json({ error: `No session "${id}"` });
+      return;
+    }
+    const now = Date.now();
+    const body: Record<string, unknown> = { session };
+    if (options?.runner) {
+      const activity = options.runner.getSessionActivity(session.contextId);
+      body.activity = activity ? activityJson(activity, now) : null;
+    }
+    if (options?.processTracker) {
+      const { claude, children } = await options.processTracker.forContext(session.contextId);
+      body.process = claude ? processJson(claude, now) : null;
+      body.children = children.map((proc) => processJson(proc, now));
+    }
+    res.json(body);
+  });
+
+  // Kill a background process of a session, with its descendants
+  router.delete("/sessions/:id/processes/:pid", async (req: Request, res: Response) => {
+    if (!options?.processTracker) {
+      res.status(404).json({ error: "Process tracking is disabled" });
+      return;
+    }
+    const id = String(req.params["id"]);
+    const pid = Number(req.params["pid"]);
+    const signal = req.query["signal"] ?? "SIGTERM";
+    if (!Number.isInteger(pid) || pid <= 0) {
+      res.status(400).json({ error: "Invalid PID" });
+      return;
+    }
+    if (!KILL_SIGNALS.includes(signal as (typeof KILL_SIGNALS)[number])) {
+      res.status(400).json({ error: `signal must be one of ${KILL_SIGNALS.join(", ")}` });
+      return;
+    }
+    const session = sessionStore.get(id);
+    if (!session) {
+      res.status(404).json({ error: `No session "${id}"` });
+      return;
+    }
+    const signalled = await options.processTracker.killChild(
+      session.contextId,
+      pid,
+      signal as NodeJS.Signals,
+    );
+    if (!signalled) {
+      res.status(404).json({ error: `Process ${pid} is not a background process of session "${id}"` });
+      return;
+    }
+    res.json({ killed: signalled, signal, session_id: id });
+  });
+
   // Delete a session
   router.delete("/sessions/:id", (req: Request, res: Response) => {
     const { id } = req.params;
@@ -131,14 +254,30 @@ export function adminRouter(config: Config, sessionStore: SessionStore, budgetTr
     res.json({ deleted, session_id: id });
   });
 
+  // Push notification delivery log (most recent first)
+  router.get("/push-deliveries", (req: Request, res: Response) => {
+    if (!options?.pushSender) {
+      res.status(404).json({ error: "Push notifications are disabled" });
+      return;
+    }
+    const task = req.query["task_id"];
+    const taskId = typeof task === "string" ? task : undefined;
+    const rawLimit = Number(req.query["limit"] ?? 100);
+    const limit = Number.isInteger(rawLimit) && rawLimit > 0 ? Math.min(rawLimit, 1000) : 100;
+    const deliveries = options.pushSender.listDeliveries(taskId, limit);
+    res.json({ deliveries, count: deliveries.length });
+  });
+
   // Server stats (includes budget details)
-  router.get("/stats", (_req: Request, res: Response) => {
+  router.get("/stats", async (_req: Request, res: Response) => {
     res.json({
       sessions: sessionStore.listAll().length,
       agents: Object.entries(config.agents)
         .filter(([_, a]) => a.enabled)
         .map(([name]) => name),
       budget: budgetTracker.getStats(),
+      ...(options?.admissionQueue ? { queued: options.admissionQueue.size } : {}),
+      ...(options?.processTracker ? { background_processes: await options.processTracker.countChildren() } : {}),
     });
   });
 
@@ -9,12 +9,15 @@ export function healthRouter(
 ): Router {
   const router = Router();
 
+  // Unauthenticated: in-memory counters only, nothing that scans /proc
   router.get("/health", (_req: Request, res: Response) => {
     res.json({
       status: "ok",
       version: VERSION,
       uptime_seconds: Math.floor(process.uptime()),
       active_sessions: runner.concurrentCount,
+      warm_sessions: runner.warmCount,
+      silent_sessions: runner.silentContexts().length,
       total_sessions: sessionStore.size,
     });
   });
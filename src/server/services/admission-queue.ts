@@ -0,0 +1,231 @@
+import type { Logger } from "pino";
+import type { Config } from "../config.js";
+
+/** What the queue needs to know about the process pool (ClaudeRunner). */
+export interface CapacitySource {
+  /** Sessions that could be started now, counting evictable idle ones. */
+  readonly freeSlots: number;
+  hasSession(contextId: string): boolean;
+}
+
+export interface AdmissionRequest {
+  taskId: string;
+  contextId: string;
+  clientName: string;
+  /** Higher is served first; from the `queue_priority` JWT claim. */
+  priority: number;
+  /** Called with the 1-based position whenever it changes while queued. */
+  onPosition?: (position: number, queued: number) => void;
+}
+
+/** Releases the slot reserved for an admitted request. Call once the turn has started. */
+export type AdmissionRelease = () => void;
+
+interface Waiter extends AdmissionRequest {
+  seq: number;
+  position: number;
+  timer: ReturnType<typeof setTimeout>;
+  resolve: (release: AdmissionRelease) => void;
+  reject: (error: Error) => void;
+}
+
+const noop: AdmissionRelease = () => {};
+
+/**
+ * Bounded wait line for new Claude sessions when the runner is at capacity.
+ *
+ * Order: highest priority first; within a priority, the client served least
+ * recently goes next (round-robin), then arrival order. One client queueing
+ * a batch of 50 tasks therefore cannot starve a client with one.
+ *
+ * Messages for a context that already has a process bypass the queue — they
+ * need no new slot. Admitted requests hold a reservation until the runner
+ * has created their session, so one freed slot admits one waiter.
+ */
+export class AdmissionQueue {
+  private readonly enabled: boolean;
+  private readonly maxQueued: number;
+  private readonly maxWaitMs: number;
+  private readonly capacity: CapacitySource;
+  private readonly log: Logger;
+  private readonly waiters: Waiter[] = [];
+  /** client → serve counter value when last admitted from the queue. */
+  private readonly lastServed = new Map<string, number>();
+  private serveCount = 0;
+  private seq = 0;
+  private reserved = 0;
+
+  constructor(config: Config, log: Logger, capacity: CapacitySource) {
+    this.enabled = config.admission_queue.enabled;
+    this.maxQueued = config.admission_queue.max_queued;
+    this.maxWaitMs = config.admission_queue.max_wait_seconds * 1000;
+    this.capacity = capacity;
+    this.log = log.child({ component: "admission-queue" });
+  }
+
+  /** Number of requests waiting. */
+  get size(): number {
+    return this.waiters.length;
+  }
+
+  /**
+   * Wait until a session slot is available. Resolves with a release function
+   * to call right after the turn has been handed to the runner. Rejects with
+   * QueueFullError, QueueTimeoutError or AdmissionCanceledError.
+   */
+  admit(request: AdmissionRequest): Promise<AdmissionRelease> {
+    if (!this.enabled || this.capacity.hasSession(request.contextId)) {
+      return Promise.resolve(noop);
+    }
+    if (this.waiters.length === 0 && this.available() > 0) {
+      return Promise.resolve(this.reserve());
+    }
+    if (this.waiters.length >= this.maxQueued) {
+      return Promise.reject(
+        new QueueFullError(`At capacity and the admission queue is full (${this.maxQueued} waiting)`),
+      );
+    }
+
+    return new Promise<AdmissionRelease>((resolve, reject) => {
+      const waiter: Waiter = {
+        ...request,
+        seq: this.seq++,
+        position: 0,
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          if (!this.remove(waiter)) return;
+          this.log.info({ taskId: waiter.taskId, client: waiter.clientName }, "admission wait timed out");
+          reject(new QueueTimeoutError(
+            `No capacity became available within ${this.maxWaitMs / 1000}s`,
+          ));
+          this.reportPositions();
+        }, this.maxWaitMs),
+      };
+      this.waiters.push(waiter);
+      this.log.info(
+        { taskId: waiter.taskId, client: waiter.clientName, priority: waiter.priority, queued: this.waiters.length },
+        "request queued for capacity",
+      );
+      this.reportPositions();
+    });
+  }
+
+  /**
+   * Admit waiters while slots are free. Called by the runner whenever a
+   * turn ends or a session goes away.
+   */
+  pump(): void {
+    let admitted = false;
+    while (this.waiters.length > 0 && this.available() > 0) {
+      const waiter = this.waiters[pickNext(this.waiters, this.lastServed)]!;
+      this.remove(waiter);
+      this.lastServed.set(waiter.clientName, ++this.serveCount);
+      this.log.info({ taskId: waiter.taskId, client: waiter.clientName }, "request admitted from queue");
+      waiter.resolve(this.reserve());
+      admitted = true;
+    }
+    if (admitted) this.reportPositions();
+  }
+
+  /** Drop a queued task. Returns its contextId, or null if it was not queued. */
+  cancel(taskId: string): string | null {
+    const waiter = this.waiters.find((w) => w.taskId === taskId);
+    if (!waiter) return null;
+    this.remove(waiter);
+    waiter.reject(new AdmissionCanceledError("Canceled while queued"));
+    this.reportPositions();
+    return waiter.contextId;
+  }
+
+  /** Reject everything still waiting (shutdown). */
+  stop(): void {
+    for (const waiter of this.waiters.splice(0)) {
+      clearTimeout(waiter.timer);
+      waiter.reject(new AdmissionCanceledError("Server shutting down"));
+    }
+  }
+
+  private available(): number {
+    return this.capacity.freeSlots - this.reserved;
+  }
+
+  private reserve(): AdmissionRelease {
+    this.reserved++;
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.reserved--;
+    };
+  }
+
+  private remove(waiter: Waiter): boolean {
+    const index = this.waiters.indexOf(waiter);
+    if (index === -1) return false;
+    this.waiters.splice(index, 1);
+    clearTimeout(waiter.timer);
+    return true;
+  }
+
+  /** Replay the pick order to find each waiter's position; notify the ones that moved. */
+  private reportPositions(): void {
+    const remaining = [...this.waiters];
+    const served = new Map(this.lastServed);
+    let count = this.serveCount;
+    for (let position = 1; remaining.length > 0; position++) {
+      const [waiter] = remaining.splice(pickNext(remaining, served), 1);
+      served.set(waiter!.clientName, ++count);
+      if (waiter!.position !== position) {
+        waiter!.position = position;
+        waiter!.onPosition?.(position, this.waiters.length);
+      }
+    }
+  }
+}
+
+/** Index of the waiter to admit next: priority, then least recently served client, then arrival. */
+function pickNext(waiters: Waiter[], lastServed: Map<string, number>): number {
+  let best = 0;
+  for (let i = 1; i < waiters.length; i++) {
+    const a = waiters[i]!;
+    const b = waiters[best]!;
+    if (a.priority !== b.priority) {
+      if (a.priority > b.priority) best = i;
+      continue;
+    }
+    const servedA = lastServed.get(a.clientName) ?? 0;
+    const servedB = lastServed.get(b.clientName) ?? 0;
+    if (servedA !== servedB) {
+      if (servedA < servedB) best = i;
+      continue;
+    }
+    if (a.seq < b.seq) best = i;
+  }
+  return best;
+}
+
+// ---------------------------------------------------------------------------
+// Error classes
+// ---------------------------------------------------------------------------
+
+export class QueueFullError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QueueFullError";
+  }
+}
+
+export class QueueTimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QueueTimeoutError";
+  }
+}
+
+export class AdmissionCanceledError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AdmissionCanceledError";
+  }
+}
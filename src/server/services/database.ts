@@ -68,6 +68,52 @@ const MIGRATIONS: Migration[] = [
       db.exec(`ALTER TABLE tasks ADD COLUMN client_name TEXT`);
     },
   },
+  {
+    version: 4,
+    description: "Add push notification configs and delivery log",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE push_notification_configs (
+          task_id TEXT NOT NULL,
+          config_id TEXT NOT NULL,
+          url TEXT NOT NULL,
+          token TEXT,
+          authentication_json TEXT,
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          PRIMARY KEY (task_id, config_id)
+        );
+
+        CREATE TABLE push_deliveries (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          task_id TEXT NOT NULL,
+          config_id TEXT NOT NULL,
+          url TEXT NOT NULL,
+          task_state TEXT NOT NULL,
+          status TEXT NOT NULL,
+          attempts INTEGER NOT NULL DEFAULT 0,
+          last_status_code INTEGER,
+          last_error TEXT,
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+        );
+        CREATE INDEX idx_push_deliveries_task ON push_deliveries(task_id);
+      `);
+    },
+  },
+  {
+    version: 5,
+    description: "Add parent_context_id to sessions for forks",
+    up: (db) => {
+      db.exec(`ALTER TABLE sessions ADD COLUMN parent_context_id TEXT`);
+    },
+  },
+  {
+    version: 6,
+    description: "Add customization to sessions for per-context settings",
+    up: (db) => {
+      db.exec(`ALTER TABLE sessions ADD COLUMN customization TEXT`);
+    },
+  },
 ];
 
 export class AppDatabase {
@@ -0,0 +1,400 @@
+import { v4 as uuidv4 } from "uuid";
+import type { Logger } from "pino";
+import type { Message, Task, TaskState } from "@a2a-js/sdk";
+import type {
+  ExecutionEventBusManager,
+  PushNotificationSender,
+} from "@a2a-js/sdk/server";
+import type { SqliteTaskStore } from "./task-store.js";
+import type { SessionStore } from "./session-store.js";
+import type { BudgetTracker } from "./budget-tracker.js";
+import type { ClaudeResponse } from "../claude-runner.js";
+import {
+  buildClaudeExtension,
+  resultError,
+  RESPONSE_ARTIFACT_NAME,
+  responseArtifactId,
+} from "../agent-executor.js";
+import { TranscriptTail, claudeConfigDir, type TranscriptTurn } from "../transcript.js";
+import { readProcessStat } from "../proc.js";
+
+export interface OrphanMonitorOptions {
+  /** How often to check whether watched processes are still alive. */
+  pollIntervalMs?: number;
+  /** Notified when a watched task reaches its final state. */
+  pushSender?: PushNotificationSender;
+  /** Charged for turns finished from their transcript. */
+  budgetTracker?: BudgetTracker;
+  /** Claude's config directory, which holds the session transcripts. */
+  claudeConfigDir?: string;
+}
+
+interface WatchedOrphan {
+  taskId: string;
+  contextId: string;
+  pid: number;
+  /** Start time of the process, to tell it from a later one with the same PID; null if unknown. */
+  startedAt: number | null;
+  /** Claude session the process writes to, if known. */
+  sessionId: string | null;
+  agentName: string | null;
+  /** Null if the session or its transcript could not be found. */
+  transcript: TranscriptTail | null;
+}
+
+/** Task metadata written by `runner.releaseAll`, dropped once the task is finished. */
+const ORPHAN_METADATA_KEYS = ["orphan_pid", "orphan_started_at", "orphan_session_id", "orphan_agent"];
+
+const DEFAULT_POLL_INTERVAL_MS = 2_000;
+
+/**
+ * Reattaches tasks whose Claude process outlived a server restart.
+ *
+ * On startup, every task still `submitted`/`working` is checked for a live
+ * process (the PID recorded by `runner.releaseAll`, else the session's last
+ * PID). Live ones get an event bus so `tasks/resubscribe` and `tasks/cancel`
+ * work, and are completed when the process exits. The rest are failed, since
+ * nothing will ever finish them.
+ *
+ * While a process runs, its session transcript is tailed. When it exits, the
+ * last turn in the transcript becomes the task's answer if it ended
+ * (`stop_reason: "end_turn"`), and its cost is recorded as for a live turn.
+ * A turn cut short fails the task. Without a transcript, the task is
+ * completed without an answer.
+ */
+export class OrphanMonitor {
+  private readonly log: Logger;
+  private readonly taskStore: SqliteTaskStore;
+  private readonly sessionStore: SessionStore;
+  private readonly eventBusManager: ExecutionEventBusManager;
+  private readonly pushSender?: PushNotificationSender;
+  private readonly budgetTracker?: BudgetTracker;
+  private readonly claudeConfigDir: string;
+  private readonly pollIntervalMs: number;
+  private readonly watched = new Map<string, WatchedOrphan>();
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private polling = false;
+
+  constructor(
+    log: Logger,
+    taskStore: SqliteTaskStore,
+    sessionStore: SessionStore,
+    eventBusManager: ExecutionEventBusManager,
+    options?: OrphanMonitorOptions,
+  ) {
+    this.log = log.child({ component: "orphan-monitor" });
+    this.taskStore = taskStore;
+    this.sessionStore = sessionStore;
+    this.eventBusManager = eventBusManager;
+    this.pushSender = options?.pushSender;
+    this.budgetTracker = options?.budgetTracker;
+    this.claudeConfigDir = options?.claudeConfigDir ?? claudeConfigDir();
+    this.pollIntervalMs = options?.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  }
+
+  /**
+   * Scan unfinished tasks left by a previous server process. Call once at
+   * startup, before accepting requests. Returns the number of tasks attached.
+   */
+  async recover(): Promise<number> {
+    for (const task of this.taskStore.listUnfinished()) {
+      const pid = this.resolvePid(task);
+      const recordedStart = task.metadata?.["orphan_started_at"];
+      const startedAt = pid ? readProcessStat(pid)?.startedAt ?? null : null;
+      // A different start time: the PID was reused after the CLI exited
+      const reused = typeof recordedStart === "number" && startedAt !== null && startedAt !== recordedStart;
+      if (pid && isProcessAlive(pid) && !reused) {
+        const orphan = await this.attach(task, pid, startedAt);
+        this.log.info(
+          { taskId: task.id, contextId: task.contextId, pid, transcript: orphan.transcript?.path ?? null },
+          "reattached orphaned task",
+        );
+      } else {
+        await this.finish(
+          task.id,
+          "failed",
+          "Error: The server restarted and the Claude process for this task is no longer running. " +
+          "Send the message again to retry.",
+          { error_type: "process_lost" },
+        );
+        this.log.info({ taskId: task.id, contextId: task.contextId }, "failed task lost in restart");
+      }
+    }
+
+    if (this.watched.size > 0 && !this.pollTimer) {
+      this.pollTimer = setInterval(() => void this.poll(), this.pollIntervalMs);
+      this.pollTimer.unref();
+    }
+    return this.watched.size;
+  }
+
+  isWatching(taskId: string): boolean {
+    return this.watched.has(taskId);
+  }
+
+  /**
+   * Stop watching a task and terminate its process group: the CLI and the
+   * tools it started (SIGTERM, then SIGKILL after 5s). The caller publishes
+   * the final state. Returns the task's contextId, or null if the task is
+   * not watched.
+   */
+  cancel(taskId: string): string | null {
+    const orphan = this.watched.get(taskId);
+    if (!orphan) return null;
+    this.watched.delete(taskId);
+
+    this.log.info({ taskId, pid: orphan.pid }, "killing orphaned process group");
+    if (!signalGroup(orphan, "SIGTERM")) {
+      this.log.warn({ taskId, pid: orphan.pid }, "orphaned process group is gone or taken by another process");
+      return orphan.contextId;
+    }
+    setTimeout(() => signalGroup(orphan, "SIGKILL"), 5000).unref();
+    return orphan.contextId;
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  private async attach(task: Task, pid: number, startedAt: number | null): Promise<WatchedOrphan> {
+    const session = this.sessionStore.getByContextId(task.contextId);
+    const recordedSession = task.metadata?.["orphan_session_id"];
+    const recordedAgent = task.metadata?.["orphan_agent"];
+    const sessionId = typeof recordedSession === "string" ? recordedSession : session?.sessionId ?? null;
+    const orphan: WatchedOrphan = {
+      taskId: task.id,
+      contextId: task.contextId,
+      pid,
+      startedAt,
+      sessionId,
+      agentName: typeof recordedAgent === "string" ? recordedAgent : session?.agentName ?? null,
+      transcript: sessionId ? await TranscriptTail.find(sessionId, this.claudeConfigDir) : null,
+    };
+    await this.readTranscript(orphan);
+
+    this.watched.set(orphan.taskId, orphan);
+    this.eventBusManager.createOrGetByTaskId(orphan.taskId);
+    return orphan;
+  }
+
+  private async readTranscript(orphan: WatchedOrphan): Promise<void> {
+    try {
+      await orphan.transcript?.read();
+    } catch (err) {
+      this.log.warn(
+        { taskId: orphan.taskId, error: err instanceof Error ? err.message : String(err) },
+        "failed to read session transcript",
+      );
+    }
+  }
+
+  private resolvePid(task: Task): number | null {
+    const recorded = task.metadata?.["orphan_pid"];
+    if (typeof recorded === "number") return recorded;
+    return this.sessionStore.getLastPid(task.contextId);
+  }
+
+  private async poll(): Promise<void> {
+    // Overlapping polls would read the same transcript bytes twice
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      for (const orphan of [...this.watched.values()]) {
+        // Read before the liveness check, so nothing written before the exit is missed
+        await this.readTranscript(orphan);
+        if (isProcessAlive(orphan.pid)) continue;
+        // cancel() may have removed it while an earlier finish() was awaiting
+        if (!this.watched.delete(orphan.taskId)) continue;
+
+        this.log.info({ taskId: orphan.taskId, pid: orphan.pid }, "orphaned process exited");
+        this.sessionStore.clearPid(orphan.contextId);
+        try {
+          const turn = orphan.transcript?.turn;
+          if (turn && turn.apiCalls > 0) {
+            await this.completeFromTranscript(orphan, turn);
+          } else {
+            await this.finish(
+              orphan.taskId,
+              "completed",
+              "The Claude process finished after a server restart. Its output was not captured; " +
+              "send a follow-up message on this context to get the result.",
+            );
+          }
+        } catch (err) {
+          this.log.error(
+            { taskId: orphan.taskId, error: err instanceof Error ? err.message : String(err) },
+            "failed to complete orphaned task",
+          );
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+
+    if (this.watched.size === 0) {
+      this.stop();
+    }
+  }
+
+  /**
+   * Complete a task with the answer its process wrote to the transcript, and
+   * do the bookkeeping the executor does for a live turn: session, budget.
+   */
+  private async completeFromTranscript(orphan: WatchedOrphan, turn: TranscriptTurn): Promise<void> {
+    const session = this.sessionStore.getByContextId(orphan.contextId);
+    const response: ClaudeResponse = {
+      result: turn.text,
+      session_id: orphan.sessionId!,
+      is_error: turn.isError,
+      duration_ms: turn.startedAt !== null && turn.updatedAt !== null ? turn.updatedAt - turn.startedAt : 0,
+      duration_api_ms: 0,
+      num_turns: turn.apiCalls,
+      total_cost_usd: turn.costUsd,
+      usage: turn.usage,
+      model_used: turn.model,
+      permission_denials: [],
+    };
+
+    const clientName = this.taskStore.ownerOf(orphan.taskId) ?? session?.clientName ?? null;
+    if (session) {
+      this.sessionStore.update(response.session_id, response.total_cost_usd);
+    } else if (clientName && orphan.agentName) {
+      // The context's first turn: without a session the next message would
+      // start a new conversation instead of resuming this one
+      this.sessionStore.create(response.session_id, orphan.agentName, clientName, orphan.contextId, orphan.taskId);
+    }
+    if (clientName) {
+      this.budgetTracker?.record_cost(clientName, response.total_cost_usd);
+    } else {
+      this.log.warn({ taskId: orphan.taskId, cost: response.total_cost_usd }, "orphaned turn has no client to charge");
+    }
+
+    const metadata = {
+      ...buildClaudeExtension(response, orphan.agentName ?? session?.agentName ?? "unknown"),
+      from_transcript: true,
+      ...(turn.costEstimated ? { cost_estimated: true } : {}),
+    };
+    if (response.is_error) {
+      const { errorType, errorText } = resultError(response);
+      this.log.info({ taskId: orphan.taskId, errorType }, "orphaned task ended with an error");
+      await this.finish(orphan.taskId, "failed", errorText, { ...metadata, error_type: errorType });
+      return;
+    }
+    // The process died half-way (killed, crashed): its last message is no answer
+    if (turn.stopReason !== "end_turn") {
+      this.log.info({ taskId: orphan.taskId, stopReason: turn.stopReason }, "orphaned process exited mid-turn");
+      await this.finish(
+        orphan.taskId,
+        "failed",
+        "Error: The Claude process exited before finishing the turn. " +
+        "Send a follow-up on this context to continue, or the message again to retry.",
+        { ...metadata, error_type: "process_error" },
+      );
+      return;
+    }
+
+    this.log.info(
+      { taskId: orphan.taskId, cost: response.total_cost_usd, estimated: turn.costEstimated },
+      "completed orphaned task from transcript",
+    );
+    await this.finish(orphan.taskId, "completed", turn.text, metadata, turn.text);
+  }
+
+  /**
+   * Persist the final state (with `answer` as the response artifact) and
+   * tell resubscribed clients, then drop the bus.
+   */
+  private async finish(
+    taskId: string,
+    state: TaskState,
+    text: string,
+    metadata?: Record<string, unknown>,
+    answer?: string,
+  ): Promise<void> {
+    const task = await this.taskStore.load(taskId);
+    if (!task) return;
+
+    const artifact = answer === undefined ? undefined : {
+      artifactId: responseArtifactId(taskId),
+      name: RESPONSE_ARTIFACT_NAME,
+      parts: [{ kind: "text" as const, text: answer }],
+    };
+    if (artifact) {
+      task.artifacts = [...(task.artifacts ?? []).filter((a) => a.artifactId !== artifact.artifactId), artifact];
+    }
+    if (task.metadata) {
+      for (const key of ORPHAN_METADATA_KEYS) delete task.metadata[key];
+    }
+
+    const message: Message = {
+      kind: "message",
+      messageId: uuidv4(),
+      role: "agent",
+      parts: [{ kind: "text", text }],
+      taskId,
+      contextId: task.contextId,
+      ...(metadata ? { metadata } : {}),
+    };
+    task.status = { state, message, timestamp: new Date().toISOString() };
+    task.history = [...(task.history ?? []), message];
+    await this.taskStore.save(task);
+
+    const bus = this.eventBusManager.getByTaskId(taskId);
+    if (bus) {
+      if (artifact) {
+        bus.publish({
+          kind: "artifact-update",
+          taskId,
+          contextId: task.contextId,
+          artifact,
+          append: false,
+          lastChunk: true,
+        });
+      }
+      bus.publish({
+        kind: "status-update",
+        taskId,
+        contextId: task.contextId,
+        status: task.status,
+        final: true,
+      });
+      bus.finished();
+      this.eventBusManager.cleanupByTaskId(taskId);
+    }
+
+    void this.pushSender?.send(task);
+  }
+}
+
+/**
+ * Signal the orphan's process group. The CLI was spawned detached, so its
+ * PID is the group ID. As in ProcessTracker, the ID is only used while the
+ * process holding it is the one attached, or while no process holds it
+ * (the CLI exited but its tools remain: the ID can't be reused then).
+ * Returns false if there was nothing of the orphan's to signal.
+ */
+function signalGroup(orphan: WatchedOrphan, signal: NodeJS.Signals): boolean {
+  const leader = readProcessStat(orphan.pid);
+  if (leader && (leader.pgid !== orphan.pid ||
+      (orphan.startedAt !== null && leader.startedAt !== orphan.startedAt))) {
+    return false;
+  }
+  try {
+    process.kill(-orphan.pid, signal);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,152 @@
+import type { Logger } from "pino";
+import {
+  describeProcess,
+  listProcesses,
+  processTree,
+  type ProcessGroup,
+  type ProcessInfo,
+  type ProcessStat,
+} from "../proc.js";
+
+/** What the tracker needs from the process pool (ClaudeRunner). */
+export interface ProcessGroupSource {
+  /** context → process groups of its current and earlier Claude processes. */
+  processGroups(): Map<string, ProcessGroup[]>;
+  /** PID of the context's live Claude process, if any. */
+  getSessionPid(contextId: string): number | undefined;
+  /** Stop tracking a process group that has no members left. */
+  forgetProcessGroup(contextId: string, pgid: number): void;
+}
+
+export interface ProcessTrackerOptions {
+  /** Mount point of procfs. */
+  procDir?: string;
+}
+
+/** The processes a context's Claude sessions have started. */
+export interface SessionProcesses {
+  /** The live Claude process, or null between processes. */
+  claude: ProcessInfo | null;
+  /** Everything else: running tool commands and what they left behind. */
+  children: ProcessInfo[];
+}
+
+/**
+ * Finds the processes Claude sessions leave running, such as dev servers
+ * started by a Bash tool call.
+ *
+ * A context's processes are the members of the process groups of its Claude
+ * processes (each CLI is spawned detached and leads its own group) and their
+ * descendants. Groups of earlier processes are kept, since their members
+ * outlive a reaped or killed CLI; each scan drops the groups that are empty.
+ *
+ * A group's ID is its leader's PID, which the kernel hands out again once
+ * the group is empty. A group whose ID now belongs to a process started
+ * later than its leader is someone else's and is dropped too, and the
+ * groups and Claude processes of other contexts are never counted as ours.
+ */
+export class ProcessTracker {
+  private readonly log: Logger;
+  private readonly source: ProcessGroupSource;
+  private readonly procDir: string;
+
+  constructor(log: Logger, source: ProcessGroupSource, options?: ProcessTrackerOptions) {
+    this.log = log.child({ component: "process-tracker" });
+    this.source = source;
+    this.procDir = options?.procDir ?? "/proc";
+  }
+
+  /** The Claude process and children of one context. */
+  async forContext(contextId: string): Promise<SessionProcesses> {
+    const processes = await listProcesses(this.procDir);
+    const groups = this.source.processGroups();
+    const claudePid = this.source.getSessionPid(contextId);
+
+    let claude: ProcessInfo | null = null;
+    const children: ProcessInfo[] = [];
+    for (const stat of this.members(processes, groups, contextId)) {
+      const proc = await describeProcess(stat, this.procDir);
+      if (!proc) continue;
+      if (proc.pid === claudePid) claude = proc;
+      else children.push(proc);
+    }
+    children.sort((a, b) => a.startedAt - b.startedAt);
+    return { claude, children };
+  }
+
+  /** Number of children across all contexts. */
+  async countChildren(): Promise<number> {
+    const processes = await listProcesses(this.procDir);
+    const groups = this.source.processGroups();
+    let count = 0;
+    for (const contextId of groups.keys()) {
+      const claudePid = this.source.getSessionPid(contextId);
+      count += this.members(processes, groups, contextId).filter((p) => p.pid !== claudePid).length;
+    }
+    return count;
+  }
+
+  /**
+   * Signal a child of a context and its descendants. Returns the PIDs
+   * signalled, or null if `pid` is not a child of the context (the Claude
+   * process itself included).
+   */
+  async killChild(contextId: string, pid: number, signal: NodeJS.Signals = "SIGTERM"): Promise<number[] | null> {
+    const { children } = await this.forContext(contextId);
+    if (!children.some((p) => p.pid === pid)) return null;
+
+    const targets = [pid];
+    for (let i = 0; i < targets.length; i++) {
+      for (const child of children) {
+        if (child.ppid === targets[i] && !targets.includes(child.pid)) targets.push(child.pid);
+      }
+    }
+
+    const signalled: number[] = [];
+    for (const target of targets) {
+      try {
+        process.kill(target, signal);
+        signalled.push(target);
+      } catch {
+        // Exited in the meantime
+      }
+    }
+    this.log.info({ contextId, pid, signal, signalled }, "killed background process");
+    return signalled;
+  }
+
+  /**
+   * Tree members of a context's groups. Groups that are empty or whose ID
+   * was reused are forgotten; other contexts' Claude processes and groups
+   * are left out.
+   */
+  private members(
+    processes: ProcessStat[],
+    groups: Map<string, ProcessGroup[]>,
+    contextId: string,
+  ): ProcessStat[] {
+    const claudePid = this.source.getSessionPid(contextId);
+    const others = new Set<number>();
+    for (const other of groups.keys()) {
+      const pid = other === contextId ? undefined : this.source.getSessionPid(other);
+      if (pid !== undefined) others.add(pid);
+    }
+
+    const live: number[] = [];
+    for (const { pgid, leaderStartedAt } of groups.get(contextId) ?? []) {
+      if (others.has(pgid)) continue;
+      const leader = processes.find((p) => p.pid === pgid);
+      // With its leader gone, a group lives on only while its old members
+      // do, and the kernel doesn't reuse the ID until then
+      const current = leader
+        ? leaderStartedAt === null || leader.startedAt === leaderStartedAt
+        : processes.some((p) => p.pgid === pgid);
+      if (current || pgid === claudePid) {
+        live.push(pgid);
+      } else {
+        this.source.forgetProcessGroup(contextId, pgid);
+      }
+    }
+    return processTree(processes, live).filter((p) => !others.has(p.pid));
+  }
+}
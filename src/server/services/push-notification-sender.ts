@@ -0,0 +1,360 @@
+import { createHmac } from "node:crypto";
+import { request as httpRequest } from "node:http";
+import { request as httpsRequest } from "node:https";
+import { isIP } from "node:net";
+import type { Logger } from "pino";
+import type { PushNotificationConfig, Task, TaskState } from "@a2a-js/sdk";
+import type { PushNotificationSender, PushNotificationStore } from "@a2a-js/sdk/server";
+import type { Config } from "../config.js";
+import type { AppDatabase } from "./database.js";
+import type Database from "better-sqlite3";
+import {
+  BlockedAddressError,
+  isListedHost,
+  isPublicAddress,
+  publicOnlyLookup,
+  webhookHost,
+} from "./webhook-guard.js";
+
+const TERMINAL_STATES: ReadonlySet<TaskState> = new Set([
+  "completed",
+  "failed",
+  "canceled",
+  "rejected",
+]);
+
+/** Unfinished tasks whose last state is remembered to skip repeats. */
+const MAX_TRACKED_TASKS = 10_000;
+
+export type PushDeliveryStatus = "pending" | "delivered" | "failed";
+
+export interface PushDelivery {
+  id: number;
+  taskId: string;
+  configId: string;
+  url: string;
+  taskState: string;
+  status: PushDeliveryStatus;
+  attempts: number;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface PushDeliveryRow {
+  id: number;
+  task_id: string;
+  config_id: string;
+  url: string;
+  task_state: string;
+  status: PushDeliveryStatus;
+  attempts: number;
+  last_status_code: number | null;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface AttemptResult {
+  ok: boolean;
+  statusCode: number | null;
+  error: string | null;
+  retryable: boolean;
+}
+
+/**
+ * Compute the `X-A2A-Signature` value for a webhook body: hex HMAC-SHA256 over
+ * `<timestamp>.<body>`. Receivers recompute this with the same key and compare.
+ */
+export function signPushPayload(key: string, timestamp: string, body: string): string {
+  const digest = createHmac("sha256", key).update(`${timestamp}.${body}`).digest("hex");
+  return `sha256=${digest}`;
+}
+
+/**
+ * Delivers task snapshots to client webhooks whenever a task changes state.
+ *
+ * Each delivery is signed with the server's signing secret, retried with
+ * exponential backoff on network errors, timeouts, 408/429 and 5xx
+ * responses, and recorded in `push_deliveries`.
+ * Deliveries for the same task are serialized so receivers see states in order.
+ * Hosts outside `allowed_hosts` are only contacted on public addresses.
+ */
+export class WebhookPushSender implements PushNotificationSender {
+  private readonly store: PushNotificationStore;
+  private readonly log: Logger;
+  private readonly signingSecret: string;
+  private readonly allowedHosts: string[];
+  private readonly maxAttempts: number;
+  private readonly initialBackoffMs: number;
+  private readonly maxBackoffMs: number;
+  private readonly timeoutMs: number;
+  private readonly lastState = new Map<string, TaskState>();
+  private readonly chains = new Map<string, Promise<void>>();
+  private readonly sleepers = new Map<NodeJS.Timeout, () => void>();
+  private stopped = false;
+  private readonly stmtInsert: Database.Statement;
+  private readonly stmtUpdate: Database.Statement;
+  private readonly stmtList: Database.Statement;
+  private readonly stmtListByTask: Database.Statement;
+
+  constructor(
+    config: Config,
+    log: Logger,
+    appDb: AppDatabase,
+    store: PushNotificationStore,
+  ) {
+    const push = config.push_notifications;
+    this.store = store;
+    this.log = log.child({ component: "push" });
+    if (!push.signing_secret) {
+      throw new Error("push_notifications.signing_secret is required to send push notifications");
+    }
+    this.signingSecret = push.signing_secret;
+    this.allowedHosts = push.allowed_hosts;
+    this.maxAttempts = push.max_attempts;
+    this.initialBackoffMs = push.initial_backoff_seconds * 1000;
+    this.maxBackoffMs = push.max_backoff_seconds * 1000;
+    this.timeoutMs = push.timeout_seconds * 1000;
+
+    this.stmtInsert = appDb.db.prepare(`
+      INSERT INTO push_deliveries (task_id, config_id, url, task_state, status)
+      VALUES (?, ?, ?, ?, 'pending')
+    `);
+
+    this.stmtUpdate = appDb.db.prepare(`
+      UPDATE push_deliveries
+      SET status = ?, attempts = ?, last_status_code = ?, last_error = ?, updated_at = datetime('now')
+      WHERE id = ?
+    `);
+
+    this.stmtList = appDb.db.prepare(
+      "SELECT * FROM push_deliveries ORDER BY id DESC LIMIT ?",
+    );
+
+    this.stmtListByTask = appDb.db.prepare(
+      "SELECT * FROM push_deliveries WHERE task_id = ? ORDER BY id DESC LIMIT ?",
+    );
+  }
+
+  /**
+   * Called by the request handler after every task event (without awaiting).
+   * Only state transitions are delivered; artifact chunks and repeated
+   * working updates are skipped. Never rejects.
+   */
+  async send(task: Task): Promise<void> {
+    if (this.stopped) return;
+
+    // Check synchronously so concurrent events for one task can't both pass
+    const state = task.status.state;
+    if (this.lastState.get(task.id) === state) return;
+    this.lastState.delete(task.id);
+    if (!TERMINAL_STATES.has(state)) {
+      // Kept in order of last change. Tasks that never reach a final state
+      // (lost in a restart, waiting for input) would otherwise stay forever;
+      // forgetting the stalest at worst delivers its state once more
+      this.lastState.set(task.id, state);
+      if (this.lastState.size > MAX_TRACKED_TASKS) {
+        this.lastState.delete(this.lastState.keys().next().value!);
+      }
+    }
+
+    const body = JSON.stringify(task);
+    const previous = this.chains.get(task.id) ?? Promise.resolve();
+    const current = previous.then(() => this.deliverAll(task.id, state, body));
+    this.chains.set(task.id, current);
+
+    await current;
+    if (this.chains.get(task.id) === current) {
+      this.chains.delete(task.id);
+    }
+  }
+
+  /** Most recent deliveries first, optionally filtered to one task. */
+  listDeliveries(taskId?: string, limit = 100): PushDelivery[] {
+    const rows = (
+      taskId
+        ? this.stmtListByTask.all(taskId, limit)
+        : this.stmtList.all(limit)
+    ) as PushDeliveryRow[];
+    return rows.map(rowToDelivery);
+  }
+
+  /**
+   * Stop accepting new deliveries and abandon pending retries. Abandoned
+   * deliveries stay `pending` in the log; nothing is written after stop()
+   * so the database can be closed immediately afterwards.
+   */
+  stop(): void {
+    this.stopped = true;
+    for (const [timer, wake] of this.sleepers) {
+      clearTimeout(timer);
+      wake();
+    }
+    this.sleepers.clear();
+  }
+
+  private async deliverAll(taskId: string, state: TaskState, body: string): Promise<void> {
+    try {
+      const configs = await this.store.load(taskId);
+      await Promise.all(
+        configs.map((pushConfig) => this.deliver(taskId, state, body, pushConfig)),
+      );
+    } catch (err) {
+      this.log.error(
+        { taskId, error: err instanceof Error ? err.message : String(err) },
+        "push delivery failed unexpectedly",
+      );
+    }
+  }
+
+  private async deliver(
+    taskId: string,
+    state: TaskState,
+    body: string,
+    pushConfig: PushNotificationConfig,
+  ): Promise<void> {
+    const configId = pushConfig.id ?? taskId;
+    const deliveryId = Number(
+      this.stmtInsert.run(taskId, configId, pushConfig.url, state).lastInsertRowid,
+    );
+
+    for (let attempt = 1; attempt <= this.maxAttempts; attempt++) {
+      const result = await this.attempt(deliveryId, body, pushConfig);
+      if (this.stopped) return;
+
+      if (result.ok) {
+        this.stmtUpdate.run("delivered", attempt, result.statusCode, null, deliveryId);
+        this.log.info(
+          { taskId, state, url: pushConfig.url, attempts: attempt },
+          "push notification delivered",
+        );
+        return;
+      }
+
+      const exhausted = !result.retryable || attempt === this.maxAttempts;
+      this.stmtUpdate.run(
+        exhausted ? "failed" : "pending",
+        attempt,
+        result.statusCode,
+        result.error,
+        deliveryId,
+      );
+
+      if (exhausted) {
+        this.log.warn(
+          { taskId, state, url: pushConfig.url, attempts: attempt, error: result.error },
+          "push notification failed",
+        );
+        return;
+      }
+
+      await this.sleep(this.backoffMs(attempt));
+      if (this.stopped) return;
+    }
+  }
+
+  private async attempt(
+    deliveryId: number,
+    body: string,
+    pushConfig: PushNotificationConfig,
+  ): Promise<AttemptResult> {
+    // Sign per attempt so the timestamp reflects when this request was sent
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      "X-A2A-Delivery-Id": String(deliveryId),
+      "X-A2A-Timestamp": timestamp,
+    };
+    // The token identifies the registration to the receiver; it is not a signing key
+    if (pushConfig.token) {
+      headers["X-A2A-Notification-Token"] = pushConfig.token;
+    }
+    headers["X-A2A-Signature"] = signPushPayload(this.signingSecret, timestamp, body);
+    const auth = pushConfig.authentication;
+    if (auth?.credentials && auth.schemes.some((s) => s.toLowerCase() === "bearer")) {
+      headers["Authorization"] = `Bearer ${auth.credentials}`;
+    }
+
+    try {
+      const statusCode = await this.post(new URL(pushConfig.url), headers, body);
+      if (statusCode >= 200 && statusCode < 300) {
+        return { ok: true, statusCode, error: null, retryable: false };
+      }
+      return {
+        ok: false,
+        statusCode,
+        error: `HTTP ${statusCode}`,
+        retryable: statusCode === 408 || statusCode === 429 || statusCode >= 500,
+      };
+    } catch (err) {
+      return {
+        ok: false,
+        statusCode: null,
+        error: err instanceof Error ? err.message : String(err),
+        retryable: !(err instanceof BlockedAddressError),
+      };
+    }
+  }
+
+  /**
+   * POST the body and resolve with the status code. Unless the host is in
+   * `allowed_hosts`, the address is checked where the socket connects, so a
+   * DNS answer that changed since registration can't point it inward.
+   */
+  private post(url: URL, headers: Record<string, string>, body: string): Promise<number> {
+    const host = webhookHost(url);
+    const listed = isListedHost(host, this.allowedHosts);
+    if (!listed && isIP(host) && !isPublicAddress(host)) {
+      return Promise.reject(new BlockedAddressError(host, host));
+    }
+
+    const request = url.protocol === "https:" ? httpsRequest : httpRequest;
+    return new Promise<number>((resolve, reject) => {
+      const req = request(url, {
+        method: "POST",
+        headers: { ...headers, "Content-Length": Buffer.byteLength(body).toString() },
+        signal: AbortSignal.timeout(this.timeoutMs),
+        ...(listed ? {} : { lookup: publicOnlyLookup() }),
+      }, (res) => {
+        // Drain the body so the connection can be reused
+        res.resume();
+        res.on("end", () => resolve(res.statusCode ?? 0));
+        res.on("error", reject);
+      });
+      req.on("error", reject);
+      req.end(body);
+    });
+  }
+
+  private backoffMs(attempt: number): number {
+    return Math.min(this.initialBackoffMs * 2 ** (attempt - 1), this.maxBackoffMs);
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.sleepers.delete(timer);
+        resolve();
+      }, ms);
+      this.sleepers.set(timer, resolve);
+    });
+  }
+}
+
+function rowToDelivery(row: PushDeliveryRow): PushDelivery {
+  return {
+    id: row.id,
+    taskId: row.task_id,
+    configId: row.config_id,
+    url: row.url,
+    taskState: row.task_state,
+    status: row.status,
+    attempts: row.attempts,
+    lastStatusCode: row.last_status_code,
+    lastError: row.last_error,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
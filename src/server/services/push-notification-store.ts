@@ -0,0 +1,131 @@
+import { lookup } from "node:dns/promises";
+import { isIP } from "node:net";
+import type { PushNotificationConfig } from "@a2a-js/sdk";
+import { A2AError, type PushNotificationStore } from "@a2a-js/sdk/server";
+import type { AppDatabase } from "./database.js";
+import type Database from "better-sqlite3";
+import { isListedHost, isPublicAddress, webhookHost } from "./webhook-guard.js";
+
+interface PushConfigRow {
+  task_id: string;
+  config_id: string;
+  url: string;
+  token: string | null;
+  authentication_json: string | null;
+}
+
+export interface SqlitePushNotificationStoreOptions {
+  /**
+   * `push_notifications.allowed_hosts`: when set, the only webhook hosts
+   * accepted, and they may resolve to private addresses.
+   */
+  allowedHosts?: string[];
+  /** Resolves a hostname to its addresses (DNS by default). */
+  resolveHost?: (host: string) => Promise<string[]>;
+}
+
+async function resolveWithDns(host: string): Promise<string[]> {
+  return (await lookup(host, { all: true })).map((a) => a.address);
+}
+
+/**
+ * Persists `tasks/pushNotificationConfig/*` registrations. Ownership checks
+ * happen in the request handler (it loads the task through the tenant-aware
+ * task store before touching configs), so this store is keyed by task ID only.
+ */
+export class SqlitePushNotificationStore implements PushNotificationStore {
+  private readonly allowedHosts: string[];
+  private readonly resolveHost: (host: string) => Promise<string[]>;
+  private readonly stmtUpsert: Database.Statement;
+  private readonly stmtLoad: Database.Statement;
+  private readonly stmtDelete: Database.Statement;
+
+  constructor(appDb: AppDatabase, options?: SqlitePushNotificationStoreOptions) {
+    this.allowedHosts = options?.allowedHosts ?? [];
+    this.resolveHost = options?.resolveHost ?? resolveWithDns;
+
+    this.stmtUpsert = appDb.db.prepare(`
+      INSERT INTO push_notification_configs (task_id, config_id, url, token, authentication_json)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(task_id, config_id) DO UPDATE SET
+        url = excluded.url,
+        token = excluded.token,
+        authentication_json = excluded.authentication_json
+    `);
+
+    this.stmtLoad = appDb.db.prepare(
+      "SELECT * FROM push_notification_configs WHERE task_id = ? ORDER BY created_at, rowid",
+    );
+
+    this.stmtDelete = appDb.db.prepare(
+      "DELETE FROM push_notification_configs WHERE task_id = ? AND config_id = ?",
+    );
+  }
+
+  async save(taskId: string, config: PushNotificationConfig): Promise<void> {
+    await this.validatePushConfig(config);
+    // Match the SDK's default: a config without an ID is addressed by the task ID
+    const configId = config.id ?? taskId;
+    config.id = configId;
+    this.stmtUpsert.run(
+      taskId,
+      configId,
+      config.url,
+      config.token ?? null,
+      config.authentication ? JSON.stringify(config.authentication) : null,
+    );
+  }
+
+  async load(taskId: string): Promise<PushNotificationConfig[]> {
+    const rows = this.stmtLoad.all(taskId) as PushConfigRow[];
+    return rows.map((row) => ({
+      id: row.config_id,
+      url: row.url,
+      ...(row.token ? { token: row.token } : {}),
+      ...(row.authentication_json
+        ? { authentication: JSON.parse(row.authentication_json) }
+        : {}),
+    }));
+  }
+
+  async delete(taskId: string, configId?: string): Promise<void> {
+    this.stmtDelete.run(taskId, configId ?? taskId);
+  }
+
+  /**
+   * Refuse URLs the server must not POST task contents to. The sender checks
+   * the addresses again when it connects; this gives the client an early error.
+   */
+  private async validatePushConfig(config: PushNotificationConfig): Promise<void> {
+    let url: URL;
+    try {
+      url = new URL(config.url);
+    } catch {
+      throw A2AError.invalidParams(`Invalid push notification URL: ${config.url}`);
+    }
+    if (url.protocol !== "https:" && url.protocol !== "http:") {
+      throw A2AError.invalidParams(
+        `Push notification URL must use http or https, got ${url.protocol}`,
+      );
+    }
+
+    const host = webhookHost(url);
+    if (this.allowedHosts.length > 0) {
+      if (!isListedHost(host, this.allowedHosts)) {
+        throw A2AError.invalidParams(`Push notification host ${host} is not in the server's allowed hosts`);
+      }
+      return;
+    }
+
+    let addresses: string[];
+    try {
+      addresses = isIP(host) ? [host] : await this.resolveHost(host);
+    } catch {
+      throw A2AError.invalidParams(`Push notification host ${host} could not be resolved`);
+    }
+    const blocked = addresses.find((address) => !isPublicAddress(address));
+    if (blocked) {
+      throw A2AError.invalidParams(`Push notification host ${host} resolves to non-public address ${blocked}`);
+    }
+  }
+}
@@ -0,0 +1,173 @@
+import type { Logger } from "pino";
+import type { ResourceLimits } from "../config.js";
+import { ResourceLimitError } from "../claude-session.js";
+import { describeProcess, listProcesses, processTree } from "../proc.js";
+
+/** A Claude process the watchdog should check, with its agent's limits. */
+export interface LimitedProcess {
+  pid: number;
+  /** Null for warm sessions, which belong to no context yet. */
+  contextId: string | null;
+  limits: ResourceLimits;
+}
+
+/** What the watchdog needs from the process pool (ClaudeRunner). */
+export interface WatchdogTarget {
+  /** Live sessions whose agent sets `max_rss_mb` or `max_cpu_percent`. */
+  limitedProcesses(): LimitedProcess[];
+  /** Kill the session with this PID and fail its turn with `error`. */
+  killOverLimit(pid: number, error: ResourceLimitError): void;
+}
+
+export interface ResourceWatchdogOptions {
+  /** How often /proc is sampled. */
+  intervalMs?: number;
+  /** Period over which CPU usage is averaged for `max_cpu_percent`. */
+  cpuWindowMs?: number;
+  /** Mount point of procfs. */
+  procDir?: string;
+}
+
+/** Resource usage of a process group, summed over its live members. */
+export interface ProcessGroupUsage {
+  pids: number[];
+  rssBytes: number;
+  /** User + system time, including that of reaped children. */
+  cpuSeconds: number;
+}
+
+interface CpuSample {
+  at: number;
+  cpuSeconds: number;
+}
+
+const DEFAULT_INTERVAL_MS = 5_000;
+const DEFAULT_CPU_WINDOW_MS = 60_000;
+
+/**
+ * Kills Claude sessions whose process group uses too much memory or CPU.
+ *
+ * Every interval, the process group of each session with watchdog limits is
+ * read from /proc: Claude and every tool command it started, including those
+ * that called setsid but are still its descendants. RSS is compared as is; CPU is averaged
+ * over the last `cpuWindowMs`, so a short burst such as a compile does not
+ * trip it. Offending sessions are killed through the runner, which fails
+ * their turn with ResourceLimitError.
+ */
+export class ResourceWatchdog {
+  private readonly log: Logger;
+  private readonly target: WatchdogTarget;
+  private readonly intervalMs: number;
+  private readonly cpuWindowMs: number;
+  private readonly procDir: string;
+  /** pid → CPU samples within the window, oldest first. */
+  private readonly cpuSamples = new Map<number, CpuSample[]>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private checking = false;
+
+  constructor(log: Logger, target: WatchdogTarget, options?: ResourceWatchdogOptions) {
+    this.log = log.child({ component: "resource-watchdog" });
+    this.target = target;
+    this.intervalMs = options?.intervalMs ?? DEFAULT_INTERVAL_MS;
+    this.cpuWindowMs = options?.cpuWindowMs ?? DEFAULT_CPU_WINDOW_MS;
+    this.procDir = options?.procDir ?? "/proc";
+  }
+
+  start(): void {
+    this.timer = setInterval(() => void this.check(), this.intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** Sample every limited session once and kill the ones over a limit. */
+  async check(now = Date.now()): Promise<void> {
+    // A slow /proc scan must not pile up behind itself
+    if (this.checking) return;
+    this.checking = true;
+    try {
+      const processes = this.target.limitedProcesses();
+      const watched = new Set(processes.map((p) => p.pid));
+      for (const pid of this.cpuSamples.keys()) {
+        if (!watched.has(pid)) this.cpuSamples.delete(pid);
+      }
+      if (processes.length === 0) return;
+
+      const groups = await readProcessGroups(this.procDir, watched);
+      for (const proc of processes) {
+        const usage = groups.get(proc.pid);
+        if (!usage) continue;
+        const violation = this.violation(proc, usage, now);
+        if (!violation) continue;
+
+        this.cpuSamples.delete(proc.pid);
+        this.log.warn(
+          { pid: proc.pid, contextId: proc.contextId, processes: usage.pids.length, violation },
+          "killing claude session over resource limit",
+        );
+        this.target.killOverLimit(proc.pid, new ResourceLimitError(violation));
+      }
+    } catch (err) {
+      this.log.error(
+        { error: err instanceof Error ? err.message : String(err) },
+        "resource watchdog check failed",
+      );
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  /** Description of the limit the group is over, or null. */
+  private violation(proc: LimitedProcess, usage: ProcessGroupUsage, now: number): string | null {
+    const { max_rss_mb: maxRssMb, max_cpu_percent: maxCpuPercent } = proc.limits;
+    const rssMb = usage.rssBytes / (1024 * 1024);
+    if (maxRssMb !== null && rssMb > maxRssMb) {
+      return `Memory limit exceeded: ${Math.round(rssMb)} MB resident, limit ${maxRssMb} MB (limits.max_rss_mb)`;
+    }
+
+    if (maxCpuPercent === null) return null;
+    const samples = this.cpuSamples.get(proc.pid) ?? [];
+    this.cpuSamples.set(proc.pid, samples);
+    samples.push({ at: now, cpuSeconds: usage.cpuSeconds });
+    // Keep the newest sample at least a full window old as the baseline
+    while (samples.length > 2 && now - samples[1]!.at >= this.cpuWindowMs) samples.shift();
+
+    const oldest = samples[0]!;
+    const elapsedMs = now - oldest.at;
+    if (elapsedMs < this.cpuWindowMs) return null;
+    const cpuPercent = ((usage.cpuSeconds - oldest.cpuSeconds) * 1000 / elapsedMs) * 100;
+    if (cpuPercent > maxCpuPercent) {
+      return `CPU limit exceeded: ${Math.round(cpuPercent)}% over the last ${Math.round(elapsedMs / 1000)}s, ` +
+        `limit ${maxCpuPercent}% (limits.max_cpu_percent)`;
+    }
+    return null;
+  }
+}
+
+/**
+ * Usage of the process trees rooted at `pgids` (see processTree), read from
+ * /proc. Groups with no live member are missing from the result.
+ */
+export async function readProcessGroups(
+  procDir: string,
+  pgids: Set<number>,
+): Promise<Map<number, ProcessGroupUsage>> {
+  const processes = await listProcesses(procDir);
+  const groups = new Map<number, ProcessGroupUsage>();
+  for (const pgid of pgids) {
+    const group: ProcessGroupUsage = { pids: [], rssBytes: 0, cpuSeconds: 0 };
+    for (const stat of processTree(processes, [pgid])) {
+      const proc = await describeProcess(stat, procDir);
+      if (!proc) continue;
+      group.pids.push(proc.pid);
+      group.rssBytes += proc.rssBytes;
+      group.cpuSeconds += proc.cpuSeconds;
+    }
+    if (group.pids.length > 0) groups.set(pgid, group);
+  }
+  return groups;
+}
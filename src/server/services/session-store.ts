@@ -1,5 +1,5 @@
 import type { Logger } from "pino";
-import type { Config } from "../config.js";
+import type { Config, SessionCustomization } from "../config.js";
 import type { AppDatabase } from "./database.js";
 import type Database from "better-sqlite3";
 
@@ -14,10 +14,21 @@ export interface SessionMetadata {
   totalCostUsd: number;
   messageCount: number;
   processAlive: boolean;
+  /** Context this one was forked from, or null for a fresh conversation. */
+  parentContextId: string | null;
+  /** Settings the client gave the context (`customize`), reapplied on every respawn. */
+  customization: SessionCustomization | null;
+}
+
+/** A session and the sessions forked from it, recursively. */
+export interface SessionTreeNode extends SessionMetadata {
+  children: SessionTreeNode[];
 }
 
 export interface SessionStoreOptions {
   onSessionEvicted?: (contextId: string) => void;
+  /** Called for every removed session, whether or not its process is alive. */
+  onSessionRemoved?: (contextId: string) => void;
 }
 
 interface SessionRow {
@@ -32,6 +43,8 @@ interface SessionRow {
   message_count: number;
   process_alive: number;
   last_pid: number | null;
+  parent_context_id: string | null;
+  customization: string | null;
 }
 
 export class SessionStore {
@@ -44,6 +57,7 @@ export class SessionStore {
   private readonly maxPerClient: number;
   private readonly log: Logger;
   private readonly onSessionEvicted?: (contextId: string) => void;
+  private readonly onSessionRemoved?: (contextId: string) => void;
   private cleanupTimer: ReturnType<typeof setInterval> | null = null;
 
   // SQLite prepared statements (null when running without persistence)
@@ -61,11 +75,12 @@ export class SessionStore {
     this.maxPerClient = config.sessions.max_per_client;
     this.log = log.child({ component: "session-store" });
     this.onSessionEvicted = options?.onSessionEvicted;
+    this.onSessionRemoved = options?.onSessionRemoved;
 
     if (appDb) {
       this.stmtInsert = appDb.db.prepare(`
-        INSERT INTO sessions (session_id, agent_name, client_name, context_id, task_id, created_at, last_accessed_at, total_cost_usd, message_count, process_alive)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        INSERT INTO sessions (session_id, agent_name, client_name, context_id, task_id, created_at, last_accessed_at, total_cost_usd, message_count, process_alive, parent_context_id, customization)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `);
       this.stmtUpdate = appDb.db.prepare(`
         UPDATE sessions SET last_accessed_at = ?, total_cost_usd = ?, message_count = ?, process_alive = ?
@@ -131,6 +146,8 @@ export class SessionStore {
     clientName: string,
     contextId: string,
     taskId: string,
+    parentContextId?: string,
+    customization?: SessionCustomization,
   ): SessionMetadata {
     // Check per-client limit
     const clientSet = this.byClient.get(clientName);
@@ -163,6 +180,8 @@ export class SessionStore {
       totalCostUsd: 0,
       messageCount: 0,
       processAlive: true,
+      parentContextId: parentContextId ?? null,
+      customization: customization ?? null,
     };
 
     this.addToIndexes(session);
@@ -172,6 +191,8 @@ export class SessionStore {
       session.createdAt, session.lastAccessedAt,
       session.totalCostUsd, session.messageCount,
       session.processAlive ? 1 : 0,
+      session.parentContextId,
+      session.customization ? JSON.stringify(session.customization) : null,
     );
 
     return session;
@@ -213,6 +234,43 @@ export class SessionStore {
     return [...this.sessions.values()];
   }
 
+  /**
+   * The fork tree containing a context: rooted at its oldest ancestor still
+   * in the store, with every fork below it. Undefined if the context is unknown.
+   */
+  forkTree(contextId: string): SessionTreeNode | undefined {
+    let root = this.byContextId.get(contextId);
+    if (!root) return undefined;
+    const seen = new Set([root.contextId]);
+    while (root.parentContextId) {
+      const parent = this.byContextId.get(root.parentContextId);
+      if (!parent || seen.has(parent.contextId)) break;
+      seen.add(parent.contextId);
+      root = parent;
+    }
+
+    const forks = new Map<string, SessionMetadata[]>();
+    for (const session of this.sessions.values()) {
+      if (!session.parentContextId) continue;
+      const siblings = forks.get(session.parentContextId) ?? [];
+      siblings.push(session);
+      forks.set(session.parentContextId, siblings);
+    }
+    // A contextId reused after its session was deleted could close a cycle
+    const built = new Set<string>();
+    const build = (session: SessionMetadata): SessionTreeNode => {
+      built.add(session.contextId);
+      return {
+        ...session,
+        children: (forks.get(session.contextId) ?? [])
+          .filter((child) => !built.has(child.contextId))
+          .sort((a, b) => a.createdAt - b.createdAt)
+          .map(build),
+      };
+    };
+    return build(root);
+  }
+
   get size(): number {
     return this.sessions.size;
   }
@@ -222,6 +280,11 @@ export class SessionStore {
     this.stmtSavePid?.run(pid, contextId);
   }
 
+  /** Forget the PID of a process that has finished, so a reused PID is not taken for it. */
+  clearPid(contextId: string): void {
+    this.stmtSavePid?.run(null, contextId);
+  }
+
   /** Get the last known PID for a session's Claude process. */
   getLastPid(contextId: string): number | null {
     if (!this.stmtGetPid) return null;
@@ -271,6 +334,7 @@ export class SessionStore {
     if (session.processAlive) {
       this.onSessionEvicted?.(session.contextId);
     }
+    this.onSessionRemoved?.(session.contextId);
   }
 
   private cleanup(): void {
@@ -305,6 +369,8 @@ export class SessionStore {
         totalCostUsd: row.total_cost_usd,
         messageCount: row.message_count,
         processAlive: false, // processes don't survive restart
+        parentContextId: row.parent_context_id,
+        customization: row.customization ? JSON.parse(row.customization) as SessionCustomization : null,
       };
       this.addToIndexes(session);
       // Update the DB to reflect processAlive = false
@@ -20,6 +20,8 @@ interface TaskRow {
 export class SqliteTaskStore implements TaskStore {
   private readonly stmtUpsert: Database.Statement;
   private readonly stmtLoad: Database.Statement;
+  private readonly stmtListUnfinished: Database.Statement;
+  private readonly stmtOwner: Database.Statement;
 
   constructor(appDb: AppDatabase) {
     // client_name is set on INSERT but intentionally NOT updated on conflict —
@@ -39,6 +41,12 @@ export class SqliteTaskStore implements TaskStore {
     `);
 
     this.stmtLoad = appDb.db.prepare("SELECT * FROM tasks WHERE id = ?");
+
+    this.stmtListUnfinished = appDb.db.prepare(
+      "SELECT * FROM tasks WHERE status_state IN ('submitted', 'working') ORDER BY updated_at",
+    );
+
+    this.stmtOwner = appDb.db.prepare("SELECT client_name FROM tasks WHERE id = ?");
   }
 
   async save(task: Task, context?: ServerCallContext): Promise<void> {
@@ -65,22 +73,39 @@ export class SqliteTaskStore implements TaskStore {
       return undefined;
     }
 
-    const task: Task = {
-      id: row.id,
-      contextId: row.context_id,
-      kind: "task",
-      status: {
-        state: row.status_state as Task["status"]["state"],
-        ...(row.status_timestamp ? { timestamp: row.status_timestamp } : {}),
-        ...(row.status_message_json ? { message: JSON.parse(row.status_message_json) } : {}),
-      },
-      ...(row.artifacts_json ? { artifacts: JSON.parse(row.artifacts_json) } : {}),
-      ...(row.history_json ? { history: JSON.parse(row.history_json) } : {}),
-      ...(row.metadata_json ? { metadata: JSON.parse(row.metadata_json) } : {}),
-    };
-
-    return task;
+    return rowToTask(row);
+  }
+
+  /**
+   * Tasks still in `submitted` or `working` state, across all owners.
+   * Internal use only (startup recovery) — no tenant check.
+   */
+  listUnfinished(): Task[] {
+    const rows = this.stmtListUnfinished.all() as TaskRow[];
+    return rows.map(rowToTask);
   }
+
+  /** Client that created a task, or null if unknown. Internal use only — no tenant check. */
+  ownerOf(taskId: string): string | null {
+    const row = this.stmtOwner.get(taskId) as Pick<TaskRow, "client_name"> | undefined;
+    return row?.client_name ?? null;
+  }
+}
+
+function rowToTask(row: TaskRow): Task {
+  return {
+    id: row.id,
+    contextId: row.context_id,
+    kind: "task",
+    status: {
+      state: row.status_state as Task["status"]["state"],
+      ...(row.status_timestamp ? { timestamp: row.status_timestamp } : {}),
+      ...(row.status_message_json ? { message: JSON.parse(row.status_message_json) } : {}),
+    },
+    ...(row.artifacts_json ? { artifacts: JSON.parse(row.artifacts_json) } : {}),
+    ...(row.history_json ? { history: JSON.parse(row.history_json) } : {}),
+    ...(row.metadata_json ? { metadata: JSON.parse(row.metadata_json) } : {}),
+  };
 }
 
 /**
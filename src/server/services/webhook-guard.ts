@@ -0,0 +1,76 @@
+import { BlockList, isIP, type LookupFunction } from "node:net";
+import { lookup } from "node:dns";
+
+/**
+ * Addresses a webhook must not reach unless the operator lists its host:
+ * loopback, private, link-local (cloud metadata), CGNAT, unique-local,
+ * multicast and reserved ranges.
+ */
+const NON_PUBLIC = new BlockList();
+for (const [net, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 3],
+] as const) {
+  NON_PUBLIC.addSubnet(net, prefix, "ipv4");
+}
+for (const [net, prefix] of [
+  ["::", 127], ["64:ff9b::", 96], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8],
+] as const) {
+  NON_PUBLIC.addSubnet(net, prefix, "ipv6");
+}
+
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return false;
+  if (family === 6) {
+    // IPv4-mapped (::ffff:10.0.0.1) is checked as the IPv4 address it maps to
+    const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+    if (mapped) return isPublicAddress(mapped[1]!);
+    const hex = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i.exec(address);
+    if (hex) {
+      const [high, low] = [parseInt(hex[1]!, 16), parseInt(hex[2]!, 16)];
+      return isPublicAddress(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+    }
+    return !NON_PUBLIC.check(address, "ipv6");
+  }
+  return !NON_PUBLIC.check(address, "ipv4");
+}
+
+/** Hosts the operator listed in `push_notifications.allowed_hosts`; `*.example.com` matches subdomains. */
+export function isListedHost(host: string, allowedHosts: readonly string[]): boolean {
+  const name = host.toLowerCase();
+  return allowedHosts.some((pattern) => {
+    const p = pattern.toLowerCase();
+    return p.startsWith("*.") ? name.endsWith(p.slice(1)) : name === p;
+  });
+}
+
+/** URL hostname without IPv6 brackets. */
+export function webhookHost(url: URL): string {
+  return url.hostname.replace(/^\[(.*)\]$/, "$1");
+}
+
+/**
+ * A socket `lookup` that fails with BlockedAddressError when any address of
+ * the host is non-public. Checking at connect time, on the addresses actually
+ * used, leaves no gap for DNS answers that change after registration.
+ */
+export function publicOnlyLookup(): LookupFunction {
+  return (hostname, options, callback) => {
+    lookup(hostname, { ...options, all: true }, (err, addresses) => {
+      if (err) return callback(err, "", 0);
+      const blocked = addresses.find((a) => !isPublicAddress(a.address));
+      if (blocked) return callback(new BlockedAddressError(hostname, blocked.address), "", 0);
+      if (options.all) return callback(null, addresses);
+      callback(null, addresses[0]!.address, addresses[0]!.family);
+    });
+  };
+}
+
+/** Raised when a webhook host is or resolves to a non-public address. Not retried. */
+export class BlockedAddressError extends Error {
+  constructor(host: string, address: string) {
+    super(`Push notification host ${host} resolves to non-public address ${address}`);
+    this.name = "BlockedAddressError";
+  }
+}
@@ -0,0 +1,320 @@
+import { execFile } from "node:child_process";
+import { createHash } from "node:crypto";
+import { constants } from "node:fs";
+import { cp, mkdir, readFile, readdir, rm, writeFile } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import { promisify } from "node:util";
+import type { Logger } from "pino";
+import type { AgentConfig, Config } from "../config.js";
+
+const execFileAsync = promisify(execFile);
+
+/** Diffs larger than this are cut off; the artifact says so. */
+const MAX_DIFF_CHARS = 1_000_000;
+
+/** Hidden ref namespace holding per-task checkpoints; not shown by `git branch` or `git tag`. */
+const CHECKPOINT_REFS = "refs/claude-a2a/checkpoints";
+
+/**
+ * What is known about a workspace, persisted as `workspace.json` in its
+ * root so it survives restarts.
+ */
+interface WorkspaceMeta {
+  contextId: string;
+  /** `worktree`: git worktree of the agent's repo. `copy`: copy of a non-git dir. */
+  kind: "worktree" | "copy";
+  /** The agent's work_dir the workspace was made from. */
+  source: string;
+  /** Repository containing `source` (worktrees only). */
+  repo: string | null;
+  /** Path of `source` inside its repository, e.g. `packages/api/` (worktrees only). */
+  prefix: string;
+  /** Tree hash of the workspace as of the last snapshot. */
+  snapshot: string;
+}
+
+/**
+ * Per-context working directories for agents with `workspace: isolated`.
+ *
+ * Each context gets `<data_dir>/workspaces/<hash of contextId>/tree`: a git
+ * worktree of the agent's repository at HEAD, or a copy (reflinked where the
+ * filesystem supports it) when work_dir is not in a repository. Copies get a
+ * git object store of their own next to the tree, outside Claude's view.
+ *
+ * Changes are tracked as git tree snapshots written through a private index
+ * file, so neither the workspace's own index nor its history are touched.
+ * checkpoint() records the snapshot after a task's turn under a hidden ref
+ * and returns what changed since the previous one; rollback() restores it.
+ */
+export class WorkspaceManager {
+  private readonly baseDir: string;
+  private readonly defaultWorkDir: string;
+  private readonly log: Logger;
+  /** Workspaces being created, so concurrent messages on a context share one. */
+  private readonly pending = new Map<string, Promise<string>>();
+
+  constructor(config: Config, log: Logger) {
+    this.baseDir = resolve(config.data_dir, "workspaces");
+    this.defaultWorkDir = config.claude.work_dir ?? process.cwd();
+    this.log = log.child({ component: "workspace-manager" });
+  }
+
+  /**
+   * Create the context's workspace if it does not exist yet and return the
+   * directory Claude should run in. A fork (`forkOf`) starts from its
+   * parent's workspace as of the parent's last snapshot.
+   */
+  async prepare(contextId: string, agentConfig: AgentConfig, forkOf?: string): Promise<string> {
+    const existing = await this.readMeta(contextId);
+    if (existing) return this.workDir(existing);
+
+    let creating = this.pending.get(contextId);
+    if (!creating) {
+      creating = this.create(contextId, agentConfig.work_dir ?? this.defaultWorkDir, forkOf)
+        .finally(() => this.pending.delete(contextId));
+      this.pending.set(contextId, creating);
+    }
+    return creating;
+  }
+
+  /**
+   * Record the workspace as the checkpoint of `taskId` and return a unified
+   * diff of the changes since the previous checkpoint (or since the
+   * workspace was created). Null if the context has no workspace or
+   * nothing changed.
+   */
+  async checkpoint(contextId: string, taskId: string): Promise<string | null> {
+    const meta = await this.readMeta(contextId);
+    if (!meta) return null;
+
+    const snapshot = await this.snapshot(meta);
+    // The ref also keeps the tree from being garbage-collected
+    await this.git(meta, ["update-ref", this.checkpointRef(contextId, taskId), snapshot]);
+    if (snapshot === meta.snapshot) return null;
+
+    const diff = await this.git(meta, ["diff", "--no-color", "--no-ext-diff", meta.snapshot, snapshot]);
+    await this.writeMeta({ ...meta, snapshot });
+    if (!diff) return null;
+    return diff.length > MAX_DIFF_CHARS
+      ? `${diff.slice(0, MAX_DIFF_CHARS)}\n[diff truncated at ${MAX_DIFF_CHARS} characters]\n`
+      : diff;
+  }
+
+  /** Whether `taskId` left a checkpoint in the context's workspace. */
+  async hasCheckpoint(contextId: string, taskId: string): Promise<boolean> {
+    return (await this.resolveCheckpoint(contextId, taskId)) !== null;
+  }
+
+  /**
+   * Restore the workspace's files to the checkpoint of `taskId`. Files
+   * created since are deleted; ignored files are left alone. The next
+   * checkpoint diffs against the restored state.
+   */
+  async rollback(contextId: string, taskId: string): Promise<void> {
+    const meta = await this.readMeta(contextId);
+    const tree = meta && await this.resolveCheckpoint(contextId, taskId);
+    if (!meta || !tree) {
+      throw new WorkspaceError(`No checkpoint for task "${taskId}" in context "${contextId}"`);
+    }
+
+    // The snapshot index must list every current file so read-tree removes the extra ones
+    await this.snapshot(meta);
+    await this.git(meta, ["read-tree", "--reset", "-u", tree]);
+    await this.writeMeta({ ...meta, snapshot: tree });
+    this.log.info({ contextId, taskId }, "workspace rolled back");
+  }
+
+  /** Delete a context's workspace. Safe to call for contexts without one. */
+  async remove(contextId: string): Promise<void> {
+    const meta = await this.readMeta(contextId);
+    const root = this.rootOf(contextId);
+    if (meta?.kind === "worktree" && meta.repo) {
+      // Checkpoint refs live in the shared repository, not in the worktree
+      await this.deleteCheckpointRefs(meta).catch((err: unknown) => {
+        this.log.warn(
+          { contextId, error: err instanceof Error ? err.message : String(err) },
+          "failed to delete checkpoint refs",
+        );
+      });
+      try {
+        await execFileAsync("git", ["-C", meta.repo, "worktree", "remove", "--force", join(root, "tree")]);
+      } catch (err) {
+        this.log.warn(
+          { contextId, error: err instanceof Error ? err.message : String(err) },
+          "git worktree remove failed; deleting the directory",
+        );
+      }
+    }
+    await rm(root, { recursive: true, force: true });
+    if (meta?.kind === "worktree" && meta.repo) {
+      await execFileAsync("git", ["-C", meta.repo, "worktree", "prune"]).catch(() => {});
+    }
+    if (meta) this.log.info({ contextId }, "workspace removed");
+  }
+
+  /**
+   * Remove workspaces whose context is no longer wanted, e.g. ones whose
+   * removal a crash cut short. Returns the number removed.
+   */
+  async sweep(keep: (contextId: string) => boolean): Promise<number> {
+    let entries: string[];
+    try {
+      entries = await readdir(this.baseDir);
+    } catch {
+      return 0;
+    }
+
+    let removed = 0;
+    for (const entry of entries) {
+      const meta = await this.readMetaAt(join(this.baseDir, entry));
+      if (meta && keep(meta.contextId)) continue;
+      if (meta) {
+        await this.remove(meta.contextId);
+      } else {
+        await rm(join(this.baseDir, entry), { recursive: true, force: true });
+      }
+      removed++;
+    }
+    if (removed > 0) this.log.info({ removed }, "swept stale workspaces");
+    return removed;
+  }
+
+  private async create(contextId: string, source: string, forkOf?: string): Promise<string> {
+    const root = this.rootOf(contextId);
+    const tree = join(root, "tree");
+    const parent = forkOf ? await this.readMeta(forkOf) : null;
+    await rm(root, { recursive: true, force: true });
+    await mkdir(root, { recursive: true });
+
+    try {
+      let meta: WorkspaceMeta;
+      const repo = await this.findRepo(source);
+      if (repo) {
+        await execFileAsync("git", ["-C", repo.toplevel, "worktree", "add", "--detach", tree, "HEAD"]);
+        meta = { contextId, kind: "worktree", source, repo: repo.toplevel, prefix: repo.prefix, snapshot: "" };
+        if (parent?.kind === "worktree" && parent.repo === repo.toplevel) {
+          // Worktrees share the object store, so the parent's snapshot can be checked out here
+          await this.git(meta, ["read-tree", "--reset", "-u", parent.snapshot]);
+        }
+      } else if (parent?.kind === "copy" && parent.source === source) {
+        await cp(this.rootOf(forkOf!), root, { recursive: true, force: true, mode: constants.COPYFILE_FICLONE });
+        meta = { ...parent, contextId };
+      } else {
+        await cp(source, tree, {
+          recursive: true,
+          mode: constants.COPYFILE_FICLONE,
+          filter: (path) => !resolve(path).startsWith(this.baseDir),
+        });
+        await execFileAsync("git", ["init", "--quiet", "--bare", join(root, "git")]);
+        meta = { contextId, kind: "copy", source, repo: null, prefix: "", snapshot: "" };
+      }
+
+      meta.snapshot = await this.snapshot(meta);
+      await this.writeMeta(meta);
+      this.log.info({ contextId, kind: meta.kind, source, forkOf }, "workspace created");
+      return this.workDir(meta);
+    } catch (err) {
+      await rm(root, { recursive: true, force: true });
+      throw new WorkspaceError(
+        `Could not create workspace for context "${contextId}": ${err instanceof Error ? err.message : String(err)}`,
+      );
+    }
+  }
+
+  private async findRepo(dir: string): Promise<{ toplevel: string; prefix: string } | null> {
+    try {
+      const { stdout } = await execFileAsync("git", ["-C", dir, "rev-parse", "--show-toplevel", "--show-prefix"]);
+      const [toplevel, prefix = ""] = stdout.split("\n");
+      return toplevel ? { toplevel, prefix } : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async resolveCheckpoint(contextId: string, taskId: string): Promise<string | null> {
+    const meta = await this.readMeta(contextId);
+    if (!meta) return null;
+    try {
+      const ref = `${this.checkpointRef(contextId, taskId)}^{tree}`;
+      return (await this.git(meta, ["rev-parse", "--verify", "--quiet", ref])).trim() || null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async deleteCheckpointRefs(meta: WorkspaceMeta): Promise<void> {
+    const prefix = `${CHECKPOINT_REFS}/${hashId(meta.contextId)}/`;
+    const refs = await this.git(meta, ["for-each-ref", "--format=%(refname)", prefix]);
+    for (const ref of refs.split("\n").filter(Boolean)) {
+      await this.git(meta, ["update-ref", "-d", ref]);
+    }
+  }
+
+  /** Per-context namespace so worktrees of one repository keep their checkpoints apart. */
+  private checkpointRef(contextId: string, taskId: string): string {
+    return `${CHECKPOINT_REFS}/${hashId(contextId)}/${hashId(taskId)}`;
+  }
+
+  /** Record the workspace's current files as a tree object; returns its hash. */
+  private async snapshot(meta: WorkspaceMeta): Promise<string> {
+    await this.git(meta, ["add", "--all"]);
+    return (await this.git(meta, ["write-tree"])).trim();
+  }
+
+  /** Run git against a workspace, with the private snapshot index. */
+  private async git(meta: WorkspaceMeta, args: string[]): Promise<string> {
+    const root = this.rootOf(meta.contextId);
+    const env: NodeJS.ProcessEnv = { ...process.env, GIT_INDEX_FILE: join(root, "snapshot.index") };
+    if (meta.kind === "copy") {
+      env["GIT_DIR"] = join(root, "git");
+      env["GIT_WORK_TREE"] = join(root, "tree");
+    }
+    const { stdout } = await execFileAsync("git", args, {
+      cwd: join(root, "tree"),
+      env,
+      maxBuffer: 64 * 1024 * 1024,
+    });
+    return stdout;
+  }
+
+  private workDir(meta: WorkspaceMeta): string {
+    return join(this.rootOf(meta.contextId), "tree", meta.prefix);
+  }
+
+  private rootOf(contextId: string): string {
+    return join(this.baseDir, hashId(contextId));
+  }
+
+
+  private readMeta(contextId: string): Promise<WorkspaceMeta | null> {
+    return this.readMetaAt(this.rootOf(contextId));
+  }
+
+  private async readMetaAt(root: string): Promise<WorkspaceMeta | null> {
+    try {
+      return JSON.parse(await readFile(join(root, "workspace.json"), "utf-8")) as WorkspaceMeta;
+    } catch {
+      return null;
+    }
+  }
+
+  private async writeMeta(meta: WorkspaceMeta): Promise<void> {
+    await writeFile(join(this.rootOf(meta.contextId), "workspace.json"), JSON.stringify(meta, null, 2));
+  }
+}
+
+/** IDs come from clients, so they are hashed rather than used as path or ref segments. */
+function hashId(id: string): string {
+  return createHash("sha256").update(id).digest("hex").slice(0, 32);
+}
+
+// ---------------------------------------------------------------------------
+// Error classes
+// ---------------------------------------------------------------------------
+
+export class WorkspaceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WorkspaceError";
+  }
+}
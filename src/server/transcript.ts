@@ -0,0 +1,230 @@
+import { open, readdir } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { z } from "zod";
+import type { TokenUsage } from "./context-window.js";
+import { estimateCostUsd } from "./pricing.js";
+
+// ---------------------------------------------------------------------------
+// Transcript schemas (loose parsing: the format is internal to the CLI)
+// ---------------------------------------------------------------------------
+
+const TranscriptUsageSchema = z.object({
+  input_tokens: z.number().default(0),
+  output_tokens: z.number().default(0),
+  cache_creation_input_tokens: z.number().default(0),
+  cache_read_input_tokens: z.number().default(0),
+}).passthrough();
+
+const TranscriptEntrySchema = z.object({
+  type: z.string(),
+  /** Subagent (Task tool) traffic, not part of the main conversation. */
+  isSidechain: z.boolean().optional(),
+  /** Caveats and command output the CLI injects as user messages. */
+  isMeta: z.boolean().optional(),
+  timestamp: z.string().optional(),
+  /** Written by older CLI versions. */
+  costUSD: z.number().optional(),
+  /** An API error the CLI wrote as an assistant message in place of an answer. */
+  isApiErrorMessage: z.boolean().optional(),
+  message: z.object({
+    id: z.string().optional(),
+    model: z.string().optional(),
+    content: z.union([
+      z.string(),
+      z.array(z.object({ type: z.string(), text: z.string().optional() }).passthrough()),
+    ]).optional(),
+    usage: TranscriptUsageSchema.optional(),
+    /** "end_turn" on the answer; "tool_use" when tools run next; null on partial entries. */
+    stop_reason: z.string().nullable().optional(),
+  }).passthrough().optional(),
+}).passthrough();
+
+type TranscriptEntry = z.infer<typeof TranscriptEntrySchema>;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** The latest turn of a transcript, as far as it has been written. */
+export interface TranscriptTurn {
+  /** Text of the last assistant message: the turn's answer once it is done. */
+  text: string;
+  /** The last assistant message is an API error, not an answer. */
+  isError: boolean;
+  /** Why the last assistant message stopped: "end_turn" once the turn is done. */
+  stopReason: string | null;
+  model: string;
+  /** Summed over the turn's API calls. */
+  usage: TokenUsage;
+  costUsd: number;
+  /** No cost in the transcript; computed from usage at list prices. */
+  costEstimated: boolean;
+  apiCalls: number;
+  /** Times of the prompt and the last entry, in ms since the epoch. */
+  startedAt: number | null;
+  updatedAt: number | null;
+}
+
+/** One API response. Newer CLIs write one entry per content block, all with the same message ID. */
+interface ApiCall {
+  model: string;
+  usage: TokenUsage;
+  costUsd: number | null;
+  text: string[];
+  isError: boolean;
+  stopReason: string | null;
+}
+
+/** Claude's config directory, where it keeps session transcripts. */
+export function claudeConfigDir(): string {
+  return process.env["CLAUDE_CONFIG_DIR"] ?? join(homedir(), ".claude");
+}
+
+// ---------------------------------------------------------------------------
+// TranscriptTail
+// ---------------------------------------------------------------------------
+
+/**
+ * Follows the JSONL transcript the Claude CLI writes for a session
+ * (`<config dir>/projects/<project>/<session-id>.jsonl`), keeping track of
+ * the latest turn: everything after the last prompt.
+ */
+export class TranscriptTail {
+  readonly path: string;
+  private offset = 0;
+  private remainder = Buffer.alloc(0);
+  private calls = new Map<string, ApiCall>();
+  private lastCallId: string | null = null;
+  private startedAt: number | null = null;
+  private updatedAt: number | null = null;
+  private prompted = false;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  /**
+   * Locate a session's transcript. The project directory is derived from the
+   * CLI's working directory, so every project is searched.
+   */
+  static async find(sessionId: string, configDir = claudeConfigDir()): Promise<TranscriptTail | null> {
+    const projectsDir = join(configDir, "projects");
+    let projects: string[];
+    try {
+      projects = await readdir(projectsDir);
+    } catch {
+      return null;
+    }
+    for (const project of projects) {
+      try {
+        const path = join(projectsDir, project, `${sessionId}.jsonl`);
+        await (await open(path, "r")).close();
+        return new TranscriptTail(path);
+      } catch {
+        // Not in this project
+      }
+    }
+    return null;
+  }
+
+  /** Read what was appended since the last call. A partial last line waits for the next one. */
+  async read(): Promise<void> {
+    const file = await open(this.path, "r");
+    try {
+      const { size } = await file.stat();
+      if (size <= this.offset) return;
+      const chunk = Buffer.alloc(size - this.offset);
+      const { bytesRead } = await file.read(chunk, 0, chunk.length, this.offset);
+      this.offset += bytesRead;
+
+      const data = Buffer.concat([this.remainder, chunk.subarray(0, bytesRead)]);
+      const end = data.lastIndexOf(0x0a);
+      this.remainder = Buffer.from(data.subarray(end + 1));
+      if (end === -1) return;
+      for (const line of data.subarray(0, end).toString("utf-8").split("\n")) {
+        if (line.trim()) this.processLine(line);
+      }
+    } finally {
+      await file.close();
+    }
+  }
+
+  /** The latest turn, or null before any prompt was seen. */
+  get turn(): TranscriptTurn | null {
+    if (!this.prompted) return null;
+    const usage = emptyUsage();
+    let costUsd = 0;
+    let costEstimated = false;
+    for (const call of this.calls.values()) {
+      usage.input_tokens += call.usage.input_tokens;
+      usage.output_tokens += call.usage.output_tokens;
+      usage.cache_creation_input_tokens += call.usage.cache_creation_input_tokens;
+      usage.cache_read_input_tokens += call.usage.cache_read_input_tokens;
+      if (call.costUsd !== null) {
+        costUsd += call.costUsd;
+      } else {
+        costUsd += estimateCostUsd(call.usage, call.model);
+        costEstimated = true;
+      }
+    }
+    const last = this.lastCallId ? this.calls.get(this.lastCallId) : undefined;
+    return {
+      text: last?.text.join("") ?? "",
+      isError: last?.isError ?? false,
+      stopReason: last?.stopReason ?? null,
+      model: last?.model ?? "unknown",
+      usage,
+      costUsd,
+      costEstimated,
+      apiCalls: this.calls.size,
+      startedAt: this.startedAt,
+      updatedAt: this.updatedAt,
+    };
+  }
+
+  private processLine(line: string): void {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      return;
+    }
+    const entry = TranscriptEntrySchema.safeParse(parsed);
+    if (!entry.success || entry.data.isSidechain) return;
+    const timestamp = entry.data.timestamp ? Date.parse(entry.data.timestamp) : NaN;
+
+    if (entry.data.type === "user" && !entry.data.isMeta && isPrompt(entry.data)) {
+      this.prompted = true;
+      this.calls = new Map();
+      this.lastCallId = null;
+      this.startedAt = Number.isNaN(timestamp) ? null : timestamp;
+    } else if (entry.data.type === "assistant" && entry.data.message) {
+      const { id = `entry-${this.calls.size}`, model, content, usage, stop_reason: stopReason } = entry.data.message;
+      const call = this.calls.get(id) ??
+        { model: model ?? "unknown", usage: emptyUsage(), costUsd: null, text: [], isError: false, stopReason: null };
+      // Every entry of a split message repeats the usage; the last is final
+      if (usage) call.usage = usage;
+      if (entry.data.costUSD !== undefined) call.costUsd = entry.data.costUSD;
+      if (entry.data.isApiErrorMessage) call.isError = true;
+      if (stopReason) call.stopReason = stopReason;
+      for (const block of Array.isArray(content) ? content : []) {
+        if (block.type === "text" && block.text) call.text.push(block.text);
+      }
+      this.calls.set(id, call);
+      this.lastCallId = id;
+    }
+    if (!Number.isNaN(timestamp)) this.updatedAt = timestamp;
+  }
+}
+
+/** A user entry with something the user typed, as opposed to tool results. */
+function isPrompt(entry: TranscriptEntry): boolean {
+  const content = entry.message?.content;
+  if (typeof content === "string") return true;
+  return !!content && content.some((block) => block.type !== "tool_result");
+}
+
+function emptyUsage(): TokenUsage {
+  return { input_tokens: 0, output_tokens: 0, cache_creation_input_tokens: 0, cache_read_input_tokens: 0 };
+}
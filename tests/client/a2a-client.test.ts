@@ -185,6 +185,44 @@ describe("A2AClient", () => {
     });
   });
 
+  // -- non-blocking send and getTask --
+
+  describe("non-blocking", () => {
+    it("sends blocking: false when requested", async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({ jsonrpc: "2.0", id: "1", result: {} }));
+
+      await makeClient().sendMessage("Refactor everything", { blocking: false });
+
+      const call = mockFetch.mock.calls[0]!;
+      const body = JSON.parse((call[1] as RequestInit).body as string);
+      expect(body.params.configuration.blocking).toBe(false);
+    });
+
+    it("getTask sends tasks/get", async () => {
+      const task = { id: "task-1", status: { state: "working" } };
+      mockFetch.mockResolvedValueOnce(jsonResponse({ jsonrpc: "2.0", id: "1", result: task }));
+
+      const result = await makeClient().getTask("task-1", 5);
+
+      const call = mockFetch.mock.calls[0]!;
+      expect(call[0]).toBe("http://localhost:8462/a2a/jsonrpc");
+      const body = JSON.parse((call[1] as RequestInit).body as string);
+      expect(body.method).toBe("tasks/get");
+      expect(body.params).toEqual({ id: "task-1", historyLength: 5 });
+      expect(result).toEqual(task);
+    });
+
+    it("getTask surfaces JSON-RPC errors", async () => {
+      mockFetch.mockResolvedValueOnce(
+        jsonResponse({ jsonrpc: "2.0", id: "1", error: { code: -32001, message: "Task not found" } }),
+      );
+
+      await expect(makeClient().getTask("nope")).rejects.toThrow(
+        "A2A error: Task not found (code: -32001)",
+      );
+    });
+  });
+
   // -- getHealth --
 
   describe("getHealth", () => {
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
-import { runInit } from "../src/init.js";
+import { parseMcpServer, runInit } from "../src/init.js";
 import {
   readFileSync,
   existsSync,
@@ -8,7 +8,7 @@ import {
   writeFileSync,
 } from "node:fs";
 import { join } from "node:path";
-import { parse as parseYaml } from "yaml";
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
 import { loadConfig } from "../src/server/config.js";
 
 const tmpDir = join(import.meta.dirname, ".tmp-init-test");
@@ -40,22 +40,18 @@ describe("runInit --yes", () => {
     expect(agents["default"]["max_budget_usd"]).toBe(1.0);
   });
 
-  it("creates .claude/settings.json with all tools", async () => {
+  it("puts the tool permissions in config.yaml, not the project", async () => {
     await runInit({ yes: true, dir: tmpDir });
 
-    const settingsPath = join(tmpDir, ".claude", "settings.json");
-    expect(existsSync(settingsPath)).toBe(true);
-
-    const settings = JSON.parse(readFileSync(settingsPath, "utf-8"));
-    expect(settings.permissions.allow).toContain("Read(*)");
-    expect(settings.permissions.allow).toContain("Write(*)");
-    expect(settings.permissions.allow).toContain("Edit(*)");
-    expect(settings.permissions.allow).toContain("Glob(*)");
-    expect(settings.permissions.allow).toContain("Grep(*)");
-    expect(settings.permissions.allow).toContain("Bash(*)");
+    const parsed = parseYaml(readFileSync(join(tmpDir, "config.yaml"), "utf-8")) as Record<string, unknown>;
+    const agent = (parsed["agents"] as Record<string, Record<string, unknown>>)["default"]!;
+    const allow = (agent["permissions"] as { allow: string[] }).allow;
+    expect(allow).toEqual(["Read(*)", "Write(*)", "Edit(*)", "Glob(*)", "Grep(*)", "Bash(*)"]);
+    expect(agent["settings_file"]).toBeUndefined();
+    expect(existsSync(join(tmpDir, ".claude"))).toBe(false);
   });
 
-  it("does not overwrite existing settings.json", async () => {
+  it("uses an existing settings.json as is", async () => {
     const claudeDir = join(tmpDir, ".claude");
     mkdirSync(claudeDir, { recursive: true });
     writeFileSync(
@@ -71,6 +67,10 @@ describe("runInit --yes", () => {
     );
     expect(settings.existing).toBe(true);
     expect(settings.permissions).toBeUndefined();
+
+    const config = loadConfig(join(tmpDir, "config.yaml"));
+    expect(config.agents["default"]!.settings_file).toBe(join(claudeDir, "settings.json"));
+    expect(config.agents["default"]!.permissions).toBeNull();
   });
 
   it("generated YAML is parseable by loadConfig", async () => {
@@ -84,3 +84,31 @@ describe("runInit --yes", () => {
     expect(config.data_dir).toBe("./data");
   });
 });
+
+describe("parseMcpServer", () => {
+  it("reads a URL as a remote server and anything else as a command", () => {
+    expect(parseMcpServer("https://mcp.example.com/mcp")).toEqual({ url: "https://mcp.example.com/mcp" });
+    expect(parseMcpServer("npx -y @modelcontextprotocol/server-github")).toEqual({
+      command: "npx",
+      args: ["-y", "@modelcontextprotocol/server-github"],
+    });
+  });
+
+  it("produces entries loadConfig accepts", () => {
+    const configPath = join(tmpDir, "mcp.yaml");
+    writeFileSync(configPath, stringifyYaml({
+      agents: {
+        default: {
+          mcp_servers: {
+            github: parseMcpServer("npx -y @modelcontextprotocol/server-github"),
+            docs: parseMcpServer("https://mcp.example.com/mcp"),
+          },
+        },
+      },
+    }));
+
+    const servers = loadConfig(configPath).agents["default"]!.mcp_servers;
+    expect(servers["github"]).toMatchObject({ command: "npx" });
+    expect(servers["docs"]).toMatchObject({ type: "http", url: "https://mcp.example.com/mcp" });
+  });
+});
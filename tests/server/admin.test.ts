@@ -1,14 +1,19 @@
-import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import express, { type Request, type Response, type NextFunction } from "express";
 import request from "supertest";
 import pino from "pino";
-import { CreateTokenSchema, adminRouter } from "../../src/server/routes/admin.js";
+import { CreateTokenSchema, adminRouter, type AdminRouterOptions } from "../../src/server/routes/admin.js";
 import { loadConfig } from "../../src/server/config.js";
 import type { Config } from "../../src/server/config.js";
 import type { AuthContext } from "../../src/server/auth/middleware.js";
 import { AppDatabase } from "../../src/server/services/database.js";
 import { SessionStore } from "../../src/server/services/session-store.js";
 import { BudgetTracker } from "../../src/server/services/budget-tracker.js";
+import { SqlitePushNotificationStore } from "../../src/server/services/push-notification-store.js";
+import { WebhookPushSender } from "../../src/server/services/push-notification-sender.js";
+import { ProcessTracker } from "../../src/server/services/process-tracker.js";
+import { ClaudeRunner } from "../../src/server/claude-runner.js";
+import type { ProcessInfo } from "../../src/server/proc.js";
 import {
   createToken,
   createRefreshToken,
@@ -39,12 +44,16 @@ describe("CreateTokenSchema", () => {
       scopes: ["agent:general", "agent:code"],
       budget_daily_usd: 10,
       rate_limit_rpm: 60,
+      queue_priority: 3,
+      allowed_models: ["claude-haiku-4-5"],
       expires_hours: 24,
     });
     expect(result.success).toBe(true);
     if (result.success) {
       expect(result.data.budget_daily_usd).toBe(10);
       expect(result.data.rate_limit_rpm).toBe(60);
+      expect(result.data.queue_priority).toBe(3);
+      expect(result.data.allowed_models).toEqual(["claude-haiku-4-5"]);
       expect(result.data.expires_hours).toBe(24);
     }
   });
@@ -139,14 +148,14 @@ describe("adminRouter", () => {
 
   // -- Helpers --
 
-  function buildApp(authContext: AuthContext): express.Express {
+  function buildApp(authContext: AuthContext, options?: AdminRouterOptions): express.Express {
     const app = express();
     app.use(express.json());
     app.use((_req: Request, _res: Response, next: NextFunction) => {
       _req.authContext = authContext;
       next();
     });
-    app.use(adminRouter(config, sessionStore, budgetTracker));
+    app.use(adminRouter(config, sessionStore, budgetTracker, options));
     return app;
   }
 
@@ -342,6 +351,115 @@ describe("adminRouter", () => {
     });
   });
 
+  // -- GET /sessions/tree --
+
+  describe("GET /sessions/tree", () => {
+    it("returns the fork tree containing the context", async () => {
+      sessionStore.create("s1", "general", "alice", "ctx-1", "task-1");
+      sessionStore.create("s2", "general", "alice", "ctx-2", "task-2", "ctx-1");
+
+      const res = await request(masterApp()).get("/sessions/tree?context_id=ctx-2");
+      expect(res.status).toBe(200);
+      expect(res.body.tree).toMatchObject({
+        contextId: "ctx-1",
+        children: [{ contextId: "ctx-2", parentContextId: "ctx-1", children: [] }],
+      });
+    });
+
+    it("returns 404 for an unknown context and 400 without one", async () => {
+      expect((await request(masterApp()).get("/sessions/tree?context_id=nope")).status).toBe(404);
+      expect((await request(masterApp()).get("/sessions/tree")).status).toBe(400);
+    });
+  });
+
+  // -- GET /sessions/:id and DELETE /sessions/:id/processes/:pid --
+
+  describe("session processes", () => {
+    const master = { type: "master", clientName: "master", scopes: ["*"] } as const;
+
+    function proc(pid: number, command: string): ProcessInfo {
+      return { pid, ppid: 100, pgid: 100, command, cpuSeconds: 1.5, rssBytes: 4096, startedAt: Date.now() - 90_000 };
+    }
+
+    function tracker(): ProcessTracker {
+      const fake = new ProcessTracker(log, {
+        processGroups: () => new Map(),
+        getSessionPid: () => undefined,
+        forgetProcessGroup: () => {},
+      });
+      vi.spyOn(fake, "forContext").mockResolvedValue({
+        claude: proc(100, "claude -p"),
+        children: [proc(101, "npm run dev")],
+      });
+      vi.spyOn(fake, "killChild").mockImplementation(async (_contextId, pid) => (pid === 101 ? [101, 102] : null));
+      return fake;
+    }
+
+    it("returns the session with its Claude process and children", async () => {
+      sessionStore.create("s1", "general", "alice", "ctx-1", "task-1");
+      const processTracker = tracker();
+
+      const res = await request(buildApp(master, { processTracker })).get("/sessions/s1");
+      expect(res.status).toBe(200);
+      expect(res.body.session).toMatchObject({ sessionId: "s1", contextId: "ctx-1" });
+      expect(res.body.process).toMatchObject({ pid: 100, command: "claude -p" });
+      expect(res.body.children).toEqual([
+        { pid: 101, ppid: 100, command: "npm run dev", cpu_seconds: 1.5, rss_bytes: 4096, age_seconds: 90 },
+      ]);
+      expect(processTracker.forContext).toHaveBeenCalledWith("ctx-1");
+    });
+
+    it("returns just the session without process tracking, and 404 for unknown sessions", async () => {
+      sessionStore.create("s1", "general", "alice", "ctx-1", "task-1");
+
+      const res = await request(masterApp()).get("/sessions/s1");
+      expect(res.body).toEqual({ session: expect.objectContaining({ sessionId: "s1" }) });
+      expect((await request(masterApp()).get("/sessions/nope")).status).toBe(404);
+    });
+
+    it("reports whether the live session is working or stuck", async () => {
+      sessionStore.create("s1", "general", "alice", "ctx-1", "task-1");
+      sessionStore.create("s2", "general", "alice", "ctx-2", "task-2");
+      const runner = new ClaudeRunner(config, log);
+      const lastOutputAt = Date.now() - 1_200_000;
+      vi.spyOn(runner, "getSessionActivity").mockImplementation((contextId) =>
+        contextId === "ctx-1"
+          ? { state: "processing", working: true, lastOutputAt, silentSince: lastOutputAt }
+          : undefined,
+      );
+      vi.spyOn(runner, "silentContexts").mockReturnValue(["ctx-1"]);
+      const app = buildApp(master, { runner });
+
+      const detail = await request(app).get("/sessions/s1");
+      expect(detail.body.activity).toEqual({ state: "processing", working: true, silent_seconds: 1200, stuck: true });
+      expect((await request(app).get("/sessions/s2")).body.activity).toBeNull();
+
+      const silent = await request(app).get("/sessions?silent=true");
+      expect(silent.body.sessions.map((s: { sessionId: string }) => s.sessionId)).toEqual(["s1"]);
+    });
+
+    it("kills a child", async () => {
+      sessionStore.create("s1", "general", "alice", "ctx-1", "task-1");
+      const processTracker = tracker();
+
+      const res = await request(buildApp(master, { processTracker })).delete("/sessions/s1/processes/101?signal=SIGKILL");
+      expect(res.status).toBe(200);
+      expect(res.body).toEqual({ killed: [101, 102], signal: "SIGKILL", session_id: "s1" });
+      expect(processTracker.killChild).toHaveBeenCalledWith("ctx-1", 101, "SIGKILL");
+    });
+
+    it("rejects processes that are not children of the session", async () => {
+      sessionStore.create("s1", "general", "alice", "ctx-1", "task-1");
+      const app = buildApp(master, { processTracker: tracker() });
+
+      expect((await request(app).delete("/sessions/s1/processes/100")).status).toBe(404);
+      expect((await request(app).delete("/sessions/nope/processes/101")).status).toBe(404);
+      expect((await request(app).delete("/sessions/s1/processes/abc")).status).toBe(400);
+      expect((await request(app).delete("/sessions/s1/processes/101?signal=SIGSTOP")).status).toBe(400);
+      expect((await request(masterApp()).delete("/sessions/s1/processes/101")).status).toBe(404);
+    });
+  });
+
   // -- DELETE /sessions/:id --
 
   describe("DELETE /sessions/:id", () => {
@@ -361,6 +479,53 @@ describe("adminRouter", () => {
     });
   });
 
+  // -- GET /push-deliveries --
+
+  describe("GET /push-deliveries", () => {
+    function insertDelivery(taskId: string, state: string): void {
+      appDb.db
+        .prepare(
+          "INSERT INTO push_deliveries (task_id, config_id, url, task_state, status, attempts) VALUES (?, ?, ?, ?, 'delivered', 1)",
+        )
+        .run(taskId, taskId, "https://hooks.example.com/a2a", state);
+    }
+
+    it("returns 404 when push notifications are disabled", async () => {
+      const res = await request(masterApp()).get("/push-deliveries");
+      expect(res.status).toBe(404);
+    });
+
+    it("lists deliveries, optionally filtered by task", async () => {
+      config.push_notifications.signing_secret = "server-secret";
+      const pushSender = new WebhookPushSender(
+        config,
+        log,
+        appDb,
+        new SqlitePushNotificationStore(appDb),
+      );
+      insertDelivery("task-1", "working");
+      insertDelivery("task-1", "completed");
+      insertDelivery("task-2", "working");
+      const app = buildApp(
+        { type: "master", clientName: "master", scopes: ["*"] },
+        { pushSender },
+      );
+
+      const all = await request(app).get("/push-deliveries");
+      expect(all.status).toBe(200);
+      expect(all.body.count).toBe(3);
+
+      const filtered = await request(app).get("/push-deliveries?task_id=task-1&limit=1");
+      expect(filtered.body.count).toBe(1);
+      expect(filtered.body.deliveries[0]).toMatchObject({
+        taskId: "task-1",
+        taskState: "completed",
+        status: "delivered",
+        attempts: 1,
+      });
+    });
+  });
+
   // -- GET /stats --
 
   describe("GET /stats", () => {
@@ -377,6 +542,20 @@ describe("adminRouter", () => {
       expect(res.body.budget.global_spent).toBe(0.5);
       expect(res.body.budget.global_limit).toBe(config.budgets.global_daily_limit_usd);
       expect(res.body.budget.clients).toHaveProperty("alice", 0.5);
+      expect(res.body).not.toHaveProperty("background_processes");
+    });
+
+    it("counts background processes when they are tracked", async () => {
+      const processTracker = new ProcessTracker(log, {
+        processGroups: () => new Map(),
+        getSessionPid: () => undefined,
+        forgetProcessGroup: () => {},
+      });
+      vi.spyOn(processTracker, "countChildren").mockResolvedValue(3);
+
+      const res = await request(buildApp({ type: "master", clientName: "master", scopes: ["*"] }, { processTracker })).get("/stats");
+      expect(res.status).toBe(200);
+      expect(res.body.background_processes).toBe(3);
     });
   });
 });
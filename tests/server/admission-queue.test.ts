@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import pino from "pino";
+import {
+  AdmissionQueue,
+  AdmissionCanceledError,
+  QueueFullError,
+  QueueTimeoutError,
+  type AdmissionRequest,
+} from "../../src/server/services/admission-queue.js";
+import { loadConfig, type Config } from "../../src/server/config.js";
+
+const log = pino({ level: "silent" });
+
+describe("AdmissionQueue", () => {
+  let config: Config;
+  let capacity: { freeSlots: number; live: Set<string>; hasSession(contextId: string): boolean };
+  let queue: AdmissionQueue;
+
+  beforeEach(() => {
+    config = loadConfig("/nonexistent");
+    config.admission_queue.max_queued = 3;
+    capacity = {
+      freeSlots: 0,
+      live: new Set(),
+      hasSession(contextId) {
+        return this.live.has(contextId);
+      },
+    };
+    queue = new AdmissionQueue(config, log, capacity);
+  });
+
+  afterEach(() => {
+    queue.stop();
+    vi.useRealTimers();
+  });
+
+  function request(taskId: string, clientName = "alice", priority = 0): AdmissionRequest {
+    return { taskId, contextId: `ctx-${taskId}`, clientName, priority };
+  }
+
+  /** Queue requests and record the order in which they are admitted. */
+  function track(requests: AdmissionRequest[]): string[] {
+    const admitted: string[] = [];
+    for (const r of requests) {
+      queue.admit(r).then(
+        (release) => {
+          admitted.push(r.taskId);
+          release();
+        },
+        () => {}, // rejected by stop() in afterEach
+      );
+    }
+    return admitted;
+  }
+
+  async function freeOne(): Promise<void> {
+    capacity.freeSlots = 1;
+    queue.pump();
+    capacity.freeSlots = 0;
+    await Promise.resolve();
+  }
+
+  it("admits immediately when a slot is free", async () => {
+    capacity.freeSlots = 1;
+    const release = await queue.admit(request("t1"));
+    expect(queue.size).toBe(0);
+    release();
+  });
+
+  it("reserves the slot until released", async () => {
+    capacity.freeSlots = 1;
+    await queue.admit(request("t1"));
+
+    track([request("t2")]);
+    expect(queue.size).toBe(1);
+  });
+
+  it("bypasses the queue for contexts that already have a process", async () => {
+    capacity.live.add("ctx-t1");
+    await expect(queue.admit(request("t1"))).resolves.toBeTypeOf("function");
+    expect(queue.size).toBe(0);
+  });
+
+  it("admits everything when disabled", async () => {
+    config.admission_queue.enabled = false;
+    queue = new AdmissionQueue(config, log, capacity);
+    await queue.admit(request("t1"));
+    expect(queue.size).toBe(0);
+  });
+
+  it("rejects when the queue is full", async () => {
+    track([request("t1"), request("t2"), request("t3")]);
+    await expect(queue.admit(request("t4"))).rejects.toThrow(QueueFullError);
+  });
+
+  it("admits higher priority first", async () => {
+    const admitted = track([request("low", "alice", 0), request("high", "bob", 5)]);
+    await freeOne();
+    expect(admitted).toEqual(["high"]);
+  });
+
+  it("takes turns between clients at the same priority", async () => {
+    const admitted = track([
+      request("a1", "alice"),
+      request("a2", "alice"),
+      request("b1", "bob"),
+    ]);
+    for (let i = 0; i < 3; i++) await freeOne();
+    expect(admitted).toEqual(["a1", "b1", "a2"]);
+  });
+
+  it("reports positions as the queue moves", async () => {
+    const positions: [string, number, number][] = [];
+    const withPosition = (r: AdmissionRequest): AdmissionRequest => ({
+      ...r,
+      onPosition: (position, queued) => positions.push([r.taskId, position, queued]),
+    });
+
+    track([withPosition(request("a1", "alice")), withPosition(request("a2", "alice"))]);
+    track([withPosition(request("b1", "bob"))]);
+    // b1 goes ahead of a2: alice will have been served by then, bob not
+    expect(positions).toEqual([
+      ["a1", 1, 1],
+      ["a2", 2, 2],
+      ["b1", 2, 3],
+      ["a2", 3, 3],
+    ]);
+
+    positions.length = 0;
+    await freeOne();
+    expect(positions).toEqual([
+      ["b1", 1, 2],
+      ["a2", 2, 2],
+    ]);
+  });
+
+  it("times out after max_wait_seconds", async () => {
+    vi.useFakeTimers();
+    config.admission_queue.max_wait_seconds = 10;
+    queue = new AdmissionQueue(config, log, capacity);
+
+    const waiting = queue.admit(request("t1"));
+    const assertion = expect(waiting).rejects.toThrow(QueueTimeoutError);
+    vi.advanceTimersByTime(10_000);
+    await assertion;
+    expect(queue.size).toBe(0);
+  });
+
+  it("cancel removes a queued request", async () => {
+    const waiting = queue.admit(request("t1"));
+
+    expect(queue.cancel("t1")).toBe("ctx-t1");
+    await expect(waiting).rejects.toThrow(AdmissionCanceledError);
+    expect(queue.cancel("t1")).toBeNull();
+    expect(queue.size).toBe(0);
+  });
+});
@@ -81,6 +81,15 @@ describe("buildAgentCard", () => {
     expect(skill.tags).toContain("claude");
   });
 
+  it("tags selectable models once each", () => {
+    config.agents["general"]!.model = "claude-sonnet-4-6";
+    config.agents["general"]!.selectable_models = ["claude-haiku-4-5", "claude-sonnet-4-6"];
+    const card = buildAgentCard(config);
+    const skill = card.skills.find((s) => s.id === "general")!;
+
+    expect(skill.tags).toEqual(["claude", "claude-sonnet-4-6", "claude-haiku-4-5"]);
+  });
+
   it("omits model tag when agent has no model", () => {
     config.agents["general"]!.model = null;
     const card = buildAgentCard(config);
@@ -161,9 +170,16 @@ describe("buildAgentCard", () => {
     expect(card.defaultInputModes).toEqual(["text", "image/png", "image/jpeg", "image/gif", "image/webp", "application/pdf"]);
     expect(card.defaultOutputModes).toEqual(["text"]);
     expect(card.capabilities).toEqual({
-      streaming: false,
+      streaming: true,
       pushNotifications: false,
       stateTransitionHistory: true,
     });
   });
+
+  it("advertises push notifications only when enabled", () => {
+    config.push_notifications.enabled = true;
+    const card = buildAgentCard(config);
+
+    expect(card.capabilities.pushNotifications).toBe(true);
+  });
 });
@@ -1,16 +1,28 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { ClaudeAgentExecutor, convertPartsToMessage } from "../../src/server/agent-executor.js";
-import { ClaudeRunner } from "../../src/server/claude-runner.js";
+import {
+  ClaudeProcessError,
+  ClaudeRunner,
+  ResourceLimitError,
+  SessionSilentError,
+  TimeoutError,
+  TurnInterruptedError,
+} from "../../src/server/claude-runner.js";
 import { SessionStore } from "../../src/server/services/session-store.js";
 import { BudgetTracker } from "../../src/server/services/budget-tracker.js";
+import type { OrphanMonitor } from "../../src/server/services/orphan-monitor.js";
+import { SqliteTaskStore } from "../../src/server/services/task-store.js";
+import { AdmissionQueue } from "../../src/server/services/admission-queue.js";
+import { WorkspaceError, type WorkspaceManager } from "../../src/server/services/workspace-manager.js";
 import { AppDatabase } from "../../src/server/services/database.js";
 import { AuthenticatedUser } from "../../src/server/auth/user.js";
 import { loadConfig } from "../../src/server/config.js";
 import pino from "pino";
 import { ServerCallContext } from "@a2a-js/sdk/server";
 import type { RequestContext, ExecutionEventBus } from "@a2a-js/sdk/server";
-import type { Message, Part } from "@a2a-js/sdk";
+import type { Message, Part, Task, TaskStatusUpdateEvent, TaskArtifactUpdateEvent } from "@a2a-js/sdk";
 import type { ContentBlock } from "../../src/server/claude-session.js";
+import type { ClaudeResponse } from "../../src/server/claude-runner.js";
 
 const log = pino({ level: "silent" });
 
@@ -38,7 +50,40 @@ describe("ClaudeAgentExecutor", () => {
     } satisfies ExecutionEventBus & { events: unknown[] };
   }
 
-  it("publishes error message for empty input", async () => {
+  /** The final status update that ends every execution. */
+  function finalStatus(events: unknown[]): TaskStatusUpdateEvent {
+    const last = events[events.length - 1] as TaskStatusUpdateEvent;
+    expect(last.kind).toBe("status-update");
+    expect(last.final).toBe(true);
+    return last;
+  }
+
+  function finalText(events: unknown[]): string {
+    return (finalStatus(events).status.message!.parts[0] as { text: string }).text;
+  }
+
+  function mockResponse(overrides?: Partial<ClaudeResponse>): ClaudeResponse {
+    return {
+      result: "Done",
+      session_id: "sess-1",
+      is_error: false,
+      duration_ms: 100,
+      duration_api_ms: 90,
+      num_turns: 1,
+      total_cost_usd: 0.02,
+      usage: {
+        input_tokens: 10,
+        output_tokens: 5,
+        cache_creation_input_tokens: 0,
+        cache_read_input_tokens: 0,
+      },
+      model_used: "claude-sonnet-4-6",
+      permission_denials: [],
+      ...overrides,
+    };
+  }
+
+  it("rejects empty input", async () => {
     const config = loadConfig("/nonexistent");
     const runner = new ClaudeRunner(config, log);
     const sessionStore = new SessionStore(config, log);
@@ -61,16 +106,20 @@ describe("ClaudeAgentExecutor", () => {
       eventBus,
     );
 
-    expect(eventBus.publish).toHaveBeenCalled();
     expect(eventBus.finished).toHaveBeenCalled();
-    const msg = eventBus.events[0] as Message;
-    expect(msg.kind).toBe("message");
-    expect(msg.role).toBe("agent");
-    expect(msg.parts[0]!.kind).toBe("text");
-    expect((msg.parts[0] as { text: string }).text).toContain("Empty message");
+    const task = eventBus.events[0] as Task;
+    expect(task.kind).toBe("task");
+    expect(task.status.state).toBe("submitted");
+    expect(task.history).toEqual([userMessage]);
+    const status = finalStatus(eventBus.events);
+    expect(eventBus.events).toHaveLength(2);
+    expect(status.status.state).toBe("rejected");
+    expect(status.status.message!.role).toBe("agent");
+    expect(status.status.message!.metadata?.["error_type"]).toBe("invalid_request");
+    expect(finalText(eventBus.events)).toContain("Empty message");
   });
 
-  it("publishes error message for unknown agent", async () => {
+  it("rejects unknown agent", async () => {
     const config = loadConfig("/nonexistent");
     config.agents = {};
 
@@ -96,9 +145,8 @@ describe("ClaudeAgentExecutor", () => {
       eventBus,
     );
 
-    const msg = eventBus.events[0] as Message;
-    expect(msg.kind).toBe("message");
-    expect((msg.parts[0] as { text: string }).text).toContain("not found");
+    expect(finalStatus(eventBus.events).status.state).toBe("rejected");
+    expect(finalText(eventBus.events)).toContain("not found");
   });
 
   it("blocks access when user scopes don't match agent required_scopes", async () => {
@@ -127,8 +175,10 @@ describe("ClaudeAgentExecutor", () => {
       eventBus,
     );
 
-    const msg = eventBus.events[0] as Message;
-    expect((msg.parts[0] as { text: string }).text).toContain("Insufficient scope");
+    const status = finalStatus(eventBus.events);
+    expect(status.status.state).toBe("rejected");
+    expect(status.status.message!.metadata?.["error_type"]).toBe("insufficient_scope");
+    expect(finalText(eventBus.events)).toContain("Insufficient scope");
   });
 
   it("allows access when user scopes match agent required_scopes", async () => {
@@ -158,8 +208,7 @@ describe("ClaudeAgentExecutor", () => {
     );
 
     // Should NOT contain a scope error (it will either succeed or fail for another reason like spawn)
-    const msg = eventBus.events[0] as Message;
-    expect((msg.parts[0] as { text: string }).text).not.toContain("Insufficient scope");
+    expect(finalText(eventBus.events)).not.toContain("Insufficient scope");
   });
 
   it("allows access when user has wildcard scope", async () => {
@@ -188,8 +237,329 @@ describe("ClaudeAgentExecutor", () => {
       eventBus,
     );
 
-    const msg = eventBus.events[0] as Message;
-    expect((msg.parts[0] as { text: string }).text).not.toContain("Insufficient scope");
+    expect(finalText(eventBus.events)).not.toContain("Insufficient scope");
+  });
+
+  it.each([
+    ["error_max_turns", "", "max_turns", "stopped after 4 turns (max_turns)"],
+    ["error_max_budget_usd", "", "max_budget", "max_budget_usd"],
+    ["error_during_execution", "tool crashed", "execution_error", "tool crashed"],
+    ["success", "API Error: overloaded", "claude_error", "API Error: overloaded"],
+  ])("fails a turn Claude ended with %s", async (subtype, result, errorType, text) => {
+    const config = loadConfig("/nonexistent");
+    config.agents["general"]!.required_scopes = [];
+    const runner = new ClaudeRunner(config, log);
+    const sessionStore = new SessionStore(config, log);
+    const budgetTracker = new BudgetTracker(config, log, appDb);
+    vi.spyOn(runner, "sendMessage").mockResolvedValue(
+      mockResponse({ is_error: true, subtype, result, num_turns: 4, session_id: "sess-err" }),
+    );
+    const executor = new ClaudeAgentExecutor(runner, config, sessionStore, budgetTracker, log);
+
+    const eventBus = createMockEventBus();
+    await executor.execute(
+      {
+        userMessage: { kind: "message", messageId: `err-${subtype}`, role: "user", parts: [{ kind: "text", text: "Go" }] },
+        taskId: `task-${subtype}`,
+        contextId: `ctx-${subtype}`,
+      } as RequestContext,
+      eventBus,
+    );
+
+    const status = finalStatus(eventBus.events);
+    expect(status.status.state).toBe("failed");
+    expect(status.status.message!.metadata?.["error_type"]).toBe(errorType);
+    expect(status.status.message!.metadata?.["claude"]).toMatchObject({ session_id: "sess-err" });
+    expect(finalText(eventBus.events)).toContain(text);
+    expect(eventBus.events.some((e) => (e as { kind: string }).kind === "artifact-update")).toBe(false);
+    // The turn still happened: it is part of the session and charged
+    expect(sessionStore.getByContextId(`ctx-${subtype}`)?.sessionId).toBe("sess-err");
+    sessionStore.stop();
+  });
+
+  describe("fork_from_context", () => {
+    function forkSetup() {
+      const config = loadConfig("/nonexistent");
+      config.agents["general"]!.required_scopes = [];
+      const runner = new ClaudeRunner(config, log);
+      const sessionStore = new SessionStore(config, log, appDb);
+      const budgetTracker = new BudgetTracker(config, log, appDb);
+      sessionStore.create("sess-parent", "general", "alice", "ctx-parent", "task-p");
+      const send = vi.spyOn(runner, "sendMessage").mockResolvedValue(mockResponse({ session_id: "sess-fork" }));
+      const executor = new ClaudeAgentExecutor(runner, config, sessionStore, budgetTracker, log);
+      return { sessionStore, send, executor };
+    }
+
+    async function forkAs(executor: ClaudeAgentExecutor, clientName: string, contextId = "ctx-fork") {
+      const eventBus = createMockEventBus();
+      await executor.execute(
+        {
+          userMessage: {
+            kind: "message",
+            messageId: `fork-${clientName}`,
+            role: "user",
+            parts: [{ kind: "text", text: "Try the other approach" }],
+            metadata: { clientName, fork_from_context: "ctx-parent" },
+          },
+          taskId: `task-${contextId}`,
+          contextId,
+        } as RequestContext,
+        eventBus,
+      );
+      return eventBus;
+    }
+
+    it("resumes the parent's session as a fork and records the link", async () => {
+      const { sessionStore, send, executor } = forkSetup();
+
+      const eventBus = await forkAs(executor, "alice");
+
+      expect(finalStatus(eventBus.events).status.state).toBe("completed");
+      expect(send).toHaveBeenCalledWith(expect.objectContaining({
+        contextId: "ctx-fork",
+        resumeSessionId: "sess-parent",
+        forkSession: true,
+      }));
+      const fork = sessionStore.getByContextId("ctx-fork")!;
+      expect(fork).toMatchObject({ sessionId: "sess-fork", parentContextId: "ctx-parent", agentName: "general" });
+      sessionStore.stop();
+    });
+
+    it("treats another client's context as missing", async () => {
+      const { sessionStore, send, executor } = forkSetup();
+
+      const eventBus = await forkAs(executor, "mallory");
+
+      expect(finalStatus(eventBus.events).status.state).toBe("rejected");
+      expect(finalText(eventBus.events)).toContain("no such context");
+      expect(send).not.toHaveBeenCalled();
+      sessionStore.stop();
+    });
+
+    it("refuses to fork into a context that already has a conversation", async () => {
+      const { sessionStore, send, executor } = forkSetup();
+      sessionStore.create("sess-other", "general", "alice", "ctx-other", "task-o");
+
+      const eventBus = await forkAs(executor, "alice", "ctx-other");
+
+      expect(finalStatus(eventBus.events).status.state).toBe("rejected");
+      expect(send).not.toHaveBeenCalled();
+      sessionStore.stop();
+    });
+  });
+
+  describe("customize", () => {
+    function customizeSetup(agentTools = ["Read", "Grep", "Bash(git:*)"], agentMaxTurns: number | null = null) {
+      const config = loadConfig("/nonexistent");
+      config.agents["general"]!.required_scopes = [];
+      config.agents["general"]!.allowed_tools = agentTools;
+      config.agents["general"]!.max_turns = agentMaxTurns;
+      const runner = new ClaudeRunner(config, log);
+      const sessionStore = new SessionStore(config, log);
+      const send = vi.spyOn(runner, "sendMessage").mockResolvedValue(mockResponse({ session_id: "sess-c" }));
+      const executor = new ClaudeAgentExecutor(
+        runner, config, sessionStore, new BudgetTracker(config, log, appDb), log,
+      );
+      return { sessionStore, send, executor };
+    }
+
+    async function send(
+      executor: ClaudeAgentExecutor,
+      customize: unknown,
+      scopes = ["agent:general:customize"],
+      contextId = "ctx-custom",
+      metadata: Record<string, unknown> = {},
+    ) {
+      const eventBus = createMockEventBus();
+      await executor.execute(
+        {
+          userMessage: {
+            kind: "message",
+            messageId: `custom-${contextId}`,
+            role: "user",
+            parts: [{ kind: "text", text: "Review this" }],
+            metadata: { ...metadata, ...(customize !== undefined ? { customize } : {}) },
+          },
+          taskId: `task-${contextId}`,
+          contextId,
+          context: { user: new AuthenticatedUser({ type: "jwt", clientName: "anonymous", scopes }) },
+        } as unknown as RequestContext,
+        eventBus,
+      );
+      return { status: finalStatus(eventBus.events), text: finalText(eventBus.events) };
+    }
+
+    it("starts the context with the settings and stores them for respawns", async () => {
+      const { sessionStore, send: runnerSend, executor } = customizeSetup();
+      const customize = { system_prompt: "Only review.", max_turns: 3, allowed_tools: ["Read"], disallowed_tools: ["Bash"] };
+
+      const first = await send(executor, customize);
+      expect(first.status.status.state).toBe("completed");
+      expect(runnerSend.mock.calls[0]![0].customization).toEqual(customize);
+      expect(sessionStore.getByContextId("ctx-custom")!.customization).toEqual(customize);
+
+      // Follow-ups don't repeat it; a respawn gets it from the session
+      await send(executor, undefined);
+      expect(runnerSend.mock.calls[1]![0].customization).toEqual(customize);
+      sessionStore.stop();
+    });
+
+    it("requires the customize scope", async () => {
+      const { sessionStore, send: runnerSend, executor } = customizeSetup();
+
+      const { status, text } = await send(executor, { max_turns: 3 }, ["agent:general"]);
+      expect(status.status.message!.metadata?.["error_type"]).toBe("insufficient_scope");
+      expect(text).toContain("agent:general:customize");
+      expect(runnerSend).not.toHaveBeenCalled();
+      sessionStore.stop();
+    });
+
+    it("ignores scopes claimed in message metadata", async () => {
+      const { sessionStore, send: runnerSend, executor } = customizeSetup();
+      const eventBus = createMockEventBus();
+      await executor.execute(
+        {
+          userMessage: {
+            kind: "message",
+            messageId: "custom-meta-scopes",
+            role: "user",
+            parts: [{ kind: "text", text: "Review this" }],
+            metadata: { scopes: ["*"], customize: { max_turns: 3 } },
+          },
+          taskId: "task-meta-scopes",
+          contextId: "ctx-meta-scopes",
+          context: { user: new AuthenticatedUser({ type: "jwt", clientName: "mallory", scopes: ["agent:general"] }) },
+        } as unknown as RequestContext,
+        eventBus,
+      );
+
+      expect(finalStatus(eventBus.events).status.message!.metadata?.["error_type"]).toBe("insufficient_scope");
+      expect(runnerSend).not.toHaveBeenCalled();
+      sessionStore.stop();
+    });
+
+    it("lets the master key customize", async () => {
+      const { sessionStore, executor } = customizeSetup();
+      const eventBus = createMockEventBus();
+      await executor.execute(
+        {
+          userMessage: {
+            kind: "message",
+            messageId: "custom-master",
+            role: "user",
+            parts: [{ kind: "text", text: "Review this" }],
+            metadata: { customize: { max_turns: 3 } },
+          },
+          taskId: "task-master",
+          contextId: "ctx-master",
+          context: { user: new AuthenticatedUser({ type: "master", clientName: "master", scopes: ["*"] }) },
+        } as unknown as RequestContext,
+        eventBus,
+      );
+
+      expect(finalStatus(eventBus.events).status.state).toBe("completed");
+      sessionStore.stop();
+    });
+
+    it("refuses tools the agent does not allow and unknown settings", async () => {
+      const { sessionStore, send: runnerSend, executor } = customizeSetup();
+
+      const widened = await send(executor, { allowed_tools: ["Read", "Write"] });
+      expect(widened.status.status.message!.metadata?.["error_type"]).toBe("invalid_request");
+      expect(widened.text).toContain("not allowed for \"general\": Write");
+
+      const unknown = await send(executor, { permission_mode: "bypassPermissions" });
+      expect(unknown.status.status.state).toBe("rejected");
+      expect(runnerSend).not.toHaveBeenCalled();
+      sessionStore.stop();
+    });
+
+    it("narrows a tool to a rule for it", async () => {
+      const { sessionStore, send: runnerSend, executor } = customizeSetup(["Read", "Bash"]);
+
+      const narrowed = await send(executor, { allowed_tools: ["Read", "Bash(git:*)"] });
+      expect(narrowed.status.status.state).toBe("completed");
+      expect(runnerSend.mock.calls[0]![0].customization?.allowed_tools).toEqual(["Read", "Bash(git:*)"]);
+      sessionStore.stop();
+    });
+
+    it("narrows a Bash prefix only to longer prefixes", async () => {
+      const { sessionStore, send: runnerSend, executor } = customizeSetup(["Bash(git:*)"]);
+
+      const longer = await send(executor, { allowed_tools: ["Bash(git log:*)"] }, undefined, "ctx-longer");
+      expect(longer.status.status.state).toBe("completed");
+
+      for (const rule of ["Bash", "Bash(gitk)", "Bash(git log; rm -rf /)"]) {
+        const widened = await send(executor, { allowed_tools: [rule] }, undefined, `ctx-${rule}`);
+        expect(widened.text).toContain(`not allowed for "general": ${rule}`);
+      }
+      expect(runnerSend).toHaveBeenCalledTimes(1);
+      sessionStore.stop();
+    });
+
+    it("points agents without allowed_tools at disallowed_tools", async () => {
+      const { sessionStore, send: runnerSend, executor } = customizeSetup([]);
+
+      const added = await send(executor, { allowed_tools: ["Read"] });
+      expect(added.status.status.message!.metadata?.["error_type"]).toBe("invalid_request");
+      expect(added.text).toContain("has no allowed_tools to narrow; use customize.disallowed_tools");
+      expect(runnerSend).not.toHaveBeenCalled();
+
+      const denied = await send(executor, { disallowed_tools: ["Bash"] }, undefined, "ctx-denied");
+      expect(denied.status.status.state).toBe("completed");
+      sessionStore.stop();
+    });
+
+    it("keeps max_turns within the agent's", async () => {
+      const { sessionStore, send: runnerSend, executor } = customizeSetup(undefined, 10);
+
+      const raised = await send(executor, { max_turns: 50 });
+      expect(raised.status.status.state).toBe("rejected");
+      expect(raised.text).toContain("can only lower the agent's max_turns (10)");
+      expect(runnerSend).not.toHaveBeenCalled();
+
+      const lowered = await send(executor, { max_turns: 5 }, undefined, "ctx-lowered");
+      expect(lowered.status.status.state).toBe("completed");
+      sessionStore.stop();
+    });
+
+    it("only lets a fork narrow its parent's settings further", async () => {
+      const { sessionStore, send: runnerSend, executor } = customizeSetup();
+      sessionStore.create("sess-parent", "general", "anonymous", "ctx-parent", "task-p", undefined, {
+        max_turns: 5,
+        allowed_tools: ["Read", "Bash(git:*)"],
+        disallowed_tools: ["WebFetch"],
+      });
+      const fork = { fork_from_context: "ctx-parent" };
+
+      const widened = await send(executor, { allowed_tools: ["Read", "Grep"] }, undefined, "ctx-wide", fork);
+      expect(widened.status.status.state).toBe("rejected");
+      expect(widened.text).toContain("not allowed: Grep");
+      const raised = await send(executor, { max_turns: 8 }, undefined, "ctx-raised", fork);
+      expect(raised.status.status.state).toBe("rejected");
+      expect(raised.text).toContain("can only lower the max_turns of context \"ctx-parent\" (5)");
+      expect(runnerSend).not.toHaveBeenCalled();
+
+      const narrowed = await send(
+        executor, { allowed_tools: ["Bash(git log:*)"], disallowed_tools: ["Write"] }, undefined, "ctx-narrow", fork,
+      );
+      expect(narrowed.status.status.state).toBe("completed");
+      const expected = { max_turns: 5, allowed_tools: ["Bash(git log:*)"], disallowed_tools: ["WebFetch", "Write"] };
+      expect(runnerSend.mock.calls[0]![0].customization).toEqual(expected);
+      expect(sessionStore.getByContextId("ctx-narrow")!.customization).toEqual(expected);
+      sessionStore.stop();
+    });
+
+    it("refuses to change a context that has already started", async () => {
+      const { sessionStore, send: runnerSend, executor } = customizeSetup();
+      sessionStore.create("sess-old", "general", "anonymous", "ctx-old", "task-old");
+
+      const { status, text } = await send(executor, { max_turns: 3 }, undefined, "ctx-old");
+      expect(status.status.state).toBe("rejected");
+      expect(text).toContain("first message of a context");
+      expect(runnerSend).not.toHaveBeenCalled();
+      sessionStore.stop();
+    });
   });
 
   it("rejects agent mismatch on existing session", async () => {
@@ -227,8 +597,8 @@ describe("ClaudeAgentExecutor", () => {
       eventBus,
     );
 
-    const msg = eventBus.events[0] as Message;
-    const text = (msg.parts[0] as { text: string }).text;
+    expect(finalStatus(eventBus.events).status.state).toBe("rejected");
+    const text = finalText(eventBus.events);
     expect(text).toContain('belongs to agent "general"');
     expect(text).toContain('"code"');
     expect(text).toContain("new contextId");
@@ -268,9 +638,13 @@ describe("ClaudeAgentExecutor", () => {
       eventBus,
     );
 
-    const msg = eventBus.events[0] as Message;
-    expect((msg.parts[0] as { text: string }).text).toContain("still running");
-    expect(msg.metadata?.["orphan_pid"]).toBe(process.pid);
+    const status = finalStatus(eventBus.events);
+    expect(status.status.state).toBe("rejected");
+    expect(finalText(eventBus.events)).toContain("still running");
+    expect(status.status.message!.metadata).toEqual({
+      error_type: "orphan_running",
+      orphan_pid: process.pid,
+    });
     // Runner should NOT have been called — no new session created
     expect(runner.concurrentCount).toBe(0);
   });
@@ -308,8 +682,74 @@ describe("ClaudeAgentExecutor", () => {
     );
 
     // Should NOT contain "still running" — should proceed to runner
-    const msg = eventBus.events[0] as Message;
-    expect((msg.parts[0] as { text: string }).text).not.toContain("still running");
+    expect(finalText(eventBus.events)).not.toContain("still running");
+  });
+
+  describe("per-message model", () => {
+    async function run(model: unknown, allowedModels?: string[]) {
+      const config = loadConfig("/nonexistent");
+      config.agents["general"]!.required_scopes = [];
+      config.agents["general"]!.model = "claude-sonnet-4-6";
+      config.agents["general"]!.selectable_models = ["claude-haiku-4-5", "claude-opus-4-6"];
+
+      const runner = new ClaudeRunner(config, log);
+      const send = vi.spyOn(runner, "sendMessage").mockResolvedValue(mockResponse());
+      const executor = new ClaudeAgentExecutor(
+        runner, config, new SessionStore(config, log), new BudgetTracker(config, log, appDb), log,
+      );
+      const user = new AuthenticatedUser({
+        type: "jwt", clientName: "triage", scopes: ["*"], ...(allowedModels ? { allowedModels } : {}),
+      });
+
+      const eventBus = createMockEventBus();
+      const userMessage: Message = {
+        kind: "message",
+        messageId: "test-model",
+        role: "user",
+        parts: [{ kind: "text", text: "Hello" }],
+        ...(model !== undefined ? { metadata: { model } } : {}),
+      };
+      await executor.execute(
+        { userMessage, taskId: "task-model", contextId: "ctx-model", context: { user } } as unknown as RequestContext,
+        eventBus,
+      );
+      return { send, status: finalStatus(eventBus.events), text: finalText(eventBus.events) };
+    }
+
+    it("runs the turn on a selectable model", async () => {
+      const { send, status } = await run("claude-haiku-4-5", ["claude-haiku-4-5"]);
+      expect(status.status.state).toBe("completed");
+      expect(send.mock.calls[0]![0].model).toBe("claude-haiku-4-5");
+    });
+
+    it("uses the agent's model without a request", async () => {
+      const { send, status } = await run(undefined);
+      expect(status.status.state).toBe("completed");
+      expect(send.mock.calls[0]![0].model).toBeUndefined();
+    });
+
+    it("rejects a model the agent does not offer", async () => {
+      const { send, status, text } = await run("claude-opus-4");
+      expect(status.status.state).toBe("rejected");
+      expect(status.status.message!.metadata?.["error_type"]).toBe("model_not_allowed");
+      expect(text).toContain("claude-sonnet-4-6, claude-haiku-4-5, claude-opus-4-6");
+      expect(send).not.toHaveBeenCalled();
+    });
+
+    it("rejects a model the token does not allow, including the agent's own", async () => {
+      const requested = await run("claude-opus-4-6", ["claude-haiku-4-5"]);
+      expect(requested.status.status.message!.metadata?.["error_type"]).toBe("model_not_allowed");
+      expect(requested.text).toContain("Your token does not allow model \"claude-opus-4-6\"");
+
+      const agentDefault = await run(undefined, ["claude-haiku-4-5"]);
+      expect(agentDefault.status.status.state).toBe("rejected");
+      expect(agentDefault.send).not.toHaveBeenCalled();
+    });
+
+    it("rejects a model that is not a string", async () => {
+      const { status } = await run(42);
+      expect(status.status.message!.metadata?.["error_type"]).toBe("invalid_request");
+    });
   });
 
   it("uses per-client budget limit from JWT auth context", async () => {
@@ -351,11 +791,739 @@ describe("ClaudeAgentExecutor", () => {
     );
 
     // Should hit the per-client budget limit
-    const msg = eventBus.events[0] as Message;
-    const text = (msg.parts[0] as { text: string }).text;
+    const status = finalStatus(eventBus.events);
+    expect(status.status.state).toBe("rejected");
+    expect(status.status.message!.metadata?.["error_type"]).toBe("budget_exceeded");
+    const text = finalText(eventBus.events);
     expect(text).toContain("budget");
     expect(text).toContain("exhausted");
   });
+
+  // -------------------------------------------------------------------------
+  // Task events and streaming progress
+  // -------------------------------------------------------------------------
+
+  it("moves the task to working, streams progress, and completes with the result", async () => {
+    const config = loadConfig("/nonexistent");
+    config.agents["general"]!.required_scopes = [];
+
+    const runner = new ClaudeRunner(config, log);
+    const sessionStore = new SessionStore(config, log);
+    const budgetTracker = new BudgetTracker(config, log, appDb);
+
+    vi.spyOn(runner, "sendMessage").mockImplementation(async (options) => {
+      options.onProgress?.({ type: "text_delta", text: "Do" });
+      options.onProgress?.({ type: "tool_use", toolUseId: "toolu_1", name: "Bash", input: { command: "ls" } });
+      options.onProgress?.({ type: "text_delta", text: "ne" });
+      return mockResponse();
+    });
+
+    const executor = new ClaudeAgentExecutor(
+      runner, config, sessionStore, budgetTracker, log,
+    );
+
+    const eventBus = createMockEventBus();
+    const userMessage: Message = {
+      kind: "message",
+      messageId: "test-stream",
+      role: "user",
+      parts: [{ kind: "text", text: "Hello" }],
+    };
+
+    await executor.execute(
+      { userMessage, taskId: "task-stream", contextId: "ctx-stream" } as RequestContext,
+      eventBus,
+    );
+
+    const kinds = eventBus.events.map((e) => (e as { kind: string }).kind);
+    expect(kinds).toEqual([
+      "task",
+      "status-update",
+      "artifact-update",
+      "status-update",
+      "artifact-update",
+      "artifact-update",
+      "status-update",
+    ]);
+
+    const task = eventBus.events[0] as Task;
+    expect(task.id).toBe("task-stream");
+    expect(task.status.state).toBe("submitted");
+
+    const working = eventBus.events[1] as TaskStatusUpdateEvent;
+    expect(working.status.state).toBe("working");
+    expect(working.final).toBe(false);
+
+    const delta = eventBus.events[2] as TaskArtifactUpdateEvent;
+    expect(delta.append).toBe(true);
+    expect(delta.artifact.parts[0]).toEqual({ kind: "text", text: "Do" });
+
+    const toolStep = eventBus.events[3] as TaskStatusUpdateEvent;
+    expect(toolStep.final).toBe(false);
+    expect(toolStep.status.state).toBe("working");
+    expect((toolStep.status.message!.parts[0] as { text: string }).text).toBe("Using tool: Bash");
+
+    const finalArtifact = eventBus.events[5] as TaskArtifactUpdateEvent;
+    expect(finalArtifact.append).toBe(false);
+    expect(finalArtifact.lastChunk).toBe(true);
+    expect(finalArtifact.artifact.artifactId).toBe(delta.artifact.artifactId);
+    expect(finalArtifact.artifact.parts).toEqual([{ kind: "text", text: "Done" }]);
+
+    const done = eventBus.events[6] as TaskStatusUpdateEvent;
+    expect(done.final).toBe(true);
+    expect(done.status.state).toBe("completed");
+    expect(done.status.message!.metadata?.["claude"]).toMatchObject({ agent: "general", cost_usd: 0.02 });
+    expect(eventBus.finished).toHaveBeenCalledTimes(1);
+  });
+
+  it("joins text deltas into fewer artifact chunks", async () => {
+    const config = loadConfig("/nonexistent");
+    config.agents["general"]!.required_scopes = [];
+    const runner = new ClaudeRunner(config, log);
+    const sessionStore = new SessionStore(config, log);
+    const executor = new ClaudeAgentExecutor(
+      runner, config, sessionStore, new BudgetTracker(config, log, appDb), log,
+    );
+    const eventBus = createMockEventBus();
+    const chunks = () => eventBus.events
+      .filter((e) => (e as TaskArtifactUpdateEvent).append === true)
+      .map((e) => ((e as TaskArtifactUpdateEvent).artifact.parts[0] as { text: string }).text);
+
+    vi.spyOn(runner, "sendMessage").mockImplementation(async (options) => {
+      for (let i = 0; i < 100; i++) options.onProgress?.({ type: "text_delta", text: "ab" });
+      // Published after a short delay even while the turn runs on
+      await vi.waitFor(() => expect(chunks()).toEqual(["ab".repeat(100)]));
+      // A large burst goes out at once
+      options.onProgress?.({ type: "text_delta", text: "x".repeat(5000) });
+      expect(chunks()).toHaveLength(2);
+      options.onProgress?.({ type: "text_delta", text: "tail" });
+      return mockResponse();
+    });
+
+    await executor.execute(
+      {
+        userMessage: { kind: "message", messageId: "test-batch", role: "user", parts: [{ kind: "text", text: "Hi" }] },
+        taskId: "task-batch",
+        contextId: "ctx-batch",
+      } as RequestContext,
+      eventBus,
+    );
+
+    // The rest is flushed before the final answer replaces it
+    expect(chunks()).toEqual(["ab".repeat(100), "x".repeat(5000), "tail"]);
+    expect(finalStatus(eventBus.events).status.state).toBe("completed");
+    sessionStore.stop();
+  });
+
+  it("publishes a failed status when the runner throws", async () => {
+    const config = loadConfig("/nonexistent");
+    config.agents["general"]!.required_scopes = [];
+
+    const runner = new ClaudeRunner(config, log);
+    const sessionStore = new SessionStore(config, log);
+    const budgetTracker = new BudgetTracker(config, log, appDb);
+
+    vi.spyOn(runner, "sendMessage").mockRejectedValue(new Error("boom"));
+
+    const executor = new ClaudeAgentExecutor(
+      runner, config, sessionStore, budgetTracker, log,
+    );
+
+    const eventBus = createMockEventBus();
+    const userMessage: Message = {
+      kind: "message",
+      messageId: "test-fail",
+      role: "user",
+      parts: [{ kind: "text", text: "Hello" }],
+    };
+
+    await executor.execute(
+      { userMessage, taskId: "task-fail", contextId: "ctx-fail" } as RequestContext,
+      eventBus,
+    );
+
+    const last = finalStatus(eventBus.events);
+    expect(last.status.state).toBe("failed");
+    expect(last.status.message!.metadata).toEqual({ error_type: "internal" });
+    expect(finalText(eventBus.events)).toBe("Error: boom");
+  });
+
+  it("classifies runner errors with error_type", async () => {
+    const config = loadConfig("/nonexistent");
+    config.agents["general"]!.required_scopes = [];
+
+    const runner = new ClaudeRunner(config, log);
+    const sessionStore = new SessionStore(config, log);
+    const budgetTracker = new BudgetTracker(config, log, appDb);
+
+    vi.spyOn(runner, "sendMessage").mockRejectedValue(new TimeoutError("Timed out after 300s"));
+
+    const executor = new ClaudeAgentExecutor(
+      runner, config, sessionStore, budgetTracker, log,
+    );
+
+    const eventBus = createMockEventBus();
+    const userMessage: Message = {
+      kind: "message",
+      messageId: "test-timeout",
+      role: "user",
+      parts: [{ kind: "text", text: "Hello" }],
+    };
+
+    await executor.execute(
+      { userMessage, taskId: "task-timeout", contextId: "ctx-timeout" } as RequestContext,
+      eventBus,
+    );
+
+    const last = finalStatus(eventBus.events);
+    expect(last.status.state).toBe("failed");
+    expect(last.status.message!.metadata?.["error_type"]).toBe("timeout");
+  });
+
+  it("reports a session killed over a resource limit as resource_limit", async () => {
+    const config = loadConfig("/nonexistent");
+    config.agents["general"]!.required_scopes = [];
+
+    const runner = new ClaudeRunner(config, log);
+    const sessionStore = new SessionStore(config, log);
+    const budgetTracker = new BudgetTracker(config, log, appDb);
+
+    vi.spyOn(runner, "sendMessage").mockRejectedValue(
+      new ResourceLimitError("Memory limit exceeded: 4100 MB resident, limit 4096 MB (limits.max_rss_mb)"),
+    );
+
+    const executor = new ClaudeAgentExecutor(
+      runner, config, sessionStore, budgetTracker, log,
+    );
+
+    const eventBus = createMockEventBus();
+    await executor.execute(
+      {
+        userMessage: { kind: "message", messageId: "test-limit", role: "user", parts: [{ kind: "text", text: "Build it" }] },
+        taskId: "task-limit",
+        contextId: "ctx-limit",
+      } as RequestContext,
+      eventBus,
+    );
+
+    const last = finalStatus(eventBus.events);
+    expect(last.status.state).toBe("failed");
+    expect(last.status.message!.metadata?.["error_type"]).toBe("resource_limit");
+    expect(finalText(eventBus.events)).toContain("limits.max_rss_mb");
+  });
+
+  it("reports a session killed for going silent as silence_timeout", async () => {
+    const config = loadConfig("/nonexistent");
+    config.agents["general"]!.required_scopes = [];
+
+    const runner = new ClaudeRunner(config, log);
+    const sessionStore = new SessionStore(config, log);
+    const budgetTracker = new BudgetTracker(config, log, appDb);
+
+    vi.spyOn(runner, "sendMessage").mockRejectedValue(
+      new SessionSilentError("No output from Claude for 900s (max_silence_seconds)"),
+    );
+
+    const executor = new ClaudeAgentExecutor(
+      runner, config, sessionStore, budgetTracker, log,
+    );
+
+    const eventBus = createMockEventBus();
+    await executor.execute(
+      {
+        userMessage: { kind: "message", messageId: "test-silent", role: "user", parts: [{ kind: "text", text: "Build it" }] },
+        taskId: "task-silent",
+        contextId: "ctx-silent",
+      } as RequestContext,
+      eventBus,
+    );
+
+    const last = finalStatus(eventBus.events);
+    expect(last.status.state).toBe("failed");
+    expect(last.status.message!.metadata?.["error_type"]).toBe("silence_timeout");
+    expect(finalText(eventBus.events)).toContain("max_silence_seconds");
+  });
+
+  it("attaches a result that arrives after the timeout to the failed task", async () => {
+    const config = loadConfig("/nonexistent");
+    config.agents["general"]!.required_scopes = [];
+
+    const runner = new ClaudeRunner(config, log);
+    const sessionStore = new SessionStore(config, log, appDb);
+    const budgetTracker = new BudgetTracker(config, log, appDb);
+    const taskStore = new SqliteTaskStore(appDb);
+
+    let deliverLate!: (response: ClaudeResponse) => void;
+    vi.spyOn(runner, "sendMessage").mockImplementation(async (options) => {
+      deliverLate = options.onLateResult!;
+      throw new TimeoutError("Message timed out after 300s");
+    });
+
+    const executor = new ClaudeAgentExecutor(
+      runner, config, sessionStore, budgetTracker, log, { taskStore },
+    );
+
+    const eventBus = createMockEventBus();
+    const userMessage: Message = {
+      kind: "message",
+      messageId: "test-late",
+      role: "user",
+      parts: [{ kind: "text", text: "Hello" }],
+      metadata: { clientName: "late-client" },
+    };
+
+    await executor.execute(
+      { userMessage, taskId: "task-late", contextId: "ctx-late" } as RequestContext,
+      eventBus,
+    );
+    // What the SDK would have stored from the published events
+    const failed = finalStatus(eventBus.events);
+    await taskStore.save({ kind: "task", id: "task-late", contextId: "ctx-late", status: failed.status });
+
+    deliverLate(mockResponse({ result: "Finally done", total_cost_usd: 0.4, session_id: "sess-late" }));
+
+    await vi.waitFor(async () => {
+      const task = await taskStore.load("task-late");
+      expect(task!.artifacts?.[0]?.parts).toEqual([{ kind: "text", text: "Finally done" }]);
+    });
+    const task = (await taskStore.load("task-late"))!;
+    expect(task.status.state).toBe("failed");
+    expect(task.status.message!.metadata).toMatchObject({
+      error_type: "timeout",
+      late_result: true,
+      claude: { session_id: "sess-late", cost_usd: 0.4 },
+    });
+    expect(budgetTracker.getStats().clients["late-client"]).toBeCloseTo(0.4);
+    // A follow-up on the same context resumes the session
+    expect(sessionStore.getByContextId("ctx-late")?.sessionId).toBe("sess-late");
+
+    sessionStore.stop();
+  });
+
+  describe("admission queue", () => {
+    function setup() {
+      const config = loadConfig("/nonexistent");
+      config.agents["general"]!.required_scopes = [];
+      const runner = new ClaudeRunner(config, log);
+      const capacity = { freeSlots: 0, hasSession: () => false };
+      const admissionQueue = new AdmissionQueue(config, log, capacity);
+      const executor = new ClaudeAgentExecutor(
+        runner, config, new SessionStore(config, log), new BudgetTracker(config, log, appDb), log,
+        { admissionQueue },
+      );
+      const userMessage: Message = {
+        kind: "message",
+        messageId: "test-queued",
+        role: "user",
+        parts: [{ kind: "text", text: "Hello" }],
+      };
+      return { runner, capacity, admissionQueue, executor, userMessage };
+    }
+
+    it("reports the queue position as submitted, then runs once admitted", async () => {
+      const { runner, capacity, admissionQueue, executor, userMessage } = setup();
+      const send = vi.spyOn(runner, "sendMessage").mockResolvedValue(mockResponse());
+      const eventBus = createMockEventBus();
+
+      const running = executor.execute(
+        { userMessage, taskId: "task-q", contextId: "ctx-q" } as RequestContext,
+        eventBus,
+      );
+      await Promise.resolve();
+
+      const queued = eventBus.events[1] as TaskStatusUpdateEvent;
+      expect(queued.status.state).toBe("submitted");
+      expect(queued.final).toBe(false);
+      expect(queued.status.message!.metadata).toEqual({ queue_position: 1, queue_size: 1 });
+      expect(send).not.toHaveBeenCalled();
+
+      capacity.freeSlots = 1;
+      admissionQueue.pump();
+      await running;
+
+      expect(send).toHaveBeenCalledTimes(1);
+      expect(finalStatus(eventBus.events).status.state).toBe("completed");
+    });
+
+    it("cancels a queued task without starting Claude", async () => {
+      const { runner, executor, userMessage } = setup();
+      const send = vi.spyOn(runner, "sendMessage");
+      const eventBus = createMockEventBus();
+
+      const running = executor.execute(
+        { userMessage, taskId: "task-q", contextId: "ctx-q" } as RequestContext,
+        eventBus,
+      );
+      await Promise.resolve();
+      await executor.cancelTask("task-q", eventBus);
+      await running;
+
+      expect(send).not.toHaveBeenCalled();
+      const last = finalStatus(eventBus.events);
+      expect(last.status.state).toBe("canceled");
+      expect(last.contextId).toBe("ctx-q");
+      expect(eventBus.events.filter((e) => (e as TaskStatusUpdateEvent).final)).toHaveLength(1);
+    });
+
+    it("fails with queue_timeout when no slot frees up", async () => {
+      const { executor, userMessage } = setup();
+      vi.useFakeTimers();
+      try {
+        const eventBus = createMockEventBus();
+        const running = executor.execute(
+          { userMessage, taskId: "task-q", contextId: "ctx-q" } as RequestContext,
+          eventBus,
+        );
+        await vi.advanceTimersByTimeAsync(600_000);
+        await running;
+
+        const last = finalStatus(eventBus.events);
+        expect(last.status.state).toBe("failed");
+        expect(last.status.message!.metadata?.["error_type"]).toBe("queue_timeout");
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  it("publishes canceled on cancelTask and suppresses the in-flight failure", async () => {
+    const config = loadConfig("/nonexistent");
+    config.agents["general"]!.required_scopes = [];
+
+    const runner = new ClaudeRunner(config, log);
+    const sessionStore = new SessionStore(config, log);
+    const budgetTracker = new BudgetTracker(config, log, appDb);
+
+    let rejectTurn!: (err: Error) => void;
+    vi.spyOn(runner, "sendMessage").mockImplementation(
+      () => new Promise((_resolve, reject) => { rejectTurn = reject; }),
+    );
+    vi.spyOn(runner, "getContextIdForTask").mockReturnValue("ctx-cancel");
+    vi.spyOn(runner, "interruptByTaskId").mockImplementation(async () => {
+      rejectTurn(new Error("Session destroyed"));
+      return true;
+    });
+
+    const executor = new ClaudeAgentExecutor(
+      runner, config, sessionStore, budgetTracker, log,
+    );
+
+    const eventBus = createMockEventBus();
+    const userMessage: Message = {
+      kind: "message",
+      messageId: "test-cancel",
+      role: "user",
+      parts: [{ kind: "text", text: "Hello" }],
+    };
+
+    const running = executor.execute(
+      { userMessage, taskId: "task-cancel", contextId: "ctx-cancel" } as RequestContext,
+      eventBus,
+    );
+    await executor.cancelTask("task-cancel", eventBus);
+    await running;
+
+    const last = finalStatus(eventBus.events);
+    expect(last.status.state).toBe("canceled");
+    expect(last.contextId).toBe("ctx-cancel");
+    expect(eventBus.events.filter((e) => (e as TaskStatusUpdateEvent).final)).toHaveLength(1);
+  });
+
+  it("forgets cancels of tasks it is not running", async () => {
+    const config = loadConfig("/nonexistent");
+    config.agents["general"]!.required_scopes = [];
+    const runner = new ClaudeRunner(config, log);
+    const sessionStore = new SessionStore(config, log);
+    vi.spyOn(runner, "sendMessage").mockResolvedValue(mockResponse());
+    const executor = new ClaudeAgentExecutor(
+      runner, config, sessionStore, new BudgetTracker(config, log, appDb), log,
+    );
+
+    const cancelBus = createMockEventBus();
+    await executor.cancelTask("task-unknown", cancelBus);
+    expect(finalStatus(cancelBus.events).status.state).toBe("canceled");
+
+    // A stale mark would make the next execute() of this ID return silently
+    const eventBus = createMockEventBus();
+    await executor.execute(
+      {
+        userMessage: { kind: "message", messageId: "test-unknown", role: "user", parts: [{ kind: "text", text: "Hello" }] },
+        taskId: "task-unknown",
+        contextId: "ctx-unknown",
+      } as RequestContext,
+      eventBus,
+    );
+    expect(finalStatus(eventBus.events).status.state).toBe("completed");
+    sessionStore.stop();
+  });
+
+  it("records the cost of an interrupted turn", async () => {
+    const config = loadConfig("/nonexistent");
+    config.agents["general"]!.required_scopes = [];
+
+    const runner = new ClaudeRunner(config, log);
+    const sessionStore = new SessionStore(config, log);
+    const budgetTracker = new BudgetTracker(config, log, appDb);
+
+    let rejectTurn!: (err: Error) => void;
+    vi.spyOn(runner, "sendMessage").mockImplementation(
+      () => new Promise((_resolve, reject) => { rejectTurn = reject; }),
+    );
+    vi.spyOn(runner, "interruptByTaskId").mockImplementation(async () => {
+      rejectTurn(new TurnInterruptedError(
+        "Turn interrupted",
+        mockResponse({ result: "", total_cost_usd: 0.3, session_id: "sess-int" }),
+      ));
+      return true;
+    });
+
+    const executor = new ClaudeAgentExecutor(
+      runner, config, sessionStore, budgetTracker, log,
+    );
+
+    const eventBus = createMockEventBus();
+    const userMessage: Message = {
+      kind: "message",
+      messageId: "test-interrupt",
+      role: "user",
+      parts: [{ kind: "text", text: "Hello" }],
+      metadata: { clientName: "interrupt-client" },
+    };
+
+    const running = executor.execute(
+      { userMessage, taskId: "task-int", contextId: "ctx-int" } as RequestContext,
+      eventBus,
+    );
+    await executor.cancelTask("task-int", eventBus);
+    await running;
+
+    expect(finalStatus(eventBus.events).status.state).toBe("canceled");
+    expect(budgetTracker.getStats().clients["interrupt-client"]).toBeCloseTo(0.3);
+    expect(sessionStore.getByContextId("ctx-int")?.sessionId).toBe("sess-int");
+
+    sessionStore.stop();
+  });
+
+  describe("isolated workspaces", () => {
+    function workspaceSetup(diff: () => Promise<string | null>, admissionQueue?: AdmissionQueue) {
+      const config = loadConfig("/nonexistent");
+      config.agents["general"]!.required_scopes = [];
+      config.agents["general"]!.workspace = "isolated";
+      const runner = new ClaudeRunner(config, log);
+      const sessionStore = new SessionStore(config, log);
+      const budgetTracker = new BudgetTracker(config, log, appDb);
+      const workspaces = {
+        prepare: vi.fn(async () => "/data/workspaces/abc/tree"),
+        checkpoint: vi.fn(diff),
+        hasCheckpoint: vi.fn(async (_contextId: string, taskId: string) => taskId === "task-earlier"),
+        rollback: vi.fn(async () => {}),
+        remove: vi.fn(async () => {}),
+      };
+      const send = vi.spyOn(runner, "sendMessage").mockImplementation(async (options) => {
+        await options.beforeTurn?.();
+        await options.afterTurn?.();
+        return mockResponse();
+      });
+      const executor = new ClaudeAgentExecutor(runner, config, sessionStore, budgetTracker, log, {
+        workspaces: workspaces as unknown as WorkspaceManager,
+        ...(admissionQueue ? { admissionQueue } : {}),
+      });
+      return { sessionStore, workspaces, send, executor };
+    }
+
+    async function run(executor: ClaudeAgentExecutor, metadata?: Record<string, unknown>) {
+      const eventBus = createMockEventBus();
+      await executor.execute(
+        {
+          userMessage: {
+            kind: "message",
+            messageId: "test-ws",
+            role: "user",
+            parts: [{ kind: "text", text: "Fix the bug" }],
+            ...(metadata ? { metadata } : {}),
+          },
+          taskId: "task-ws",
+          contextId: "ctx-ws",
+        } as RequestContext,
+        eventBus,
+      );
+      return eventBus;
+    }
+
+    it("runs in the context's workspace and returns the turn's diff", async () => {
+      const { sessionStore, workspaces, send, executor } = workspaceSetup(
+        async () => "diff --git a/x b/x\n",
+      );
+
+      const eventBus = await run(executor);
+
+      expect(workspaces.prepare).toHaveBeenCalledWith("ctx-ws", expect.anything(), undefined);
+      expect(workspaces.checkpoint).toHaveBeenCalledWith("ctx-ws", "task-ws");
+      expect(send).toHaveBeenCalledWith(expect.objectContaining({ workDir: "/data/workspaces/abc/tree" }));
+      const diffEvent = eventBus.events.find(
+        (e) => (e as TaskArtifactUpdateEvent).artifact?.name === "diff",
+      ) as TaskArtifactUpdateEvent;
+      expect(diffEvent.artifact).toMatchObject({
+        artifactId: "task-ws-diff",
+        parts: [{ kind: "text", text: "diff --git a/x b/x\n" }],
+        metadata: { mime_type: "text/x-diff" },
+      });
+      expect(finalStatus(eventBus.events).status.state).toBe("completed");
+      sessionStore.stop();
+    });
+
+    it("completes without a diff artifact when diffing fails", async () => {
+      const { sessionStore, executor } = workspaceSetup(async () => {
+        throw new Error("git exploded");
+      });
+
+      const eventBus = await run(executor);
+
+      expect(eventBus.events.some((e) => (e as TaskArtifactUpdateEvent).artifact?.name === "diff")).toBe(false);
+      expect(finalStatus(eventBus.events).status.state).toBe("completed");
+      sessionStore.stop();
+    });
+
+    it("rolls back to an earlier task's checkpoint before the turn", async () => {
+      const { sessionStore, workspaces, executor } = workspaceSetup(async () => null);
+
+      const eventBus = await run(executor, { rollback_to_task: "task-earlier" });
+
+      expect(workspaces.rollback).toHaveBeenCalledWith("ctx-ws", "task-earlier");
+      expect(eventBus.events.some(
+        (e) => (e as TaskStatusUpdateEvent).status?.message?.metadata?.["rolled_back_to"] === "task-earlier",
+      )).toBe(true);
+      expect(finalStatus(eventBus.events).status.state).toBe("completed");
+      sessionStore.stop();
+    });
+
+    it("rejects a rollback to a task without a checkpoint", async () => {
+      const { sessionStore, workspaces, send, executor } = workspaceSetup(async () => null);
+
+      const eventBus = await run(executor, { rollback_to_task: "task-unknown" });
+
+      expect(finalStatus(eventBus.events).status.state).toBe("rejected");
+      expect(finalText(eventBus.events)).toContain("No checkpoint");
+      expect(workspaces.rollback).not.toHaveBeenCalled();
+      expect(send).not.toHaveBeenCalled();
+      sessionStore.stop();
+    });
+
+    it("fails the task when the workspace cannot be created", async () => {
+      const { sessionStore, workspaces, send, executor } = workspaceSetup(async () => null);
+      workspaces.prepare.mockRejectedValue(new WorkspaceError("Could not create workspace"));
+
+      const eventBus = await run(executor);
+
+      expect(finalStatus(eventBus.events).status.state).toBe("failed");
+      expect(finalStatus(eventBus.events).status.message!.metadata?.["error_type"]).toBe("workspace_error");
+      expect(send).not.toHaveBeenCalled();
+      sessionStore.stop();
+    });
+
+    it("removes the workspace when the context's first turn fails", async () => {
+      const { sessionStore, workspaces, send, executor } = workspaceSetup(async () => null);
+      send.mockRejectedValue(new ClaudeProcessError("exited with code 1", ""));
+
+      const eventBus = await run(executor);
+
+      expect(finalStatus(eventBus.events).status.message!.metadata?.["error_type"]).toBe("process_error");
+      expect(workspaces.remove).toHaveBeenCalledWith("ctx-ws");
+      sessionStore.stop();
+    });
+
+    it("keeps the workspace when a later turn fails", async () => {
+      const { sessionStore, workspaces, send, executor } = workspaceSetup(async () => null);
+      sessionStore.create("sess-ws", "general", "anonymous", "ctx-ws", "task-first");
+      send.mockRejectedValue(new ClaudeProcessError("exited with code 1", ""));
+
+      await run(executor);
+
+      expect(workspaces.remove).not.toHaveBeenCalled();
+      sessionStore.stop();
+    });
+
+    it("creates no workspace for a task canceled while waiting for capacity", async () => {
+      const config = loadConfig("/nonexistent");
+      const admissionQueue = new AdmissionQueue(config, log, { freeSlots: 0, hasSession: () => false });
+      const { sessionStore, workspaces, send, executor } = workspaceSetup(async () => null, admissionQueue);
+      const eventBus = createMockEventBus();
+
+      const running = executor.execute(
+        {
+          userMessage: { kind: "message", messageId: "test-ws-q", role: "user", parts: [{ kind: "text", text: "Fix it" }] },
+          taskId: "task-ws-q",
+          contextId: "ctx-ws-q",
+        } as RequestContext,
+        eventBus,
+      );
+      await Promise.resolve();
+      await executor.cancelTask("task-ws-q", eventBus);
+      await running;
+
+      expect(finalStatus(eventBus.events).status.state).toBe("canceled");
+      expect(workspaces.prepare).not.toHaveBeenCalled();
+      expect(send).not.toHaveBeenCalled();
+      sessionStore.stop();
+    });
+  });
+
+  it("leaves the task working when the runner releases it for shutdown", async () => {
+    const config = loadConfig("/nonexistent");
+    config.agents["general"]!.required_scopes = [];
+
+    const runner = new ClaudeRunner(config, log);
+    const sessionStore = new SessionStore(config, log);
+    const budgetTracker = new BudgetTracker(config, log, appDb);
+
+    vi.spyOn(runner, "sendMessage").mockRejectedValue(new Error("Session released"));
+    vi.spyOn(runner, "isReleasing", "get").mockReturnValue(true);
+
+    const executor = new ClaudeAgentExecutor(
+      runner, config, sessionStore, budgetTracker, log,
+    );
+
+    const eventBus = createMockEventBus();
+    const userMessage: Message = {
+      kind: "message",
+      messageId: "test-release",
+      role: "user",
+      parts: [{ kind: "text", text: "Hello" }],
+    };
+
+    await executor.execute(
+      { userMessage, taskId: "task-release", contextId: "ctx-release" } as RequestContext,
+      eventBus,
+    );
+
+    const states = eventBus.events
+      .filter((e) => (e as TaskStatusUpdateEvent).kind === "status-update")
+      .map((e) => (e as TaskStatusUpdateEvent).status.state);
+    expect(states).toEqual(["working"]);
+  });
+
+  it("cancels orphaned tasks through the orphan monitor", async () => {
+    const config = loadConfig("/nonexistent");
+    const runner = new ClaudeRunner(config, log);
+    const sessionStore = new SessionStore(config, log);
+    const budgetTracker = new BudgetTracker(config, log, appDb);
+    const orphanMonitor = { cancel: vi.fn().mockReturnValue("ctx-orphan") };
+    const interruptByTaskId = vi.spyOn(runner, "interruptByTaskId");
+
+    const executor = new ClaudeAgentExecutor(
+      runner, config, sessionStore, budgetTracker, log,
+      { orphanMonitor: orphanMonitor as unknown as OrphanMonitor },
+    );
+
+    const eventBus = createMockEventBus();
+    await executor.cancelTask("task-orphan", eventBus);
+
+    expect(orphanMonitor.cancel).toHaveBeenCalledWith("task-orphan");
+    expect(interruptByTaskId).not.toHaveBeenCalled();
+    const last = finalStatus(eventBus.events);
+    expect(last.status.state).toBe("canceled");
+    expect(last.contextId).toBe("ctx-orphan");
+  });
 });
 
 // ---------------------------------------------------------------------------
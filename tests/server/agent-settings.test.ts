@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { chmodSync, existsSync, mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import pino from "pino";
+import { agentSettingsPath, writeAgentSettings, writePrivateJson } from "../../src/server/agent-settings.js";
+import { loadConfig, type Config } from "../../src/server/config.js";
+
+const log = pino({ level: "silent" });
+
+describe("writeAgentSettings", () => {
+  let config: Config;
+
+  beforeEach(() => {
+    config = loadConfig("/nonexistent");
+    config.data_dir = mkdtempSync(join(tmpdir(), "claude-a2a-settings-"));
+  });
+
+  afterEach(() => {
+    rmSync(config.data_dir, { recursive: true, force: true });
+  });
+
+  it("writes a settings file for agents with inline permissions", () => {
+    config.agents["general"]!.permissions = {
+      allow: ["Read", "Bash(git:*)"],
+      deny: ["Bash(rm:*)"],
+      ask: [],
+      default_mode: "acceptEdits",
+      hooks: {
+        PreToolUse: [{ matcher: "Bash", hooks: [{ type: "command", command: "/opt/hooks/audit.sh", timeout: 10 }] }],
+      },
+    };
+    config.agents["plain"] = { ...config.agents["general"]!, permissions: null };
+    writeAgentSettings(config, log);
+
+    const path = agentSettingsPath(config.data_dir, "general");
+    expect(path).toBe(join(config.data_dir, "agents", "general", "settings.json"));
+    expect(statSync(path).mode & 0o777).toBe(0o600);
+    expect(JSON.parse(readFileSync(path, "utf-8"))).toEqual({
+      permissions: { allow: ["Read", "Bash(git:*)"], deny: ["Bash(rm:*)"], ask: [], defaultMode: "acceptEdits" },
+      hooks: {
+        PreToolUse: [{ matcher: "Bash", hooks: [{ type: "command", command: "/opt/hooks/audit.sh", timeout: 10 }] }],
+      },
+    });
+    expect(existsSync(agentSettingsPath(config.data_dir, "plain"))).toBe(false);
+  });
+
+  it("replaces an existing file and narrows its mode", () => {
+    const path = join(config.data_dir, "agents", "general", "settings.json");
+    writePrivateJson(path, { old: true });
+    chmodSync(path, 0o644);
+    writeFileSync(`${path}.${process.pid}.tmp`, "left over from a crash");
+
+    writePrivateJson(path, { old: false });
+
+    expect(JSON.parse(readFileSync(path, "utf-8"))).toEqual({ old: false });
+    expect(statSync(path).mode & 0o777).toBe(0o600);
+    expect(existsSync(`${path}.${process.pid}.tmp`)).toBe(false);
+  });
+});
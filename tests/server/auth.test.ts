@@ -223,6 +223,8 @@ describe("createAuthMiddleware", () => {
       scopes: ["agent:general"],
       budget_daily_usd: 5,
       rate_limit_rpm: 30,
+      queue_priority: 2,
+      allowed_models: ["claude-haiku-4-5"],
     });
     const req = mockReq({ authorization: `Bearer ${token}` });
     const res = mockRes();
@@ -237,6 +239,8 @@ describe("createAuthMiddleware", () => {
     expect(auth.scopes).toEqual(["agent:general"]);
     expect(auth.budgetDailyUsd).toBe(5);
     expect(auth.rateLimitRpm).toBe(30);
+    expect(auth.queuePriority).toBe(2);
+    expect(auth.allowedModels).toEqual(["claude-haiku-4-5"]);
     expect(auth.tokenId).toBeTruthy();
   });
 
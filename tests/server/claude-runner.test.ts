@@ -1,7 +1,15 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { ClaudeRunner, CapacityError, TimeoutError } from "../../src/server/claude-runner.js";
-import { SessionBusyError, ClaudeSessionError } from "../../src/server/claude-session.js";
+import { ClaudeRunner, CapacityError, TimeoutError, ResourceLimitError } from "../../src/server/claude-runner.js";
+import {
+  SessionBusyError,
+  ClaudeSessionError,
+  TurnInterruptedError,
+} from "../../src/server/claude-session.js";
 import { loadConfig } from "../../src/server/config.js";
+import { processStartedAt } from "../../src/server/proc.js";
+import { AdmissionQueue } from "../../src/server/services/admission-queue.js";
+import { SessionStore } from "../../src/server/services/session-store.js";
+import { spawn } from "node:child_process";
 import pino from "pino";
 
 // ---------------------------------------------------------------------------
@@ -23,6 +31,38 @@ vi.mock("node:child_process", () => {
       proc.stderr = new Readable({ read() {} });
       proc.stdin = new Writable({
         write(chunk: Buffer, _enc: unknown, cb: () => void) {
+          const msg = JSON.parse(chunk.toString());
+          if (msg.type === "control_request" && msg.request.subtype === "set_model") {
+            setTimeout(() => {
+              if (proc.killed) return;
+              proc.stdout.push(Buffer.from(JSON.stringify({
+                type: "control_response",
+                response: { subtype: "success", request_id: msg.request_id },
+              }) + "\n"));
+            }, 2);
+          }
+          if (msg.type === "control_request" && msg.request.subtype === "interrupt") {
+            // Claude acknowledges, then ends the aborted turn with a result
+            setTimeout(() => {
+              if (proc.killed) return;
+              proc.stdout.push(Buffer.from(JSON.stringify({
+                type: "control_response",
+                response: { subtype: "success", request_id: msg.request_id },
+              }) + "\n"));
+              proc.stdout.push(Buffer.from(JSON.stringify({
+                type: "result",
+                subtype: "error_during_execution",
+                session_id: "test-session-123",
+                is_error: true,
+                duration_ms: 200,
+                duration_api_ms: 150,
+                num_turns: 1,
+                total_cost_usd: 0.004,
+                usage: { input_tokens: 40, output_tokens: 10 },
+                permission_denials: [],
+              }) + "\n"));
+            }, 5);
+          }
           if (autoResult) {
             try {
               const msg = JSON.parse(chunk.toString());
@@ -178,13 +218,14 @@ describe("ClaudeRunner", () => {
     expect(runner.concurrentCount).toBe(2);
   });
 
-  it("rejects with CapacityError when at session limit", async () => {
+  it("rejects with CapacityError when every session is busy", async () => {
+    autoResult = false;
     const config = loadConfig("/nonexistent");
     config.server.max_concurrent = 1;
     const singleRunner = new ClaudeRunner(config, log);
     const agentConfig = config.agents["general"]!;
 
-    await singleRunner.sendMessage({
+    const first = singleRunner.sendMessage({
       agentName: "general",
       agentConfig,
       message: "First",
@@ -199,6 +240,214 @@ describe("ClaudeRunner", () => {
         contextId: "ctx-2",
       }),
     ).rejects.toThrow(CapacityError);
+
+    singleRunner.killAll();
+    await expect(first).rejects.toThrow(ClaudeSessionError);
+  });
+
+  it("evicts the least recently used idle session at capacity", async () => {
+    const config = loadConfig("/nonexistent");
+    config.server.max_concurrent = 2;
+    const lruRunner = new ClaudeRunner(config, log);
+    const agentConfig = config.agents["general"]!;
+    const send = (contextId: string) =>
+      lruRunner.sendMessage({ agentName: "general", agentConfig, message: "Hi", contextId });
+
+    await send("ctx-1");
+    await send("ctx-2");
+    await send("ctx-1"); // ctx-2 is now the least recently used
+
+    await send("ctx-3");
+
+    expect(lruRunner.concurrentCount).toBe(2);
+    expect(lruRunner.hasSession("ctx-1")).toBe(true);
+    expect(lruRunner.hasSession("ctx-2")).toBe(false);
+    expect(spawnedProcs[1].kill).toHaveBeenCalledWith("SIGTERM");
+  });
+
+  it("reapIdle kills sessions idle past process_idle_timeout_minutes", async () => {
+    const config = loadConfig("/nonexistent");
+    const agentConfig = config.agents["general"]!;
+
+    await runner.sendMessage({ agentName: "general", agentConfig, message: "Hi", contextId: "ctx-1" });
+
+    expect(runner.reapIdle()).toBe(0);
+    expect(runner.reapIdle(Date.now() + 31 * 60_000)).toBe(1);
+    expect(runner.hasSession("ctx-1")).toBe(false);
+    expect(spawnedProcs[0].kill).toHaveBeenCalledWith("SIGTERM");
+  });
+
+  it("counts idle sessions as free slots and signals when a turn ends", async () => {
+    const config = loadConfig("/nonexistent");
+    config.server.max_concurrent = 2;
+    const slotRunner = new ClaudeRunner(config, log);
+    const agentConfig = config.agents["general"]!;
+    const freed = vi.fn();
+    slotRunner.onCapacityFreed = freed;
+
+    expect(slotRunner.freeSlots).toBe(2);
+    autoResult = false;
+    const busy = slotRunner.sendMessage({ agentName: "general", agentConfig, message: "Hi", contextId: "ctx-1" });
+    expect(slotRunner.freeSlots).toBe(1);
+
+    slotRunner.destroySession("ctx-1");
+    await expect(busy).rejects.toThrow(ClaudeSessionError);
+    expect(freed).toHaveBeenCalled();
+    expect(slotRunner.freeSlots).toBe(2);
+  });
+
+  it("admits a context waiting for capacity once the running turn ends", async () => {
+    const config = loadConfig("/nonexistent");
+    config.server.max_concurrent = 1;
+    config.admission_queue.max_wait_seconds = 2;
+    const slotRunner = new ClaudeRunner(config, log);
+    const queue = new AdmissionQueue(config, log, slotRunner);
+    slotRunner.onCapacityFreed = () => queue.pump();
+    const agentConfig = config.agents["general"]!;
+
+    const releaseFirst = await queue.admit({ taskId: "task-1", contextId: "ctx-1", clientName: "alice", priority: 0 });
+    const first = slotRunner.sendMessage({ agentName: "general", agentConfig, message: "Hi", contextId: "ctx-1", taskId: "task-1" });
+    releaseFirst();
+    const second = queue.admit({ taskId: "task-2", contextId: "ctx-2", clientName: "bob", priority: 0 });
+    expect(queue.size).toBe(1);
+
+    await first;
+    const releaseSecond = await second;
+    await slotRunner.sendMessage({ agentName: "general", agentConfig, message: "Hi", contextId: "ctx-2", taskId: "task-2" });
+    releaseSecond();
+    expect(slotRunner.hasSession("ctx-2")).toBe(true);
+    queue.stop();
+  });
+
+  describe("per-context message queue", () => {
+    function queueingAgent(maxQueued: number) {
+      const config = loadConfig("/nonexistent");
+      return { ...config.agents["general"]!, max_queued_messages: maxQueued };
+    }
+
+    it("rejects a concurrent message as busy when queueing is off", async () => {
+      const agentConfig = queueingAgent(0);
+      const first = runner.sendMessage({ agentName: "general", agentConfig, message: "A", contextId: "ctx-1" });
+
+      await expect(
+        runner.sendMessage({ agentName: "general", agentConfig, message: "B", contextId: "ctx-1" }),
+      ).rejects.toThrow(SessionBusyError);
+      await first;
+    });
+
+    it("runs queued follow-ups in order once the session is free", async () => {
+      const agentConfig = queueingAgent(2);
+      const done: string[] = [];
+      const positions: number[] = [];
+      const send = (message: string) =>
+        runner.sendMessage({
+          agentName: "general",
+          agentConfig,
+          message,
+          contextId: "ctx-1",
+          onQueued: (p) => positions.push(p),
+        }).then(() => done.push(message));
+
+      await Promise.all([send("A"), send("B"), send("C")]);
+
+      expect(done).toEqual(["A", "B", "C"]);
+      expect(positions).toEqual([1, 2]);
+      expect(runner.concurrentCount).toBe(1);
+      expect(runner.queuedCount("ctx-1")).toBe(0);
+    });
+
+    it("finishes afterTurn before the next queued message starts", async () => {
+      const agentConfig = queueingAgent(1);
+      const order: string[] = [];
+      const first = runner.sendMessage({
+        agentName: "general", agentConfig, message: "A", contextId: "ctx-1",
+        afterTurn: async () => {
+          await new Promise((resolve) => setTimeout(resolve, 20));
+          order.push("afterTurn A");
+        },
+      });
+      const second = runner.sendMessage({ agentName: "general", agentConfig, message: "B", contextId: "ctx-1" })
+        .then(() => order.push("B"));
+
+      await Promise.all([first, second]);
+      expect(order).toEqual(["afterTurn A", "B"]);
+    });
+
+    it("rejects when the context queue is full", async () => {
+      const agentConfig = queueingAgent(1);
+      const send = (message: string) =>
+        runner.sendMessage({ agentName: "general", agentConfig, message, contextId: "ctx-1" });
+
+      const running = [send("A"), send("B")];
+      await expect(send("C")).rejects.toThrow(/already queued \(max 1\)/);
+      await Promise.all(running);
+    });
+
+    it("cancelByTaskId drops a queued message without killing the session", async () => {
+      const agentConfig = queueingAgent(2);
+      const first = runner.sendMessage({
+        agentName: "general", agentConfig, message: "A", contextId: "ctx-1", taskId: "task-a",
+      });
+      const queued = runner.sendMessage({
+        agentName: "general", agentConfig, message: "B", contextId: "ctx-1", taskId: "task-b",
+      });
+
+      expect(runner.cancelByTaskId("task-b")).toBe(true);
+      await expect(queued).rejects.toThrow(/canceled while queued/);
+      expect(runner.getContextIdForTask("task-a")).toBe("ctx-1");
+      expect(runner.getContextIdForTask("task-b")).toBeUndefined();
+      await first;
+      expect(spawnedProcs[0].kill).not.toHaveBeenCalled();
+      expect(runner.getContextIdForTask("task-a")).toBeUndefined();
+    });
+
+    it("releaseAll fails queued messages instead of leaving them working", async () => {
+      autoResult = false;
+      const agentConfig = queueingAgent(2);
+      void runner.sendMessage({
+        agentName: "general", agentConfig, message: "A", contextId: "ctx-1", taskId: "task-a",
+      }).catch(() => {});
+      const queued = runner.sendMessage({
+        agentName: "general", agentConfig, message: "B", contextId: "ctx-1", taskId: "task-b",
+      });
+      const queuedResult = queued.catch((err: Error) => err);
+
+      const tasks: Record<string, any> = {
+        "task-a": { id: "task-a", contextId: "ctx-1", status: { state: "working" } },
+        "task-b": { id: "task-b", contextId: "ctx-1", status: { state: "working" } },
+      };
+      const mockTaskStore = {
+        load: vi.fn(async (id: string) => tasks[id]),
+        save: vi.fn().mockResolvedValue(undefined),
+      } as any;
+
+      await runner.releaseAll(mockTaskStore);
+
+      const saved = mockTaskStore.save.mock.calls.map((c: any[]) => c[0]);
+      expect(saved.find((t: any) => t.id === "task-b").status.state).toBe("failed");
+      expect(saved.find((t: any) => t.id === "task-a").status.state).toBe("working");
+      expect(await queuedResult).toBeInstanceOf(ClaudeSessionError);
+    });
+  });
+
+  it("does not reap or evict a session still owing a late result", async () => {
+    autoResult = false;
+    const config = loadConfig("/nonexistent");
+    config.server.request_timeout = 0.05;
+    config.server.max_concurrent = 1;
+    const timeoutRunner = new ClaudeRunner(config, log);
+    const agentConfig = config.agents["general"]!;
+
+    await expect(
+      timeoutRunner.sendMessage({ agentName: "general", agentConfig, message: "Slow", contextId: "ctx-1" }),
+    ).rejects.toThrow(TimeoutError);
+
+    expect(timeoutRunner.reapIdle(Date.now() + 31 * 60_000)).toBe(0);
+    await expect(
+      timeoutRunner.sendMessage({ agentName: "general", agentConfig, message: "Hi", contextId: "ctx-2" }),
+    ).rejects.toThrow(CapacityError);
+    expect(timeoutRunner.hasSession("ctx-1")).toBe(true);
+    timeoutRunner.killAll();
   });
 
   it("killAll destroys all sessions", async () => {
@@ -232,7 +481,8 @@ describe("ClaudeRunner", () => {
     const config = loadConfig("/nonexistent");
     const agentConfig = config.agents["general"]!;
 
-    await runner.sendMessage({
+    autoResult = false;
+    const running = runner.sendMessage({
       agentName: "general",
       agentConfig,
       message: "Hello",
@@ -242,14 +492,282 @@ describe("ClaudeRunner", () => {
 
     const cancelled = runner.cancelByTaskId("task-1");
     expect(cancelled).toBe(true);
+    await expect(running).rejects.toThrow(ClaudeSessionError);
     expect(runner.concurrentCount).toBe(0);
     expect(spawnedProcs[0].kill).toHaveBeenCalledWith("SIGTERM");
   });
 
+  it("cancelling a finished task leaves the context's next turn alone", async () => {
+    const config = loadConfig("/nonexistent");
+    const agentConfig = config.agents["general"]!;
+    const sessionStore = new SessionStore(config, log);
+
+    await runner.sendMessage({ agentName: "general", agentConfig, message: "One", contextId: "ctx-1", taskId: "task-1" });
+    sessionStore.create("test-session-123", "general", "alice", "ctx-1", "task-1");
+    sessionStore.savePid("ctx-1", runner.getSessionPid("ctx-1") ?? process.pid);
+    expect(runner.getContextIdForTask("task-1")).toBeUndefined();
+
+    autoResult = false;
+    const second = runner.sendMessage({ agentName: "general", agentConfig, message: "Two", contextId: "ctx-1", taskId: "task-2" });
+    expect(runner.cancelByTaskId("task-1", sessionStore)).toBe(false);
+    expect(await runner.interruptByTaskId("task-1", sessionStore)).toBe(false);
+
+    expect(runner.hasSession("ctx-1")).toBe(true);
+    expect(spawnedProcs[0].kill).not.toHaveBeenCalled();
+    expect(runner.getContextIdForTask("task-2")).toBe("ctx-1");
+    runner.killAll();
+    await expect(second).rejects.toThrow(ClaudeSessionError);
+    sessionStore.stop();
+  });
+
   it("cancelByTaskId returns false for unknown task", () => {
     expect(runner.cancelByTaskId("nonexistent")).toBe(false);
   });
 
+  it("interruptByTaskId stops the turn and keeps the process for the next message", async () => {
+    autoResult = false;
+    const config = loadConfig("/nonexistent");
+    const agentConfig = { ...config.agents["general"]!, max_queued_messages: 1 };
+    const running = runner.sendMessage({
+      agentName: "general", agentConfig, message: "Long job", contextId: "ctx-1", taskId: "task-a",
+    }).catch((err: Error) => err);
+    const next = runner.sendMessage({
+      agentName: "general", agentConfig, message: "Next", contextId: "ctx-1", taskId: "task-b",
+    });
+    autoResult = true;
+
+    expect(await runner.interruptByTaskId("task-a")).toBe(true);
+    expect(await running).toBeInstanceOf(TurnInterruptedError);
+    expect((await next).result).toBe("Hello from Claude!");
+
+    expect(runner.concurrentCount).toBe(1);
+    expect(spawnedProcs).toHaveLength(1);
+    expect(spawnedProcs[0].kill).not.toHaveBeenCalled();
+  });
+
+  it("interruptByTaskId falls back to cancelByTaskId without a running turn", async () => {
+    expect(await runner.interruptByTaskId("nonexistent")).toBe(false);
+  });
+
+  it("compacts before the next turn once the threshold is crossed", async () => {
+    const config = loadConfig("/nonexistent");
+    const agentConfig = {
+      ...config.agents["general"]!,
+      context_window_tokens: 200,
+      auto_compact: { enabled: true, threshold: 0.5 },
+    };
+    const send = (onCompacting?: () => void) =>
+      runner.sendMessage({ agentName: "general", agentConfig, message: "Hi", contextId: "ctx-1", onCompacting });
+
+    // The mock reports 150 tokens: over half of the 200-token window
+    const first = await send();
+    expect(first.context).toMatchObject({ used_tokens: 150, compact_recommended: true });
+    expect(first.context?.compacted).toBeUndefined();
+
+    const write = vi.spyOn(spawnedProcs[0].stdin, "write");
+    const onCompacting = vi.fn();
+    const second = await send(onCompacting);
+
+    const sent = write.mock.calls.map((c) => JSON.parse(String(c[0])).message.content);
+    expect(sent).toEqual(["/compact", "Hi"]);
+    expect(onCompacting).toHaveBeenCalledWith(expect.objectContaining({ used_tokens: 150 }));
+    expect(second.context?.compacted).toBe(true);
+    expect(second.total_cost_usd).toBeCloseTo(0.02);
+  });
+
+  it("runs a turn on the requested model and goes back to the agent's for the next", async () => {
+    const config = loadConfig("/nonexistent");
+    const agentConfig = { ...config.agents["general"]!, model: "claude-sonnet-4-6" };
+
+    await runner.sendMessage({
+      agentName: "general", agentConfig, message: "Triage", contextId: "ctx-1", model: "claude-haiku-4-5",
+    });
+    const args = vi.mocked(spawn).mock.calls.at(-1)![1] as string[];
+    expect(args.join(" ")).toContain("--model claude-haiku-4-5");
+
+    const write = vi.spyOn(spawnedProcs[0].stdin, "write");
+    await runner.sendMessage({ agentName: "general", agentConfig, message: "Review", contextId: "ctx-1" });
+    const lines = write.mock.calls.map((c) => JSON.parse(String(c[0])));
+    expect(lines[0]).toMatchObject({ type: "control_request", request: { subtype: "set_model", model: "claude-sonnet-4-6" } });
+    expect(lines[1]).toMatchObject({ type: "user" });
+    expect(spawnedProcs).toHaveLength(1);
+  });
+
+  it("does not compact when auto_compact is off", async () => {
+    const config = loadConfig("/nonexistent");
+    const agentConfig = { ...config.agents["general"]!, context_window_tokens: 150 };
+    const send = () =>
+      runner.sendMessage({ agentName: "general", agentConfig, message: "Hi", contextId: "ctx-1" });
+
+    expect((await send()).context?.compact_recommended).toBe(true);
+    const write = vi.spyOn(spawnedProcs[0].stdin, "write");
+    await send();
+    expect(write).toHaveBeenCalledTimes(1);
+  });
+
+  describe("warm pool", () => {
+    function warmRunner(warmPool: number, maxConcurrent = 10) {
+      const config = loadConfig("/nonexistent");
+      config.server.max_concurrent = maxConcurrent;
+      config.agents["general"]!.warm_pool = warmPool;
+      return { config, runner: new ClaudeRunner(config, log) };
+    }
+
+    it("pre-spawns processes up to warm_pool", () => {
+      const { runner } = warmRunner(2);
+      runner.fillWarmPools();
+
+      expect(spawnedProcs).toHaveLength(2);
+      expect(runner.warmCount).toBe(2);
+      expect(runner.concurrentCount).toBe(0);
+      runner.killAll();
+    });
+
+    it("binds a warm process to a new context and refills the pool", async () => {
+      const { config, runner } = warmRunner(1);
+      runner.fillWarmPools();
+
+      const response = await runner.sendMessage({
+        agentName: "general", agentConfig: config.agents["general"]!, message: "Hi", contextId: "ctx-1",
+      });
+
+      expect(response.result).toBe("Hello from Claude!");
+      expect(runner.getSessionPid("ctx-1")).toBe(spawnedProcs[0].pid);
+      await vi.waitFor(() => expect(runner.warmCount).toBe(1));
+      expect(spawnedProcs).toHaveLength(2);
+      runner.killAll();
+    });
+
+    it("does not use a warm process for a resumed conversation", async () => {
+      const { config, runner } = warmRunner(1);
+      runner.fillWarmPools();
+
+      await runner.sendMessage({
+        agentName: "general", agentConfig: config.agents["general"]!, message: "Hi",
+        contextId: "ctx-1", resumeSessionId: "earlier-session",
+      });
+
+      expect(runner.getSessionPid("ctx-1")).toBe(spawnedProcs[1].pid);
+      expect(runner.warmCount).toBe(1);
+      runner.killAll();
+    });
+
+    it("spawns a customized context fresh", async () => {
+      const { config, runner } = warmRunner(1);
+      runner.fillWarmPools();
+
+      await runner.sendMessage({
+        agentName: "general", agentConfig: config.agents["general"]!, message: "Hi",
+        contextId: "ctx-1", customization: { max_turns: 2 },
+      });
+
+      expect(runner.getSessionPid("ctx-1")).toBe(spawnedProcs[1].pid);
+      expect((vi.mocked(spawn).mock.calls.at(-1)![1] as string[]).join(" ")).toContain("--max-turns 2");
+      expect(runner.warmCount).toBe(1);
+      runner.killAll();
+    });
+
+    it("spawns contexts with their own workDir fresh, and keeps no pool for isolated agents", async () => {
+      const { config, runner } = warmRunner(1);
+      runner.fillWarmPools();
+
+      await runner.sendMessage({
+        agentName: "general", agentConfig: config.agents["general"]!, message: "Hi",
+        contextId: "ctx-1", workDir: "/data/workspaces/abc/tree",
+      });
+      expect(runner.getSessionPid("ctx-1")).toBe(spawnedProcs[1].pid);
+      expect(vi.mocked(spawn).mock.lastCall![2]).toMatchObject({ cwd: "/data/workspaces/abc/tree" });
+      runner.killAll();
+
+      config.agents["general"]!.workspace = "isolated";
+      runner.fillWarmPools();
+      expect(runner.warmCount).toBe(0);
+    });
+
+    it("counts against max_concurrent and gives way to new contexts", async () => {
+      const { config, runner } = warmRunner(2, 2);
+      runner.fillWarmPools();
+      expect(runner.isFull).toBe(true);
+      expect(runner.freeSlots).toBe(2);
+
+      // Another agent's context needs a slot: a warm process is killed for it
+      config.agents["code"] = { ...config.agents["general"]!, warm_pool: 0 };
+      await runner.sendMessage({
+        agentName: "code", agentConfig: config.agents["code"]!, message: "Hi", contextId: "ctx-1",
+      });
+
+      expect(runner.warmCount).toBe(1);
+      expect(runner.concurrentCount).toBe(1);
+      expect(spawnedProcs[1].kill).toHaveBeenCalledWith("SIGTERM");
+      runner.killAll();
+    });
+  });
+
+  describe("resource limits", () => {
+    it("lists only sessions whose agent sets a watchdog limit", async () => {
+      const config = loadConfig("/nonexistent");
+      const limited = { ...config.agents["general"]!, limits: { ...config.agents["general"]!.limits, max_rss_mb: 512 } };
+
+      await runner.sendMessage({ agentName: "general", agentConfig: limited, message: "A", contextId: "ctx-1" });
+      await runner.sendMessage({ agentName: "general", agentConfig: config.agents["general"]!, message: "B", contextId: "ctx-2" });
+
+      expect(runner.limitedProcesses()).toEqual([
+        { pid: runner.getSessionPid("ctx-1"), contextId: "ctx-1", limits: limited.limits },
+      ]);
+    });
+
+    it("killOverLimit fails the running turn and frees the slot", async () => {
+      autoResult = false;
+      const kill = vi.spyOn(process, "kill").mockImplementation(() => true);
+      const config = loadConfig("/nonexistent");
+      const turn = runner.sendMessage({
+        agentName: "general", agentConfig: config.agents["general"]!, message: "A", contextId: "ctx-1",
+      });
+      await vi.waitFor(() => expect(runner.getSessionPid("ctx-1")).toBeDefined());
+
+      runner.killOverLimit(runner.getSessionPid("ctx-1")!, new ResourceLimitError("Memory limit exceeded"));
+
+      await expect(turn).rejects.toThrow(ResourceLimitError);
+      expect(runner.hasSession("ctx-1")).toBe(false);
+      expect(runner.concurrentCount).toBe(0);
+      kill.mockRestore();
+    });
+  });
+
+  it("lists sessions flagged as silent", async () => {
+    autoResult = false;
+    const config = loadConfig("/nonexistent");
+    const agentConfig = { ...config.agents["general"]!, max_silence_seconds: 0.05 };
+
+    const turn = runner.sendMessage({ agentName: "general", agentConfig, message: "A", contextId: "ctx-1" });
+    await vi.waitFor(() => expect(runner.silentContexts()).toEqual(["ctx-1"]));
+    expect(runner.getSessionActivity("ctx-1")).toMatchObject({ working: true });
+    expect(runner.getSessionActivity("ctx-2")).toBeUndefined();
+
+    runner.killAll();
+    await expect(turn).rejects.toThrow(ClaudeSessionError);
+  });
+
+  it("keeps the process groups of a context's earlier Claude processes", async () => {
+    const config = loadConfig("/nonexistent");
+    const agentConfig = config.agents["general"]!;
+
+    await runner.sendMessage({ agentName: "general", agentConfig, message: "A", contextId: "ctx-1" });
+    const first = runner.getSessionPid("ctx-1")!;
+    runner.destroySession("ctx-1");
+    await runner.sendMessage({ agentName: "general", agentConfig, message: "B", contextId: "ctx-1" });
+    const second = runner.getSessionPid("ctx-1")!;
+
+    const groups = runner.processGroups().get("ctx-1")!;
+    expect(groups.map((g) => g.pgid)).toEqual([first, second]);
+    // Recorded at spawn, so a reused PID can be told apart later
+    expect(groups[1]!.leaderStartedAt).toBe(processStartedAt(second));
+    runner.forgetProcessGroup("ctx-1", first);
+    expect(runner.processGroups().get("ctx-1")!.map((g) => g.pgid)).toEqual([second]);
+    runner.forgetProcessGroup("ctx-1", second);
+    expect(runner.processGroups().has("ctx-1")).toBe(false);
+  });
+
   it("destroySession removes session by contextId", async () => {
     const config = loadConfig("/nonexistent");
     const agentConfig = config.agents["general"]!;
@@ -365,13 +883,14 @@ describe("ClaudeRunner", () => {
     const config = loadConfig("/nonexistent");
     const agentConfig = config.agents["general"]!;
 
-    await runner.sendMessage({
+    autoResult = false;
+    const inFlight = runner.sendMessage({
       agentName: "general",
       agentConfig,
       message: "Hello",
       contextId: "ctx-1",
       taskId: "task-1",
-    });
+    }).catch((err: Error) => err);
 
     const mockTask = {
       id: "task-1",
@@ -389,5 +908,10 @@ describe("ClaudeRunner", () => {
     const savedTask = mockTaskStore.save.mock.calls[0][0];
     expect(savedTask.status.state).toBe("working");
     expect(savedTask.status.message.parts[0].text).toContain("Server restarting");
+    // The PID lets the next server process find the orphan again
+    expect(savedTask.metadata.orphan_pid).toBe(spawnedProcs[0].pid);
+    expect(savedTask.metadata.orphan_agent).toBe("general");
+    expect(runner.isReleasing).toBe(true);
+    expect(await inFlight).toBeInstanceOf(ClaudeSessionError);
   });
 });
@@ -1,5 +1,19 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { ClaudeSession, ClaudeSessionError, SessionBusyError, type ContentBlock } from "../../src/server/claude-session.js";
+import { spawn } from "node:child_process";
+import {
+  ClaudeSession,
+  ClaudeSessionError,
+  ResourceLimitError,
+  SessionBusyError,
+  SessionSilentError,
+  TurnInterruptedError,
+  agentCliFlags,
+  agentEnv,
+  limitedCommand,
+  toolRuleCovers,
+  type ContentBlock,
+  type SessionProgressEvent,
+} from "../../src/server/claude-session.js";
 import { TimeoutError } from "../../src/server/claude-runner.js";
 import { loadConfig } from "../../src/server/config.js";
 import pino from "pino";
@@ -118,7 +132,7 @@ vi.mock("node:child_process", () => {
 
 const log = pino({ level: "silent" });
 
-function makeSessionOptions(overrides?: Partial<{ resumeSessionId: string }>) {
+function makeSessionOptions(overrides?: Partial<{ resumeSessionId: string; forkSession: boolean }>) {
   const config = loadConfig("/nonexistent");
   const agentConfig = config.agents["general"]!;
   return {
@@ -167,6 +181,32 @@ describe("ClaudeSession", () => {
     session.destroy();
   });
 
+  it("reports context usage from the last API call", async () => {
+    autoResult = false;
+    const session = new ClaudeSession(makeSessionOptions());
+    await session.waitForInit();
+
+    const turn = session.sendMessage("Hello", 5000);
+    spawnedProcs[0]!.stdout.push(Buffer.from(JSON.stringify({
+      type: "assistant",
+      message: {
+        content: [{ type: "text", text: "Hi" }],
+        usage: { input_tokens: 10, output_tokens: 40, cache_read_input_tokens: 99_950 },
+      },
+    }) + "\n"));
+    spawnedProcs[0]!.stdout.push(Buffer.from(lateResultLine("Hi")));
+
+    expect((await turn).context).toEqual({
+      used_tokens: 100_000,
+      max_tokens: 200_000,
+      remaining_tokens: 100_000,
+      compact_recommended: false,
+    });
+    expect(session.contextUsage?.used_tokens).toBe(100_000);
+
+    session.destroy();
+  });
+
   it("handles multiple sequential messages", async () => {
     const session = new ClaudeSession(makeSessionOptions());
     await session.waitForInit();
@@ -235,17 +275,8 @@ describe("ClaudeSession", () => {
     session.destroy();
   });
 
-  it("silently consumes late result after timeout", async () => {
-    autoResult = false;
-    const session = new ClaudeSession(makeSessionOptions());
-    await session.waitForInit();
-
-    const promise = session.sendMessage("Slow", 50);
-    await expect(promise).rejects.toThrow(TimeoutError);
-
-    // Now emit the late result
-    const proc = spawnedProcs[0]!;
-    const resultLine = JSON.stringify({
+  function lateResultLine(result: string): string {
+    return JSON.stringify({
       type: "result",
       subtype: "success",
       session_id: "mock-session-1",
@@ -253,15 +284,31 @@ describe("ClaudeSession", () => {
       duration_ms: 100,
       duration_api_ms: 90,
       num_turns: 1,
-      result: "late arrival",
+      result,
       total_cost_usd: 0.005,
       usage: { input_tokens: 10, output_tokens: 5 },
       permission_denials: [],
       uuid: "r-late",
-    });
-    proc.stdout.push(Buffer.from(resultLine + "\n"));
+    }) + "\n";
+  }
+
+  it("hands a late result to onLateResult after timeout", async () => {
+    autoResult = false;
+    const session = new ClaudeSession(makeSessionOptions());
+    await session.waitForInit();
+
+    const late = vi.fn();
+    const promise = session.sendMessage("Slow", 50, undefined, late);
+    await expect(promise).rejects.toThrow(TimeoutError);
+    expect(late).not.toHaveBeenCalled();
+
+    spawnedProcs[0]!.stdout.push(Buffer.from(lateResultLine("late arrival")));
+    await vi.waitFor(() => expect(late).toHaveBeenCalledTimes(1));
 
-    // Session should still be idle — no crash, no unhandled rejection
+    expect(late.mock.calls[0]![0]).toMatchObject({
+      result: "late arrival",
+      total_cost_usd: 0.005,
+    });
     expect(session.isIdle).toBe(true);
 
     // Can send another message successfully
@@ -272,6 +319,173 @@ describe("ClaudeSession", () => {
     session.destroy();
   });
 
+  it("does not give a follow-up the result of a timed-out turn", async () => {
+    autoResult = false;
+    const session = new ClaudeSession(makeSessionOptions());
+    await session.waitForInit();
+
+    const late = vi.fn();
+    await expect(session.sendMessage("Slow", 50, undefined, late)).rejects.toThrow(TimeoutError);
+
+    // Claude answers the timed-out turn first, then the follow-up
+    autoResult = true;
+    const followUp = session.sendMessage("Next", 5000);
+    spawnedProcs[0]!.stdout.push(Buffer.from(lateResultLine("late arrival")));
+
+    expect((await followUp).result).toBe("Mock response");
+    expect(late.mock.calls[0]![0].result).toBe("late arrival");
+
+    session.destroy();
+  });
+
+  describe("control requests", () => {
+    function writtenLines(): Record<string, any>[] {
+      const proc = spawnedProcs[0]! as unknown as { stdin: { write: ReturnType<typeof vi.fn> } };
+      return proc.stdin.write.mock.calls.map((c) => JSON.parse(String(c[0])));
+    }
+
+    async function startSlowTurn() {
+      autoResult = false;
+      const session = new ClaudeSession(makeSessionOptions());
+      await session.waitForInit();
+      vi.spyOn(spawnedProcs[0]!.stdin as any, "write");
+      const turn = session.sendMessage("Slow", 5000);
+      const settled = turn.catch((err: Error) => err);
+      return { session, settled };
+    }
+
+    it("interrupts a first turn whose init arrives after the message", async () => {
+      autoInit = false;
+      autoResult = false;
+      const session = new ClaudeSession(makeSessionOptions());
+      const write = vi.spyOn(spawnedProcs[0]!.stdin as any, "write");
+      const settled = session.sendMessage("Slow", 5000).catch((err: Error) => err);
+
+      // Like the real CLI: init only after the first stdin message
+      expect(write).toHaveBeenCalledTimes(1);
+      spawnedProcs[0]!.stdout.push(Buffer.from(JSON.stringify({
+        type: "system", subtype: "init", session_id: "mock-session-1", model: "claude-sonnet-4-6",
+        tools: [], cwd: "/tmp", permissionMode: "default", uuid: "init-1",
+      }) + "\n"));
+      await vi.waitFor(() => expect(session.claudeSessionId).toBe("mock-session-1"));
+      expect(session.state).toBe("processing");
+
+      const interrupted = session.interrupt(1000);
+      const request = writtenLines().find((l) => l.type === "control_request");
+      expect(request).toMatchObject({ request: { subtype: "interrupt" } });
+      spawnedProcs[0]!.stdout.push(Buffer.from(JSON.stringify({
+        type: "control_response",
+        response: { subtype: "success", request_id: request!.request_id },
+      }) + "\n"));
+      spawnedProcs[0]!.stdout.push(Buffer.from(lateResultLine("")));
+
+      expect(await interrupted).toBe(true);
+      expect(await settled).toBeInstanceOf(TurnInterruptedError);
+      expect(spawnedProcs[0]!.kill).not.toHaveBeenCalled();
+      autoResult = true;
+      session.destroy();
+    });
+
+    it("aborts the turn and keeps the process", async () => {
+      const { session, settled } = await startSlowTurn();
+
+      const interrupted = session.interrupt(1000);
+      const request = writtenLines().find((l) => l.type === "control_request");
+      expect(request).toMatchObject({ request: { subtype: "interrupt" } });
+
+      spawnedProcs[0]!.stdout.push(Buffer.from(JSON.stringify({
+        type: "control_response",
+        response: { subtype: "success", request_id: request!.request_id },
+      }) + "\n"));
+      spawnedProcs[0]!.stdout.push(Buffer.from(lateResultLine("")));
+
+      expect(await interrupted).toBe(true);
+      const err = await settled;
+      expect(err).toBeInstanceOf(TurnInterruptedError);
+      expect((err as TurnInterruptedError).response.total_cost_usd).toBe(0.005);
+      expect(session.isIdle).toBe(true);
+      expect(spawnedProcs[0]!.kill).not.toHaveBeenCalled();
+
+      autoResult = true;
+      expect((await session.sendMessage("Next", 5000)).result).toBe("Mock response");
+      session.destroy();
+    });
+
+    it("switches the model between turns with set_model", async () => {
+      const session = new ClaudeSession(makeSessionOptions());
+      await session.waitForInit();
+      vi.spyOn(spawnedProcs[0]!.stdin as any, "write");
+      expect(session.model).toBeNull();
+
+      const switched = session.setModel("claude-haiku-4-5");
+      const request = writtenLines().find((l) => l.type === "control_request");
+      expect(request).toMatchObject({ request: { subtype: "set_model", model: "claude-haiku-4-5" } });
+      spawnedProcs[0]!.stdout.push(Buffer.from(JSON.stringify({
+        type: "control_response",
+        response: { subtype: "success", request_id: request!.request_id },
+      }) + "\n"));
+      await switched;
+      expect(session.model).toBe("claude-haiku-4-5");
+
+      // Already on it: nothing is written
+      await session.setModel("claude-haiku-4-5");
+      expect(writtenLines()).toHaveLength(1);
+      session.destroy();
+    });
+
+    it("keeps the model if Claude refuses it", async () => {
+      const session = new ClaudeSession(makeSessionOptions());
+      await session.waitForInit();
+      vi.spyOn(spawnedProcs[0]!.stdin as any, "write");
+
+      const switched = session.setModel("claude-nonexistent");
+      const request = writtenLines().find((l) => l.type === "control_request");
+      spawnedProcs[0]!.stdout.push(Buffer.from(JSON.stringify({
+        type: "control_response",
+        response: { subtype: "error", request_id: request!.request_id, error: "unknown model" },
+      }) + "\n"));
+
+      await expect(switched).rejects.toThrow(/unknown model/);
+      expect(session.model).toBeNull();
+      expect(session.isAlive).toBe(true);
+      session.destroy();
+    });
+
+    it("kills the process if the turn does not stop in time", async () => {
+      const { session, settled } = await startSlowTurn();
+
+      expect(await session.interrupt(30)).toBe(false);
+      expect(await settled).toBeInstanceOf(ClaudeSessionError);
+      expect(session.isAlive).toBe(false);
+      expect(spawnedProcs[0]!.kill).toHaveBeenCalledWith("SIGTERM");
+    });
+
+    it("kills the process if Claude refuses the interrupt", async () => {
+      const { session, settled } = await startSlowTurn();
+
+      const interrupted = session.interrupt(5000);
+      const request = writtenLines().find((l) => l.type === "control_request");
+      spawnedProcs[0]!.stdout.push(Buffer.from(JSON.stringify({
+        type: "control_response",
+        response: { subtype: "error", request_id: request!.request_id, error: "not supported" },
+      }) + "\n"));
+
+      expect(await interrupted).toBe(false);
+      expect(await settled).toBeInstanceOf(ClaudeSessionError);
+    });
+
+    it("kills instead of interrupting while a timed-out turn is ahead", async () => {
+      autoResult = false;
+      const session = new ClaudeSession(makeSessionOptions());
+      await session.waitForInit();
+      await expect(session.sendMessage("Slow", 50)).rejects.toThrow(TimeoutError);
+      const followUp = session.sendMessage("Next", 5000).catch((err: Error) => err);
+
+      expect(await session.interrupt(5000)).toBe(false);
+      expect(await followUp).toBeInstanceOf(ClaudeSessionError);
+    });
+  });
+
   it("transitions to dead when process closes unexpectedly", async () => {
     const session = new ClaudeSession(makeSessionOptions());
     await session.waitForInit();
@@ -303,6 +517,92 @@ describe("ClaudeSession", () => {
     expect(session.state).toBe("dead");
   });
 
+  it("reports a CLI killed for its CPU time limit as a resource limit", async () => {
+    autoResult = false;
+    const session = new ClaudeSession(makeSessionOptions());
+    await session.waitForInit();
+
+    const promise = session.sendMessage("Hello", 5000);
+    spawnedProcs[0]!.emit("close", null, "SIGXCPU");
+
+    await expect(promise).rejects.toThrow(ResourceLimitError);
+  });
+
+  it("kill() kills the whole process group and rejects the turn with the given error", async () => {
+    autoResult = false;
+    const kill = vi.spyOn(process, "kill").mockImplementation(() => true);
+    const session = new ClaudeSession(makeSessionOptions());
+    await session.waitForInit();
+
+    const promise = session.sendMessage("Hello", 5000);
+    session.kill(new ResourceLimitError("Memory limit exceeded"));
+
+    await expect(promise).rejects.toThrow("Memory limit exceeded");
+    expect(kill).toHaveBeenCalledWith(-spawnedProcs[0]!.pid, "SIGKILL");
+    expect(session.isAlive).toBe(false);
+    kill.mockRestore();
+  });
+
+  describe("silence watch", () => {
+    function silentOptions(action: "flag" | "kill") {
+      const options = makeSessionOptions();
+      return {
+        ...options,
+        agentConfig: { ...options.agentConfig, max_silence_seconds: 0.05, silence_action: action },
+      };
+    }
+
+    it("flags a working session that stops producing output, until output resumes", async () => {
+      autoResult = false;
+      const session = new ClaudeSession(silentOptions("flag"));
+      await session.waitForInit();
+      await new Promise((resolve) => setTimeout(resolve, 80));
+      // Idle sessions owe no output
+      expect(session.activity.silentSince).toBeNull();
+
+      const turn = session.sendMessage("Hello", 5000);
+      await vi.waitFor(() => expect(session.activity.silentSince).not.toBeNull());
+      expect(session.activity).toMatchObject({ state: "processing", working: true });
+      expect(session.isAlive).toBe(true);
+
+      spawnedProcs[0]!.stdout.push(Buffer.from(lateResultLine("Done")));
+      expect((await turn).result).toBe("Done");
+      expect(session.activity).toMatchObject({ working: false, silentSince: null });
+
+      session.destroy();
+    });
+
+    it("keeps watching a turn that timed out", async () => {
+      autoResult = false;
+      const session = new ClaudeSession(silentOptions("flag"));
+      await session.waitForInit();
+
+      await expect(session.sendMessage("Hello", 10)).rejects.toThrow(TimeoutError);
+      expect(session.state).toBe("idle");
+      await vi.waitFor(() => expect(session.activity.silentSince).not.toBeNull());
+      expect(session.activity.working).toBe(true);
+
+      session.destroy();
+    });
+
+    it("kills a silent session and fails its turn", async () => {
+      autoResult = false;
+      const kill = vi.spyOn(process, "kill").mockImplementation(() => true);
+      const session = new ClaudeSession(silentOptions("kill"));
+      const onDeath = vi.fn();
+      session.onDeath = onDeath;
+      await session.waitForInit();
+
+      const turn = session.sendMessage("Hello", 5000);
+
+      await expect(turn).rejects.toThrow(SessionSilentError);
+      expect(kill).toHaveBeenCalledWith(-spawnedProcs[0]!.pid, "SIGKILL");
+      expect(onDeath).toHaveBeenCalledWith(expect.any(SessionSilentError));
+      expect(session.isAlive).toBe(false);
+      kill.mockRestore();
+    });
+  });
+
   it("throws ClaudeSessionError when sending to dead session", async () => {
     const session = new ClaudeSession(makeSessionOptions());
     await session.waitForInit();
@@ -451,4 +751,278 @@ describe("ClaudeSession", () => {
 
     session.destroy();
   });
+
+  // -------------------------------------------------------------------------
+  // Streaming progress
+  // -------------------------------------------------------------------------
+
+  it("requests partial messages from the CLI", async () => {
+    const session = new ClaudeSession(makeSessionOptions());
+    await session.waitForInit();
+
+    const args = vi.mocked(spawn).mock.calls.at(-1)![1] as string[];
+    expect(args).toContain("--include-partial-messages");
+
+    session.destroy();
+  });
+
+  it("narrows the agent's settings with the context's customization", async () => {
+    const options = makeSessionOptions();
+    options.agentConfig = { ...options.agentConfig, allowed_tools: ["Read", "Bash(git:*)"], append_system_prompt: "Be concise." };
+    const session = new ClaudeSession({
+      ...options,
+      customization: { system_prompt: "Only review.", max_turns: 4, allowed_tools: ["Read"], disallowed_tools: ["Bash"] },
+    });
+    await session.waitForInit();
+
+    const args = (vi.mocked(spawn).mock.calls.at(-1)![1] as string[]).join(" ");
+    expect(args).toContain("--allowedTools Read --disallowedTools Bash --max-turns 4");
+    expect(args).toContain("--append-system-prompt Be concise.\n\nOnly review.");
+
+    session.destroy();
+  });
+
+  it("passes the agent's CLI options", async () => {
+    const options = makeSessionOptions();
+    options.agentConfig = {
+      ...options.agentConfig,
+      model: "claude-opus-4-6",
+      fallback_model: "claude-sonnet-4-6",
+      system_prompt: "You are a release manager.",
+      mcp_config: ["/etc/claude-a2a/mcp.json"],
+      add_dirs: ["/srv/shared"],
+      disallowed_tools: ["WebFetch"],
+      max_turns: 20,
+    };
+    const session = new ClaudeSession({ ...options, customization: { disallowed_tools: ["Bash"], max_turns: 5 } });
+    await session.waitForInit();
+
+    const args = (vi.mocked(spawn).mock.calls.at(-1)![1] as string[]).join(" ");
+    expect(args).toContain("--fallback-model claude-sonnet-4-6");
+    expect(args).toContain("--mcp-config /etc/claude-a2a/mcp.json --add-dir /srv/shared");
+    expect(args).toContain("--disallowedTools WebFetch Bash --max-turns 5");
+    expect(args).toContain("--system-prompt You are a release manager.");
+
+    expect(agentCliFlags("general", options.agentConfig, options.config)).toEqual(expect.arrayContaining([
+      "--fallback-model", "--mcp-config", "--add-dir", "--disallowedTools", "--max-turns", "--system-prompt",
+    ]));
+    expect(agentCliFlags("general", options.agentConfig, options.config)).not.toContain("--resume");
+
+    session.destroy();
+  });
+
+  it("passes the agent's generated MCP config and allows its servers' tools", async () => {
+    const options = makeSessionOptions();
+    options.config.data_dir = "/var/lib/claude-a2a";
+    options.agentConfig = {
+      ...options.agentConfig,
+      allowed_tools: ["Read"],
+      mcp_config: ["/etc/claude-a2a/shared-mcp.json"],
+      mcp_servers: { github: { command: "github-mcp", args: [], env: {} } },
+    };
+    const session = new ClaudeSession(options);
+    await session.waitForInit();
+
+    const args = (vi.mocked(spawn).mock.calls.at(-1)![1] as string[]).join(" ");
+    expect(args).toContain("--mcp-config /etc/claude-a2a/shared-mcp.json /var/lib/claude-a2a/agents/general/mcp.json");
+    expect(args).toContain("--allowedTools Read mcp__github");
+
+    session.destroy();
+  });
+
+  it("uses the settings file generated from inline permissions", async () => {
+    const options = makeSessionOptions();
+    options.config.data_dir = "/var/lib/claude-a2a";
+    options.agentConfig = {
+      ...options.agentConfig,
+      permissions: { allow: ["Read"], deny: [], ask: [], default_mode: "acceptEdits", hooks: {} },
+    };
+    const session = new ClaudeSession(options);
+    await session.waitForInit();
+
+    const args = (vi.mocked(spawn).mock.calls.at(-1)![1] as string[]).join(" ");
+    expect(args).toContain("--settings /var/lib/claude-a2a/agents/general/settings.json --permission-mode acceptEdits");
+
+    session.destroy();
+  });
+
+  it("wraps the CLI in prlimit and nice for the agent's limits", () => {
+    const config = loadConfig("/nonexistent");
+    const limits = config.agents["general"]!.limits;
+    expect(limitedCommand("claude", ["-p"], limits)).toEqual(["claude", ["-p"]]);
+
+    expect(limitedCommand("claude", ["-p"], {
+      ...limits, address_space_mb: 2048, cpu_seconds: 600, open_files: 1024, processes: 256, nice: 10,
+    })).toEqual(["prlimit", [
+      `--as=${2048 * 1024 * 1024}`, "--cpu=600", "--nofile=1024", "--nproc=256", "--",
+      "nice", "-n", "10", "claude", "-p",
+    ]]);
+    expect(limitedCommand("claude", [], { ...limits, nice: 5 })).toEqual(["nice", ["-n", "5", "claude"]]);
+  });
+
+  it("tells which tool rules an allow rule covers", () => {
+    const covered: Array<[string, string]> = [
+      ["Read", "Read"],
+      ["Bash", "Bash(git:*)"],
+      ["Bash", "Bash(npm test)"],
+      ["Bash(git:*)", "Bash(git:*)"],
+      ["Bash(git:*)", "Bash(git log:*)"],
+      ["Bash(git:*)", "Bash(git status)"],
+      ["mcp__docs", "mcp__docs__search"],
+    ];
+    const notCovered: Array<[string, string]> = [
+      ["Read", "Write"],
+      ["Read(src/**)", "Read"],
+      ["Bash(git:*)", "Bash"],
+      ["Bash(git:*)", "Bash(gitk)"],
+      ["Bash(git:*)", "Bash(git log && rm -rf /)"],
+      ["Bash(git status)", "Bash(git status --short)"],
+      ["mcp__docs__search", "mcp__docs"],
+      ["mcp__docs", "mcp__docsearch__query"],
+    ];
+    for (const [rule, requested] of covered) expect(toolRuleCovers(rule, requested), `${rule} ⊇ ${requested}`).toBe(true);
+    for (const [rule, requested] of notCovered) expect(toolRuleCovers(rule, requested), `${rule} ⊉ ${requested}`).toBe(false);
+  });
+
+  it("strips the server's secrets from the agent's environment", () => {
+    const config = loadConfig("/nonexistent");
+    config.auth.master_key = "mk-secret";
+    const serverEnv = {
+      PATH: "/usr/bin",
+      HOME: "/home/a2a",
+      LC_ALL: "C.UTF-8",
+      AWS_REGION: "eu-west-1",
+      ANTHROPIC_API_KEY: "sk-server",
+      RESEARCH_KEY: "sk-research",
+      CLAUDE_A2A_JWT_SECRET: "jwt-secret",
+      CLAUDECODE: "1",
+      DEPLOY_MASTER_KEY: "mk-secret",
+    };
+    const env = config.agents["general"]!.env;
+
+    expect(agentEnv(env, config, serverEnv)).toEqual({
+      PATH: "/usr/bin",
+      HOME: "/home/a2a",
+      LC_ALL: "C.UTF-8",
+      AWS_REGION: "eu-west-1",
+      ANTHROPIC_API_KEY: "sk-server",
+      RESEARCH_KEY: "sk-research",
+    });
+
+    expect(agentEnv({
+      mode: "allowlist",
+      allow: ["AWS_*"],
+      set: { ANTHROPIC_API_KEY: "${RESEARCH_KEY}", DEBUG: "1", LEAK: "${CLAUDE_A2A_JWT_SECRET}", MISSING: "${NOPE}" },
+    }, config, serverEnv)).toEqual({
+      PATH: "/usr/bin",
+      HOME: "/home/a2a",
+      LC_ALL: "C.UTF-8",
+      AWS_REGION: "eu-west-1",
+      ANTHROPIC_API_KEY: "sk-research",
+      DEBUG: "1",
+    });
+  });
+
+  it("spawns the CLI with the agent's environment", async () => {
+    process.env["CLAUDE_A2A_MASTER_KEY"] = "mk";
+    try {
+      const session = new ClaudeSession(makeSessionOptions());
+      await session.waitForInit();
+
+      const env = (vi.mocked(spawn).mock.calls.at(-1)![2] as { env: NodeJS.ProcessEnv }).env;
+      expect(env["PATH"]).toBe(process.env["PATH"]);
+      expect(env["CLAUDE_A2A_MASTER_KEY"]).toBeUndefined();
+
+      session.destroy();
+    } finally {
+      delete process.env["CLAUDE_A2A_MASTER_KEY"];
+    }
+  });
+
+  it("forks the resumed session when asked to", async () => {
+    const session = new ClaudeSession(makeSessionOptions({ resumeSessionId: "parent-sess", forkSession: true }));
+    await session.waitForInit();
+
+    const args = vi.mocked(spawn).mock.calls.at(-1)![1] as string[];
+    expect(args.join(" ")).toContain("--resume parent-sess --fork-session");
+
+    session.destroy();
+  });
+
+  it("reports text deltas and tool use to the progress listener", async () => {
+    autoResult = false;
+    const session = new ClaudeSession(makeSessionOptions());
+    await session.waitForInit();
+
+    const progress: SessionProgressEvent[] = [];
+    const promise = session.sendMessage("Hello", 5000, (e) => progress.push(e));
+
+    const proc = spawnedProcs[0]!;
+    const lines = [
+      {
+        type: "stream_event",
+        event: { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "Let me " } },
+        parent_tool_use_id: null,
+      },
+      {
+        type: "stream_event",
+        event: { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "check." } },
+        parent_tool_use_id: null,
+      },
+      // Subagent output is not part of the answer
+      {
+        type: "stream_event",
+        event: { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "sub" } },
+        parent_tool_use_id: "toolu_parent",
+      },
+      {
+        type: "assistant",
+        message: {
+          content: [
+            { type: "text", text: "Let me check." },
+            { type: "tool_use", id: "toolu_1", name: "Bash", input: { command: "ls" } },
+          ],
+        },
+        parent_tool_use_id: null,
+      },
+      {
+        type: "result",
+        subtype: "success",
+        session_id: "mock-session-1",
+        is_error: false,
+        duration_ms: 100,
+        duration_api_ms: 90,
+        num_turns: 2,
+        result: "Let me check.",
+        total_cost_usd: 0.005,
+        usage: { input_tokens: 10, output_tokens: 5 },
+        permission_denials: [],
+      },
+    ];
+    for (const line of lines) {
+      proc.stdout.push(Buffer.from(JSON.stringify(line) + "\n"));
+    }
+
+    await promise;
+
+    expect(progress).toEqual([
+      { type: "text_delta", text: "Let me " },
+      { type: "text_delta", text: "check." },
+      { type: "tool_use", toolUseId: "toolu_1", name: "Bash", input: { command: "ls" } },
+    ]);
+
+    session.destroy();
+  });
+
+  it("survives a throwing progress listener", async () => {
+    const session = new ClaudeSession(makeSessionOptions());
+    await session.waitForInit();
+
+    const response = await session.sendMessage("Hello", 5000, () => {
+      throw new Error("listener bug");
+    });
+    expect(response.result).toBe("Mock response");
+
+    session.destroy();
+  });
 });
@@ -15,6 +15,7 @@ afterEach(() => {
   delete process.env["CLAUDE_A2A_JWT_SECRET"];
   delete process.env["CLAUDE_A2A_PORT"];
   delete process.env["CLAUDE_A2A_DATA_DIR"];
+  delete process.env["CLAUDE_A2A_PUSH_SIGNING_SECRET"];
 });
 
 describe("loadConfig", () => {
@@ -123,6 +124,104 @@ claude:
     expect(config.data_dir).toBe("/docker/volume");
     expect(config.claude.work_dir).toBe("/docker/volume/workdir");
   });
+
+  it("applies CLAUDE_A2A_PUSH_SIGNING_SECRET env var", () => {
+    process.env["CLAUDE_A2A_PUSH_SIGNING_SECRET"] = "whsec";
+    const config = loadConfig("/nonexistent/path.yaml");
+    expect(config.push_notifications.signing_secret).toBe("whsec");
+    expect(config.push_notifications.enabled).toBe(false);
+    expect(config.push_notifications.max_attempts).toBe(5);
+  });
+
+  it("requires a signing secret when push notifications are enabled", () => {
+    const configPath = join(tmpDir, "push.yaml");
+    writeFileSync(configPath, "push_notifications:\n  enabled: true\n");
+    expect(() => loadConfig(configPath)).toThrow("signing_secret");
+
+    process.env["CLAUDE_A2A_PUSH_SIGNING_SECRET"] = "whsec";
+    expect(loadConfig(configPath).push_notifications.enabled).toBe(true);
+  });
+
+  it("rejects agent env that sets the server's own variables", () => {
+    const configPath = join(tmpDir, "agent-env.yaml");
+    writeFileSync(
+      configPath,
+      `
+agents:
+  general:
+    env:
+      set:
+        CLAUDE_A2A_MASTER_KEY: "leaked"
+`,
+    );
+
+    expect(() => loadConfig(configPath)).toThrow(/server's own/);
+  });
+
+  it("validates the agent's CLI options", () => {
+    const configPath = join(tmpDir, "agent-cli.yaml");
+    writeFileSync(configPath, `
+agents:
+  general:
+    model: "claude-opus-4-6"
+    fallback_model: "claude-sonnet-4-6"
+    max_turns: 30
+    add_dirs: ["/srv/shared"]
+`);
+    const agent = loadConfig(configPath).agents["general"]!;
+    expect(agent.fallback_model).toBe("claude-sonnet-4-6");
+    expect(agent.max_turns).toBe(30);
+    expect(agent.disallowed_tools).toEqual([]);
+
+    writeFileSync(configPath, `
+agents:
+  general:
+    model: "claude-opus-4-6"
+    fallback_model: "claude-opus-4-6"
+`);
+    expect(() => loadConfig(configPath)).toThrow(/fallback_model must differ/);
+
+    writeFileSync(configPath, `
+agents:
+  general:
+    add_dirs: ["shared"]
+`);
+    expect(() => loadConfig(configPath)).toThrow(/absolute/);
+  });
+
+  it("takes inline permissions instead of a settings file", () => {
+    const configPath = join(tmpDir, "agent-permissions.yaml");
+    writeFileSync(configPath, `
+agents:
+  general:
+    permissions:
+      allow: ["Read"]
+      hooks:
+        PostToolUse:
+          - matcher: "Edit"
+            hooks: [{ type: "command", command: "npm run lint" }]
+`);
+    const permissions = loadConfig(configPath).agents["general"]!.permissions!;
+    expect(permissions.allow).toEqual(["Read"]);
+    expect(permissions.deny).toEqual([]);
+    expect(permissions.hooks["PostToolUse"]![0]!.hooks[0]!.command).toBe("npm run lint");
+
+    writeFileSync(configPath, `
+agents:
+  general:
+    settings_file: "/etc/claude/settings.json"
+    permissions: { allow: ["Read"] }
+`);
+    expect(() => loadConfig(configPath)).toThrow(/settings_file or permissions/);
+
+    writeFileSync(configPath, `
+agents:
+  general:
+    permission_mode: "plan"
+    permissions: { default_mode: "acceptEdits" }
+`);
+    expect(() => loadConfig(configPath)).toThrow(/permission_mode or permissions.default_mode/);
+  });
 });
 
 describe("buildConfigFromFlags", () => {
@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { computeContextUsage, contextWindowFor } from "../../src/server/context-window.js";
+import { loadConfig } from "../../src/server/config.js";
+
+describe("contextWindowFor", () => {
+  it("looks up known model families", () => {
+    expect(contextWindowFor("claude-sonnet-4-6")).toBe(200_000);
+    expect(contextWindowFor("claude-3-5-haiku-20241022")).toBe(200_000);
+  });
+
+  it("gives 1M tokens to extended-context model IDs", () => {
+    expect(contextWindowFor("claude-sonnet-4-6[1m]")).toBe(1_000_000);
+  });
+
+  it("falls back to 200k for unknown models", () => {
+    expect(contextWindowFor("unknown")).toBe(200_000);
+  });
+});
+
+describe("computeContextUsage", () => {
+  const usage = {
+    input_tokens: 1_000,
+    output_tokens: 2_000,
+    cache_creation_input_tokens: 7_000,
+    cache_read_input_tokens: 150_000,
+  };
+
+  it("counts all input and output tokens of the call", () => {
+    const agentConfig = loadConfig("/nonexistent").agents["general"]!;
+    expect(computeContextUsage(usage, "claude-sonnet-4-6", agentConfig)).toEqual({
+      used_tokens: 160_000,
+      max_tokens: 200_000,
+      remaining_tokens: 40_000,
+      compact_recommended: true,
+    });
+  });
+
+  it("honours the agent's window override and threshold", () => {
+    const agentConfig = {
+      ...loadConfig("/nonexistent").agents["general"]!,
+      context_window_tokens: 1_000_000,
+      auto_compact: { enabled: true, threshold: 0.5 },
+    };
+    const context = computeContextUsage(usage, "claude-sonnet-4-6", agentConfig);
+    expect(context.max_tokens).toBe(1_000_000);
+    expect(context.compact_recommended).toBe(false);
+  });
+});
@@ -42,13 +42,15 @@ describe("AppDatabase", () => {
     expect(names).toContain("revoked_tokens");
     expect(names).toContain("sessions");
     expect(names).toContain("tasks");
+    expect(names).toContain("push_notification_configs");
+    expect(names).toContain("push_deliveries");
   });
 
   it("records migration version", () => {
     const row = appDb.db
       .prepare("SELECT MAX(version) as v FROM migrations")
       .get() as { v: number };
-    expect(row.v).toBe(3);
+    expect(row.v).toBe(6);
   });
 
   it("is idempotent on re-open", () => {
@@ -67,7 +69,7 @@ describe("AppDatabase", () => {
     const row = db2.db
       .prepare("SELECT MAX(version) as v FROM migrations")
       .get() as { v: number };
-    expect(row.v).toBe(3);
+    expect(row.v).toBe(6);
     db2.close();
 
     // Cleanup
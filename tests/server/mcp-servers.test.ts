@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync, statSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import pino from "pino";
+import { mcpAllowedTools, mcpConfigPath, writeMcpConfigs } from "../../src/server/mcp-servers.js";
+import { loadConfig, type Config, type McpServerConfig } from "../../src/server/config.js";
+
+const log = pino({ level: "silent" });
+
+const servers: Record<string, McpServerConfig> = {
+  github: { command: "npx", args: ["-y", "@modelcontextprotocol/server-github"], env: { GITHUB_TOKEN: "ghp_x" } },
+  docs: { type: "http", url: "https://mcp.example.com/mcp", headers: {}, tools: ["search", "fetch"] },
+};
+
+describe("MCP servers", () => {
+  let config: Config;
+
+  beforeEach(() => {
+    config = loadConfig("/nonexistent");
+    config.data_dir = mkdtempSync(join(tmpdir(), "claude-a2a-mcp-"));
+  });
+
+  afterEach(() => {
+    rmSync(config.data_dir, { recursive: true, force: true });
+  });
+
+  it("writes the CLI's MCP config under data_dir, readable by the server only", () => {
+    config.agents["code"] = { ...config.agents["general"]!, mcp_servers: servers };
+    writeMcpConfigs(config, log);
+
+    const path = mcpConfigPath(config.data_dir, "code");
+    expect(path).toBe(join(config.data_dir, "agents", "code", "mcp.json"));
+    expect(statSync(path).mode & 0o777).toBe(0o600);
+    expect(readdirSync(join(config.data_dir, "agents", "code"))).toEqual(["mcp.json"]);
+    expect(existsSync(mcpConfigPath(config.data_dir, "general"))).toBe(false);
+
+    expect(JSON.parse(readFileSync(path, "utf-8"))).toEqual({
+      mcpServers: {
+        github: { type: "stdio", command: "npx", args: ["-y", "@modelcontextprotocol/server-github"], env: { GITHUB_TOKEN: "ghp_x" } },
+        docs: { type: "http", url: "https://mcp.example.com/mcp", headers: {} },
+      },
+    });
+  });
+
+  it("allows a server's listed tools, or all of them", () => {
+    expect(mcpAllowedTools(servers)).toEqual(["mcp__github", "mcp__docs__search", "mcp__docs__fetch"]);
+    expect(mcpAllowedTools({})).toEqual([]);
+  });
+});
@@ -0,0 +1,272 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { spawn, type ChildProcess } from "node:child_process";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Task } from "@a2a-js/sdk";
+import { DefaultExecutionEventBusManager } from "@a2a-js/sdk/server";
+import pino from "pino";
+import { OrphanMonitor } from "../../src/server/services/orphan-monitor.js";
+import { SqliteTaskStore } from "../../src/server/services/task-store.js";
+import { SessionStore } from "../../src/server/services/session-store.js";
+import { AppDatabase } from "../../src/server/services/database.js";
+import { BudgetTracker } from "../../src/server/services/budget-tracker.js";
+import { loadConfig } from "../../src/server/config.js";
+import { listProcesses, processStartedAt } from "../../src/server/proc.js";
+
+const log = pino({ level: "silent" });
+
+function workingTask(id: string, metadata?: Record<string, unknown>): Task {
+  return {
+    id,
+    contextId: `ctx-${id}`,
+    kind: "task",
+    status: { state: "working" },
+    ...(metadata ? { metadata } : {}),
+  };
+}
+
+describe("OrphanMonitor", () => {
+  let appDb: AppDatabase;
+  let taskStore: SqliteTaskStore;
+  let sessionStore: SessionStore;
+  let budgetTracker: BudgetTracker;
+  let claudeDir: string;
+  let busManager: DefaultExecutionEventBusManager;
+  let monitor: OrphanMonitor;
+  let child: ChildProcess | null;
+
+  beforeEach(() => {
+    appDb = new AppDatabase(":memory:", log);
+    taskStore = new SqliteTaskStore(appDb);
+    const config = loadConfig("/nonexistent");
+    sessionStore = new SessionStore(config, log, appDb);
+    budgetTracker = new BudgetTracker(config, log, appDb);
+    busManager = new DefaultExecutionEventBusManager();
+    claudeDir = mkdtempSync(join(tmpdir(), "claude-a2a-orphan-"));
+    monitor = new OrphanMonitor(log, taskStore, sessionStore, busManager, {
+      pollIntervalMs: 20,
+      budgetTracker,
+      claudeConfigDir: claudeDir,
+    });
+    child = null;
+  });
+
+  afterEach(() => {
+    monitor.stop();
+    if (child) {
+      try {
+        process.kill(-child.pid!, "SIGKILL");
+      } catch {
+        // already gone
+      }
+    }
+    sessionStore.stop();
+    appDb.close();
+    rmSync(claudeDir, { recursive: true, force: true });
+  });
+
+  /** Start a process in its own process group, as ClaudeSession spawns the CLI. */
+  function spawnOrphan(script = "sleep 30"): number {
+    child = spawn("sh", ["-c", script], { stdio: "ignore", detached: true });
+    return child.pid!;
+  }
+
+  /** Killed tools linger as zombies until init reaps them; those don't count. */
+  async function groupAlive(pgid: number): Promise<boolean> {
+    return (await listProcesses()).some((p) => p.pgid === pgid);
+  }
+
+  it("fails unfinished tasks whose process is gone", async () => {
+    await taskStore.save(workingTask("lost"));
+    await taskStore.save({ ...workingTask("done"), status: { state: "completed" } });
+
+    expect(await monitor.recover()).toBe(0);
+
+    const lost = await taskStore.load("lost");
+    expect(lost!.status.state).toBe("failed");
+    expect(lost!.status.message!.metadata?.["error_type"]).toBe("process_lost");
+    expect((await taskStore.load("done"))!.status.state).toBe("completed");
+  });
+
+  it("reattaches a live process and completes the task when it exits", async () => {
+    const pid = spawnOrphan();
+    await taskStore.save(workingTask("alive", { orphan_pid: pid }));
+
+    expect(await monitor.recover()).toBe(1);
+    expect(monitor.isWatching("alive")).toBe(true);
+
+    const bus = busManager.getByTaskId("alive")!;
+    expect(bus).toBeDefined();
+    const events: unknown[] = [];
+    bus.on("event", (e) => events.push(e));
+
+    child!.kill("SIGKILL");
+    await vi.waitFor(async () => {
+      expect((await taskStore.load("alive"))!.status.state).toBe("completed");
+    });
+
+    expect(monitor.isWatching("alive")).toBe(false);
+    expect(busManager.getByTaskId("alive")).toBeUndefined();
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ kind: "status-update", final: true });
+  });
+
+  it("completes the task with the answer from the session transcript", async () => {
+    const pid = spawnOrphan();
+    sessionStore.create("sess-t", "general", "alice", "ctx-transcribed", "earlier-task");
+    sessionStore.savePid("ctx-transcribed", pid);
+    await taskStore.save({
+      ...workingTask("transcribed", { orphan_pid: pid, orphan_session_id: "sess-t", orphan_agent: "general" }),
+      contextId: "ctx-transcribed",
+    });
+
+    const project = join(claudeDir, "projects", "-work");
+    mkdirSync(project, { recursive: true });
+    const usage = { input_tokens: 100, output_tokens: 50, cache_creation_input_tokens: 0, cache_read_input_tokens: 0 };
+    writeFileSync(join(project, "sess-t.jsonl"), [
+      { type: "user", message: { role: "user", content: "what is 6 x 7?" } },
+      {
+        type: "assistant",
+        costUSD: 0.25,
+        message: { id: "m1", model: "claude-sonnet-4-5", content: [{ type: "text", text: "42" }], usage, stop_reason: "end_turn" },
+      },
+    ].map((e) => JSON.stringify(e) + "\n").join(""));
+
+    expect(await monitor.recover()).toBe(1);
+    const events: unknown[] = [];
+    busManager.getByTaskId("transcribed")!.on("event", (e) => events.push(e));
+
+    child!.kill("SIGKILL");
+    await vi.waitFor(async () => {
+      expect((await taskStore.load("transcribed"))!.status.state).toBe("completed");
+    });
+
+    const task = (await taskStore.load("transcribed"))!;
+    expect(task.status.message!.parts[0]).toMatchObject({ kind: "text", text: "42" });
+    expect(task.status.message!.metadata?.["from_transcript"]).toBe(true);
+    expect(task.artifacts![0]!.parts[0]).toMatchObject({ kind: "text", text: "42" });
+    expect(task.metadata?.["orphan_pid"]).toBeUndefined();
+    expect(events.map((e) => (e as { kind: string }).kind)).toEqual(["artifact-update", "status-update"]);
+
+    expect(budgetTracker.getStats().clients["alice"]).toBe(0.25);
+    const session = sessionStore.getByContextId("ctx-transcribed")!;
+    expect(session.totalCostUsd).toBe(0.25);
+    expect(sessionStore.getLastPid("ctx-transcribed")).toBeNull();
+  });
+
+  it("fails the task when the transcript ends with an API error", async () => {
+    const pid = spawnOrphan();
+    sessionStore.create("sess-e", "general", "alice", "ctx-errored", "earlier-task");
+    await taskStore.save({
+      ...workingTask("errored", { orphan_pid: pid, orphan_session_id: "sess-e", orphan_agent: "general" }),
+      contextId: "ctx-errored",
+    });
+
+    const project = join(claudeDir, "projects", "-work");
+    mkdirSync(project, { recursive: true });
+    writeFileSync(join(project, "sess-e.jsonl"), [
+      { type: "user", message: { role: "user", content: "summarize the repo" } },
+      {
+        type: "assistant",
+        isApiErrorMessage: true,
+        message: { id: "m1", model: "<synthetic>", content: [{ type: "text", text: "API Error: 529 overloaded" }] },
+      },
+    ].map((e) => JSON.stringify(e) + "\n").join(""));
+
+    expect(await monitor.recover()).toBe(1);
+    child!.kill("SIGKILL");
+    await vi.waitFor(async () => {
+      expect((await taskStore.load("errored"))!.status.state).toBe("failed");
+    });
+
+    const task = (await taskStore.load("errored"))!;
+    expect(task.status.message!.metadata?.["error_type"]).toBe("claude_error");
+    expect(task.status.message!.parts[0]).toMatchObject({ text: expect.stringContaining("API Error: 529 overloaded") });
+    expect(task.artifacts ?? []).toEqual([]);
+  });
+
+  it("fails the task when the process died before the turn ended", async () => {
+    const pid = spawnOrphan();
+    sessionStore.create("sess-m", "general", "alice", "ctx-midway", "earlier-task");
+    await taskStore.save({
+      ...workingTask("midway", { orphan_pid: pid, orphan_session_id: "sess-m", orphan_agent: "general" }),
+      contextId: "ctx-midway",
+    });
+
+    const project = join(claudeDir, "projects", "-work");
+    mkdirSync(project, { recursive: true });
+    const usage = { input_tokens: 100, output_tokens: 50, cache_creation_input_tokens: 0, cache_read_input_tokens: 0 };
+    writeFileSync(join(project, "sess-m.jsonl"), [
+      { type: "user", message: { role: "user", content: "fix the build" } },
+      {
+        type: "assistant",
+        costUSD: 0.1,
+        message: {
+          id: "m1",
+          model: "claude-sonnet-4-5",
+          content: [{ type: "text", text: "I'll now run the tests." }, { type: "tool_use", id: "tu-1", name: "Bash", input: {} }],
+          usage,
+          stop_reason: "tool_use",
+        },
+      },
+    ].map((e) => JSON.stringify(e) + "\n").join(""));
+
+    expect(await monitor.recover()).toBe(1);
+    process.kill(-pid, "SIGKILL");
+    await vi.waitFor(async () => {
+      expect((await taskStore.load("midway"))!.status.state).toBe("failed");
+    });
+
+    const task = (await taskStore.load("midway"))!;
+    expect(task.status.message!.metadata?.["error_type"]).toBe("process_error");
+    expect(task.status.message!.parts[0]).toMatchObject({ text: expect.stringContaining("before finishing the turn") });
+    expect(task.artifacts ?? []).toEqual([]);
+    // The API calls it made were still paid for
+    expect(budgetTracker.getStats().clients["alice"]).toBe(0.1);
+  });
+
+  it("falls back to the session's last PID", async () => {
+    const pid = spawnOrphan();
+    sessionStore.create("sess-1", "general", "alice", "ctx-resumed", "earlier-task");
+    sessionStore.savePid("ctx-resumed", pid);
+    await taskStore.save({ ...workingTask("resumed"), contextId: "ctx-resumed" });
+
+    expect(await monitor.recover()).toBe(1);
+    expect(monitor.isWatching("resumed")).toBe(true);
+  });
+
+  it("cancel kills the process and stops watching", async () => {
+    const pid = spawnOrphan();
+    await taskStore.save(workingTask("stuck", { orphan_pid: pid }));
+    await monitor.recover();
+
+    const exited = new Promise((resolve) => child!.once("exit", resolve));
+    expect(monitor.cancel("stuck")).toBe("ctx-stuck");
+    expect(await exited).toBeDefined();
+
+    expect(monitor.isWatching("stuck")).toBe(false);
+    expect(monitor.cancel("stuck")).toBeNull();
+  });
+
+  it("cancel kills the tools the orphaned process started", async () => {
+    const pid = spawnOrphan("sleep 30 & sleep 31 & wait");
+    await taskStore.save(workingTask("busy", { orphan_pid: pid, orphan_started_at: processStartedAt(pid) }));
+    await monitor.recover();
+
+    expect(monitor.cancel("busy")).toBe("ctx-busy");
+    await vi.waitFor(async () => expect(await groupAlive(pid)).toBe(false));
+  });
+
+  it("treats a recorded PID now used by another process as lost", async () => {
+    const pid = spawnOrphan();
+    await taskStore.save(workingTask("reused", { orphan_pid: pid, orphan_started_at: processStartedAt(pid)! - 60_000 }));
+
+    expect(await monitor.recover()).toBe(0);
+    const task = (await taskStore.load("reused"))!;
+    expect(task.status.state).toBe("failed");
+    expect(task.status.message!.metadata?.["error_type"]).toBe("process_lost");
+    expect(task.metadata?.["orphan_started_at"]).toBeUndefined();
+    expect(await groupAlive(pid)).toBe(true);
+  });
+});
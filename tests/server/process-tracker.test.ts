@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { spawn, type ChildProcess } from "node:child_process";
+import pino from "pino";
+import { ProcessTracker, type ProcessGroupSource } from "../../src/server/services/process-tracker.js";
+import { listProcesses, processStartedAt, type ProcessGroup } from "../../src/server/proc.js";
+
+const log = pino({ level: "silent" });
+
+describe("ProcessTracker", () => {
+  const children: ChildProcess[] = [];
+  /** Processes that left the test's process groups. */
+  const strays: number[] = [];
+
+  afterEach(() => {
+    for (const child of children) {
+      try {
+        process.kill(-child.pid!, "SIGKILL");
+      } catch {
+        // already gone
+      }
+    }
+    for (const pid of strays) {
+      try {
+        process.kill(pid, "SIGKILL");
+      } catch {
+        // already gone
+      }
+    }
+    children.length = 0;
+    strays.length = 0;
+  });
+
+  /** Start a shell in its own process group, like ClaudeSession does. */
+  function spawnGroup(script: string): number {
+    const child = spawn("sh", ["-c", script], { stdio: "ignore", detached: true });
+    children.push(child);
+    return child.pid!;
+  }
+
+  /** Groups by context; a group is a PGID, or a PGID with its leader's recorded start time. */
+  function source(groups: Record<string, Array<number | ProcessGroup>>, live: Record<string, number> = {}) {
+    const map = new Map(Object.entries(groups).map(([contextId, list]) => [
+      contextId,
+      list.map((g) => typeof g === "number" ? { pgid: g, leaderStartedAt: null } : g),
+    ]));
+    return {
+      processGroups: () => map,
+      getSessionPid: (contextId: string) => live[contextId],
+      forgetProcessGroup: vi.fn((contextId: string, pgid: number) => {
+        map.set(contextId, map.get(contextId)!.filter((g) => g.pgid !== pgid));
+      }),
+    } satisfies ProcessGroupSource;
+  }
+
+  it("lists the children of a context's Claude process", async () => {
+    const pid = spawnGroup("sleep 30 & sleep 31 & wait");
+    const tracker = new ProcessTracker(log, source({ "ctx-1": [pid] }, { "ctx-1": pid }));
+
+    await vi.waitFor(async () => {
+      const { claude, children } = await tracker.forContext("ctx-1");
+      expect(claude?.pid).toBe(pid);
+      expect(children.map((p) => p.command).sort()).toEqual(["sleep 30", "sleep 31"]);
+    });
+    const { children } = await tracker.forContext("ctx-1");
+    expect(children[0]!.ppid).toBe(pid);
+    expect(children[0]!.rssBytes).toBeGreaterThan(0);
+    expect(Date.now() - children[0]!.startedAt).toBeLessThan(60_000);
+    expect(await tracker.countChildren()).toBe(2);
+  });
+
+  it("follows descendants that started their own session", async () => {
+    const pid = spawnGroup("setsid sleep 32 & wait");
+    const tracker = new ProcessTracker(log, source({ "ctx-1": [pid] }, { "ctx-1": pid }));
+
+    await vi.waitFor(async () => {
+      const { children } = await tracker.forContext("ctx-1");
+      expect(children.map((p) => p.command)).toEqual(["sleep 32"]);
+      strays.push(children[0]!.pid);
+      expect(children[0]!.pgid).not.toBe(pid);
+    });
+  });
+
+  it("keeps listing a group after its Claude process is gone", async () => {
+    const pid = spawnGroup("sleep 33 & wait");
+    const tracker = new ProcessTracker(log, source({ "ctx-1": [pid] }));
+    await vi.waitFor(async () => {
+      expect((await tracker.forContext("ctx-1")).children).toHaveLength(2);
+    });
+
+    process.kill(pid, "SIGKILL");
+    await vi.waitFor(async () => {
+      const { claude, children } = await tracker.forContext("ctx-1");
+      expect(claude).toBeNull();
+      expect(children.map((p) => p.command)).toEqual(["sleep 33"]);
+    });
+  });
+
+  it("forgets groups with no members left", async () => {
+    const child = spawn("true");
+    await new Promise((resolve) => child.on("exit", resolve));
+    const fake = source({ "ctx-1": [child.pid!] });
+    const tracker = new ProcessTracker(log, fake);
+
+    expect(await tracker.countChildren()).toBe(0);
+    expect(fake.forgetProcessGroup).toHaveBeenCalledWith("ctx-1", child.pid);
+  });
+
+  it("keeps a group whose leader still has the recorded start time", async () => {
+    const pid = spawnGroup("sleep 36 & wait");
+    const leaderStartedAt = processStartedAt(pid);
+    expect(leaderStartedAt).not.toBeNull();
+    const tracker = new ProcessTracker(log, source({ "ctx-1": [{ pgid: pid, leaderStartedAt }] }));
+
+    await vi.waitFor(async () => {
+      expect((await tracker.forContext("ctx-1")).children).toHaveLength(2);
+    });
+  });
+
+  it("drops a group whose ID now belongs to a later process", async () => {
+    const pid = spawnGroup("sleep 37 & wait");
+    // As if the context's CLI had this PID before it was reused
+    const fake = source({ "ctx-1": [{ pgid: pid, leaderStartedAt: processStartedAt(pid)! - 60_000 }] });
+    const tracker = new ProcessTracker(log, fake);
+    let sleeper = 0;
+    await vi.waitFor(async () => {
+      const group = (await listProcesses()).filter((p) => p.pgid === pid && p.pid !== pid);
+      expect(group).toHaveLength(1);
+      sleeper = group[0]!.pid;
+    });
+
+    expect(await tracker.killChild("ctx-1", sleeper)).toBeNull();
+    expect(fake.forgetProcessGroup).toHaveBeenCalledWith("ctx-1", pid);
+    expect((await tracker.forContext("ctx-1")).children).toEqual([]);
+  });
+
+  it("never reaches another context's Claude process or its group", async () => {
+    const pid = spawnGroup("sleep 38 & wait");
+    // ctx-1 holds a stale group ID that ctx-2's live CLI now leads
+    const tracker = new ProcessTracker(log, source(
+      { "ctx-1": [pid], "ctx-2": [pid] },
+      { "ctx-2": pid },
+    ));
+    let sleeper = 0;
+    await vi.waitFor(async () => {
+      const { children } = await tracker.forContext("ctx-2");
+      expect(children.map((p) => p.command)).toEqual(["sleep 38"]);
+      sleeper = children[0]!.pid;
+    });
+
+    const { claude, children } = await tracker.forContext("ctx-1");
+    expect(claude).toBeNull();
+    expect(children).toEqual([]);
+    expect(await tracker.killChild("ctx-1", sleeper)).toBeNull();
+    expect(await tracker.countChildren()).toBe(1);
+  });
+
+  it("kills a child with its descendants, but not the Claude process", async () => {
+    const pid = spawnGroup("(sleep 34 & wait) & sleep 35 & wait");
+    const tracker = new ProcessTracker(log, source({ "ctx-1": [pid] }, { "ctx-1": pid }));
+    let subshell = 0;
+    await vi.waitFor(async () => {
+      const { children } = await tracker.forContext("ctx-1");
+      expect(children).toHaveLength(3);
+      subshell = children.find((p) => p.ppid === pid && !p.command.startsWith("sleep"))!.pid;
+    });
+
+    expect(await tracker.killChild("ctx-1", pid)).toBeNull();
+    expect(await tracker.killChild("ctx-2", subshell)).toBeNull();
+    expect(await tracker.killChild("ctx-1", subshell, "SIGKILL")).toHaveLength(2);
+
+    await vi.waitFor(async () => {
+      const { claude, children } = await tracker.forContext("ctx-1");
+      expect(claude?.pid).toBe(pid);
+      expect(children.map((p) => p.command)).toEqual(["sleep 35"]);
+    });
+  });
+});
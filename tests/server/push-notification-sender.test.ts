@@ -0,0 +1,245 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { createServer, type IncomingHttpHeaders, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { Task, TaskState } from "@a2a-js/sdk";
+import pino from "pino";
+import {
+  WebhookPushSender,
+  signPushPayload,
+} from "../../src/server/services/push-notification-sender.js";
+import { SqlitePushNotificationStore } from "../../src/server/services/push-notification-store.js";
+import { AppDatabase } from "../../src/server/services/database.js";
+import { loadConfig } from "../../src/server/config.js";
+import type { Config } from "../../src/server/config.js";
+
+const log = pino({ level: "silent" });
+
+interface Received {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+function makeTask(state: TaskState, id = "task-1"): Task {
+  return { id, contextId: "ctx-1", kind: "task", status: { state } };
+}
+
+describe("signPushPayload", () => {
+  it("produces a sha256-prefixed HMAC over timestamp and body", () => {
+    const sig = signPushPayload("key", "1700000000", '{"a":1}');
+    expect(sig).toMatch(/^sha256=[0-9a-f]{64}$/);
+    expect(signPushPayload("key", "1700000000", '{"a":1}')).toBe(sig);
+    expect(signPushPayload("key", "1700000001", '{"a":1}')).not.toBe(sig);
+    expect(signPushPayload("other", "1700000000", '{"a":1}')).not.toBe(sig);
+  });
+});
+
+describe("WebhookPushSender", () => {
+  let config: Config;
+  let appDb: AppDatabase;
+  let store: SqlitePushNotificationStore;
+  let sender: WebhookPushSender;
+  let server: Server;
+  let url: string;
+  let received: Received[];
+  let responses: number[];
+
+  beforeEach(async () => {
+    config = loadConfig("/nonexistent");
+    config.push_notifications.initial_backoff_seconds = 0.01;
+    config.push_notifications.max_backoff_seconds = 0.02;
+    config.push_notifications.max_attempts = 3;
+    config.push_notifications.signing_secret = "server-secret";
+    config.push_notifications.allowed_hosts = ["127.0.0.1"];
+    appDb = new AppDatabase(":memory:", log);
+    store = new SqlitePushNotificationStore(appDb, { allowedHosts: ["127.0.0.1"] });
+    sender = new WebhookPushSender(config, log, appDb, store);
+
+    received = [];
+    responses = [];
+    server = createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk: Buffer) => (body += chunk.toString()));
+      req.on("end", () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = responses.shift() ?? 200;
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  });
+
+  afterEach(async () => {
+    sender.stop();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    appDb.close();
+  });
+
+  it("does nothing when the task has no configs", async () => {
+    await sender.send(makeTask("working"));
+    expect(received).toHaveLength(0);
+    expect(sender.listDeliveries()).toEqual([]);
+  });
+
+  it("posts the task signed with the server secret, never the client token", async () => {
+    await store.save("task-1", { url, token: "client-token" });
+    const task = makeTask("working");
+
+    await sender.send(task);
+
+    expect(received).toHaveLength(1);
+    const { headers, body } = received[0]!;
+    expect(JSON.parse(body)).toEqual(task);
+    expect(headers["x-a2a-notification-token"]).toBe("client-token");
+    const timestamp = headers["x-a2a-timestamp"] as string;
+    expect(headers["x-a2a-signature"]).toBe(
+      signPushPayload("server-secret", timestamp, body),
+    );
+    expect(headers["x-a2a-signature"]).not.toBe(
+      signPushPayload("client-token", timestamp, body),
+    );
+    expect(headers["x-a2a-delivery-id"]).toBeDefined();
+  });
+
+  it("sends bearer credentials", async () => {
+    await store.save("task-1", {
+      url,
+      authentication: { schemes: ["Bearer"], credentials: "cred" },
+    });
+
+    await sender.send(makeTask("working"));
+
+    const { headers } = received[0]!;
+    expect(headers["x-a2a-notification-token"]).toBeUndefined();
+    expect(headers["authorization"]).toBe("Bearer cred");
+  });
+
+  it("requires a signing secret", () => {
+    config.push_notifications.signing_secret = null;
+    expect(() => new WebhookPushSender(config, log, appDb, store)).toThrow("signing_secret");
+  });
+
+  it("refuses non-public addresses unless the host is allowed", async () => {
+    await store.save("task-1", { url });
+    sender.stop();
+    config.push_notifications.allowed_hosts = [];
+    sender = new WebhookPushSender(config, log, appDb, store);
+
+    await sender.send(makeTask("completed"));
+
+    expect(received).toHaveLength(0);
+    const [delivery] = sender.listDeliveries("task-1");
+    expect(delivery).toMatchObject({ status: "failed", attempts: 1 });
+    expect(delivery!.lastError).toContain("non-public address 127.0.0.1");
+  });
+
+  it("only delivers when the task state changes", async () => {
+    await store.save("task-1", { url, token: "t" });
+
+    await sender.send(makeTask("submitted"));
+    await sender.send(makeTask("working"));
+    await sender.send(makeTask("working"));
+    await sender.send(makeTask("completed"));
+
+    expect(received.map((r) => (JSON.parse(r.body) as Task).status.state)).toEqual([
+      "submitted",
+      "working",
+      "completed",
+    ]);
+  });
+
+  it("forgets the stalest of too many unfinished tasks", async () => {
+    await store.save("task-1", { url });
+    await sender.send(makeTask("working"));
+    for (let i = 0; i < 10_000; i++) {
+      await sender.send(makeTask("working", `other-${i}`));
+    }
+
+    // task-1 was pushed out, so its state counts as new again
+    await sender.send(makeTask("working"));
+    expect(received).toHaveLength(2);
+    await sender.send(makeTask("working"));
+    expect(received).toHaveLength(2);
+  });
+
+  it("retries retryable failures and logs the delivery", async () => {
+    await store.save("task-1", { url, token: "t" });
+    responses = [503, 429];
+
+    await sender.send(makeTask("completed"));
+
+    expect(received).toHaveLength(3);
+    const [delivery] = sender.listDeliveries("task-1");
+    expect(delivery).toMatchObject({
+      taskId: "task-1",
+      configId: "task-1",
+      url,
+      taskState: "completed",
+      status: "delivered",
+      attempts: 3,
+      lastStatusCode: 200,
+      lastError: null,
+    });
+  });
+
+  it("gives up on non-retryable responses", async () => {
+    await store.save("task-1", { url, token: "t" });
+    responses = [400];
+
+    await sender.send(makeTask("failed"));
+
+    expect(received).toHaveLength(1);
+    expect(sender.listDeliveries("task-1")[0]).toMatchObject({
+      status: "failed",
+      attempts: 1,
+      lastStatusCode: 400,
+      lastError: "HTTP 400",
+    });
+  });
+
+  it("marks the delivery failed after exhausting attempts", async () => {
+    await store.save("task-1", { url, token: "t" });
+    responses = [500, 500, 500];
+
+    await sender.send(makeTask("completed"));
+
+    expect(received).toHaveLength(3);
+    expect(sender.listDeliveries("task-1")[0]).toMatchObject({
+      status: "failed",
+      attempts: 3,
+      lastStatusCode: 500,
+    });
+  });
+
+  it("records network errors without rejecting", async () => {
+    await store.save("task-1", { url: "http://127.0.0.1:1/unreachable", token: "t" });
+
+    await expect(sender.send(makeTask("completed"))).resolves.toBeUndefined();
+
+    const [delivery] = sender.listDeliveries("task-1");
+    expect(delivery!.status).toBe("failed");
+    expect(delivery!.lastStatusCode).toBeNull();
+    expect(delivery!.lastError).toBeTruthy();
+  });
+
+  it("delivers to every config and serializes per task", async () => {
+    await store.save("task-1", { id: "a", url, token: "t" });
+    await store.save("task-1", { id: "b", url, token: "t" });
+
+    const first = sender.send(makeTask("working"));
+    const second = sender.send(makeTask("completed"));
+    await Promise.all([first, second]);
+
+    const states = received.map((r) => (JSON.parse(r.body) as Task).status.state);
+    expect(states).toEqual(["working", "working", "completed", "completed"]);
+    expect(sender.listDeliveries("task-1")).toHaveLength(4);
+  });
+
+  it("stops sending after stop()", async () => {
+    await store.save("task-1", { url, token: "t" });
+    sender.stop();
+
+    await sender.send(makeTask("completed"));
+    expect(received).toHaveLength(0);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { SqlitePushNotificationStore } from "../../src/server/services/push-notification-store.js";
+import { AppDatabase } from "../../src/server/services/database.js";
+import pino from "pino";
+
+const log = pino({ level: "silent" });
+
+describe("SqlitePushNotificationStore", () => {
+  let appDb: AppDatabase;
+  let store: SqlitePushNotificationStore;
+
+  beforeEach(() => {
+    appDb = new AppDatabase(":memory:", log);
+    const dns: Record<string, string[]> = {
+      "hooks.example.com": ["93.184.216.34"],
+      "one.example.com": ["93.184.216.34"],
+      "two.example.com": ["93.184.216.34"],
+      "three.example.com": ["2606:2800:220:1::1"],
+      "internal.example.com": ["93.184.216.34", "10.0.0.5"],
+      "localhost": ["127.0.0.1", "::1"],
+    };
+    store = new SqlitePushNotificationStore(appDb, {
+      resolveHost: async (host) => {
+        if (!dns[host]) throw new Error("ENOTFOUND");
+        return dns[host];
+      },
+    });
+  });
+
+  afterEach(() => {
+    appDb.close();
+  });
+
+  it("returns an empty list for unknown task", async () => {
+    expect(await store.load("nonexistent")).toEqual([]);
+  });
+
+  it("saves and loads configs with all fields", async () => {
+    await store.save("t-1", {
+      id: "cfg-1",
+      url: "https://hooks.example.com/a2a",
+      token: "tok",
+      authentication: { schemes: ["Bearer"], credentials: "secret" },
+    });
+
+    expect(await store.load("t-1")).toEqual([
+      {
+        id: "cfg-1",
+        url: "https://hooks.example.com/a2a",
+        token: "tok",
+        authentication: { schemes: ["Bearer"], credentials: "secret" },
+      },
+    ]);
+  });
+
+  it("defaults the config ID to the task ID", async () => {
+    const config = { url: "https://hooks.example.com/a2a" };
+    await store.save("t-1", config);
+
+    expect(config).toHaveProperty("id", "t-1");
+    const loaded = await store.load("t-1");
+    expect(loaded[0]!.id).toBe("t-1");
+  });
+
+  it("keeps multiple configs per task and upserts by config ID", async () => {
+    await store.save("t-1", { id: "a", url: "https://one.example.com" });
+    await store.save("t-1", { id: "b", url: "https://two.example.com" });
+    await store.save("t-1", { id: "a", url: "https://three.example.com" });
+
+    const loaded = await store.load("t-1");
+    expect(loaded.map((c) => [c.id, c.url])).toEqual([
+      ["a", "https://three.example.com"],
+      ["b", "https://two.example.com"],
+    ]);
+  });
+
+  it("deletes a single config, defaulting to the task ID", async () => {
+    await store.save("t-1", { url: "https://one.example.com" });
+    await store.save("t-1", { id: "b", url: "https://two.example.com" });
+
+    await store.delete("t-1");
+    expect((await store.load("t-1")).map((c) => c.id)).toEqual(["b"]);
+
+    await store.delete("t-1", "b");
+    expect(await store.load("t-1")).toEqual([]);
+  });
+
+  it("rejects non-http URLs", async () => {
+    await expect(
+      store.save("t-1", { url: "file:///etc/passwd" }),
+    ).rejects.toThrow("must use http or https");
+    await expect(store.save("t-1", { url: "not a url" })).rejects.toThrow(
+      "Invalid push notification URL",
+    );
+  });
+
+  it.each([
+    "http://127.0.0.1:8080/hook",
+    "http://169.254.169.254/latest/meta-data",
+    "http://10.1.2.3/hook",
+    "http://172.20.0.1/hook",
+    "http://192.168.1.1/hook",
+    "http://100.64.0.1/hook",
+    "http://0.0.0.0/hook",
+    "http://[::1]/hook",
+    "http://[fd00::1]/hook",
+    "http://[fe80::1]/hook",
+    "http://[::ffff:127.0.0.1]/hook",
+    "http://2130706433/hook",
+    "http://localhost:3000/hook",
+    "https://internal.example.com/hook",
+  ])("rejects %s, which is not a public address", async (url) => {
+    await expect(store.save("t-1", { url })).rejects.toThrow("non-public address");
+    expect(await store.load("t-1")).toEqual([]);
+  });
+
+  it("rejects hosts that don't resolve", async () => {
+    await expect(store.save("t-1", { url: "https://nowhere.invalid/hook" })).rejects.toThrow("could not be resolved");
+  });
+
+  it("accepts only the allowed hosts when the operator lists them", async () => {
+    const listed = new SqlitePushNotificationStore(appDb, { allowedHosts: ["hooks.internal", "*.corp.example"] });
+    await listed.save("t-1", { id: "a", url: "http://hooks.internal:9000/a2a" });
+    await listed.save("t-1", { id: "b", url: "https://ci.corp.example/a2a" });
+    await expect(
+      listed.save("t-1", { id: "c", url: "https://hooks.example.com/a2a" }),
+    ).rejects.toThrow("not in the server's allowed hosts");
+    expect(await listed.load("t-1")).toHaveLength(2);
+  });
+});
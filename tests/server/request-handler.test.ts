@@ -0,0 +1,253 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { spawn } from "node:child_process";
+import pino from "pino";
+import type { Message, Task } from "@a2a-js/sdk";
+import { DefaultExecutionEventBusManager } from "@a2a-js/sdk/server";
+import { ClaudeRequestHandler } from "../../src/server/request-handler.js";
+import { ClaudeAgentExecutor } from "../../src/server/agent-executor.js";
+import { ClaudeRunner, type ClaudeResponse } from "../../src/server/claude-runner.js";
+import { buildAgentCard } from "../../src/server/agent-card.js";
+import { loadConfig, type Config } from "../../src/server/config.js";
+import { AppDatabase } from "../../src/server/services/database.js";
+import { SessionStore } from "../../src/server/services/session-store.js";
+import { BudgetTracker } from "../../src/server/services/budget-tracker.js";
+import { SqliteTaskStore } from "../../src/server/services/task-store.js";
+import { OrphanMonitor } from "../../src/server/services/orphan-monitor.js";
+import type { WorkspaceManager } from "../../src/server/services/workspace-manager.js";
+
+const log = pino({ level: "silent" });
+
+function mockResponse(): ClaudeResponse {
+  return {
+    result: "All refactored",
+    session_id: "sess-bg",
+    is_error: false,
+    duration_ms: 100,
+    duration_api_ms: 90,
+    num_turns: 3,
+    total_cost_usd: 0.5,
+    usage: {
+      input_tokens: 10,
+      output_tokens: 5,
+      cache_creation_input_tokens: 0,
+      cache_read_input_tokens: 0,
+    },
+    model_used: "claude-sonnet-4-6",
+    permission_denials: [],
+  };
+}
+
+function userMessage(text: string, metadata?: Record<string, unknown>): Message {
+  return {
+    kind: "message",
+    messageId: `msg-${Math.random().toString(36).slice(2)}`,
+    role: "user",
+    parts: [{ kind: "text", text }],
+    ...(metadata ? { metadata } : {}),
+  };
+}
+
+describe("ClaudeRequestHandler", () => {
+  let config: Config;
+  let appDb: AppDatabase;
+  let runner: ClaudeRunner;
+  let sessionStore: SessionStore;
+  let taskStore: SqliteTaskStore;
+  let orphanMonitor: OrphanMonitor;
+  let handler: ClaudeRequestHandler;
+
+  beforeEach(() => {
+    config = loadConfig("/nonexistent");
+    config.agents["general"]!.required_scopes = [];
+    config.server.request_timeout = 300;
+    config.server.background_timeout = 7200;
+    appDb = new AppDatabase(":memory:", log);
+    runner = new ClaudeRunner(config, log);
+    sessionStore = new SessionStore(config, log, appDb);
+    taskStore = new SqliteTaskStore(appDb);
+    const eventBusManager = new DefaultExecutionEventBusManager();
+    orphanMonitor = new OrphanMonitor(log, taskStore, sessionStore, eventBusManager, {
+      pollIntervalMs: 20,
+    });
+    const executor = new ClaudeAgentExecutor(
+      runner,
+      config,
+      sessionStore,
+      new BudgetTracker(config, log, appDb),
+      log,
+      { orphanMonitor },
+    );
+    handler = new ClaudeRequestHandler(
+      buildAgentCard(config),
+      taskStore,
+      executor,
+      eventBusManager,
+    );
+  });
+
+  afterEach(() => {
+    orphanMonitor.stop();
+    sessionStore.stop();
+    appDb.close();
+  });
+
+  async function collect<T>(stream: AsyncGenerator<T>): Promise<T[]> {
+    const events: T[] = [];
+    for await (const event of stream) events.push(event);
+    return events;
+  }
+
+  it("returns a working task immediately and stores the result later", async () => {
+    let finishTurn!: (response: ClaudeResponse) => void;
+    const send = vi.spyOn(runner, "sendMessage").mockImplementation(
+      () => new Promise((resolve) => { finishTurn = resolve; }),
+    );
+
+    const result = await handler.sendMessage({
+      message: userMessage("Refactor the repo"),
+      configuration: { blocking: false },
+    });
+
+    expect(result.kind).toBe("task");
+    const task = result as Task;
+    expect(task.status.state).toBe("working");
+    expect(send.mock.calls[0]![0].timeoutMs).toBe(7_200_000);
+
+    finishTurn(mockResponse());
+    await vi.waitFor(async () => {
+      const stored = await handler.getTask({ id: task.id });
+      expect(stored.status.state).toBe("completed");
+    });
+
+    const stored = await handler.getTask({ id: task.id });
+    expect(stored.artifacts![0]!.parts).toEqual([{ kind: "text", text: "All refactored" }]);
+    // The snapshot returned earlier is not mutated by later events
+    expect(task.status.state).toBe("working");
+  });
+
+  it("returns the rejected task when the request is refused", async () => {
+    const send = vi.spyOn(runner, "sendMessage");
+    config.agents["general"]!.required_scopes = ["agent:general"];
+
+    const refused = await handler.sendMessage({
+      message: userMessage("Hello", { scopes: ["agent:other"] }),
+      configuration: { blocking: false },
+    });
+
+    expect((refused as Task).status.state).toBe("rejected");
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it("returns a working task for an isolated agent whose workspace takes a while", async () => {
+    config.agents["general"]!.workspace = "isolated";
+    const slow = <T>(value: T) => () => new Promise<T>((resolve) => setTimeout(() => resolve(value), 20));
+    const workspaces = {
+      hasCheckpoint: vi.fn(slow(true)),
+      prepare: vi.fn(slow("/data/workspaces/abc/tree")),
+      rollback: vi.fn(async () => {}),
+      checkpoint: vi.fn(async () => null),
+      remove: vi.fn(async () => {}),
+    };
+    const isolated = new ClaudeRequestHandler(
+      buildAgentCard(config),
+      taskStore,
+      new ClaudeAgentExecutor(runner, config, sessionStore, new BudgetTracker(config, log, appDb), log, {
+        workspaces: workspaces as unknown as WorkspaceManager,
+      }),
+    );
+    const send = vi.spyOn(runner, "sendMessage").mockImplementation(() => new Promise(() => {}));
+
+    const result = await isolated.sendMessage({
+      message: { ...userMessage("Undo that", { rollback_to_task: "task-earlier" }), contextId: "ctx-iso" },
+      configuration: { blocking: false },
+    });
+
+    expect((result as Task).status.state).toBe("working");
+    expect(workspaces.hasCheckpoint).toHaveBeenCalledWith("ctx-iso", "task-earlier");
+    await vi.waitFor(() => expect(send).toHaveBeenCalled());
+    expect(send.mock.calls[0]![0].workDir).toBe("/data/workspaces/abc/tree");
+  });
+
+  it("blocking sends use the request timeout and wait for the final state", async () => {
+    const send = vi.spyOn(runner, "sendMessage").mockResolvedValue(mockResponse());
+
+    const result = await handler.sendMessage({
+      message: userMessage("Quick question"),
+    });
+
+    expect((result as Task).status.state).toBe("completed");
+    expect(send.mock.calls[0]![0].timeoutMs).toBeUndefined();
+  });
+
+  it("resubscribe streams the rest of a running task", async () => {
+    let finishTurn!: (response: ClaudeResponse) => void;
+    vi.spyOn(runner, "sendMessage").mockImplementation(
+      () => new Promise((resolve) => { finishTurn = resolve; }),
+    );
+
+    const task = (await handler.sendMessage({
+      message: userMessage("Refactor the repo"),
+      configuration: { blocking: false },
+    })) as Task;
+
+    const events = collect(handler.resubscribe({ id: task.id }));
+    await new Promise<void>((resolve) => setImmediate(resolve));
+    finishTurn(mockResponse());
+
+    const received = await events;
+    expect(received[0]).toMatchObject({ kind: "task", id: task.id });
+    expect(received.at(-1)).toMatchObject({
+      kind: "status-update",
+      final: true,
+      status: { state: "completed" },
+    });
+  });
+
+  it("resubscribe to a finished task yields just the task", async () => {
+    vi.spyOn(runner, "sendMessage").mockResolvedValue(mockResponse());
+    const task = (await handler.sendMessage({ message: userMessage("Hi") })) as Task;
+
+    const received = await collect(handler.resubscribe({ id: task.id }));
+    expect(received).toHaveLength(1);
+    expect(received[0]).toMatchObject({ kind: "task", status: { state: "completed" } });
+  });
+
+  describe("orphans reattached after restart", () => {
+    async function reattach(taskId: string) {
+      // In its own process group, like a CLI spawned by ClaudeSession
+      const child = spawn("sleep", ["30"], { stdio: "ignore", detached: true });
+      await taskStore.save({
+        id: taskId,
+        contextId: `ctx-${taskId}`,
+        kind: "task",
+        status: { state: "working" },
+        metadata: { orphan_pid: child.pid },
+      });
+      await orphanMonitor.recover();
+      return child;
+    }
+
+    it("resubscribe waits for the orphaned process to exit", async () => {
+      const child = await reattach("orphan-1");
+
+      const events = collect(handler.resubscribe({ id: "orphan-1" }));
+      await new Promise<void>((resolve) => setImmediate(resolve));
+      child.kill("SIGKILL");
+
+      const received = await events;
+      expect(received[0]).toMatchObject({ kind: "task", status: { state: "working" } });
+      expect(received.at(-1)).toMatchObject({ final: true, status: { state: "completed" } });
+    });
+
+    it("cancel kills the orphaned process", async () => {
+      const child = await reattach("orphan-2");
+      const exited = new Promise((resolve) => child.once("exit", resolve));
+
+      const canceled = await handler.cancelTask({ id: "orphan-2" });
+
+      expect(canceled.status.state).toBe("canceled");
+      await exited;
+      expect((await handler.getTask({ id: "orphan-2" })).status.state).toBe("canceled");
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { spawn, type ChildProcess } from "node:child_process";
+import pino from "pino";
+import {
+  ResourceWatchdog,
+  readProcessGroups,
+  type LimitedProcess,
+} from "../../src/server/services/resource-watchdog.js";
+import { ResourceLimitError } from "../../src/server/claude-session.js";
+import { loadConfig, type ResourceLimits } from "../../src/server/config.js";
+
+const log = pino({ level: "silent" });
+
+describe("ResourceWatchdog", () => {
+  let child: ChildProcess | null = null;
+
+  afterEach(() => {
+    if (child?.pid && child.exitCode === null) {
+      try {
+        process.kill(-child.pid, "SIGKILL");
+      } catch {
+        // already gone
+      }
+    }
+    child = null;
+  });
+
+  /** Start a shell in its own process group, like ClaudeSession does. */
+  function spawnGroup(script: string): number {
+    child = spawn("sh", ["-c", script], { stdio: "ignore", detached: true });
+    return child.pid!;
+  }
+
+  function limits(overrides: Partial<ResourceLimits>): ResourceLimits {
+    return { ...loadConfig("/nonexistent").agents["general"]!.limits, ...overrides };
+  }
+
+  function target(processes: LimitedProcess[]) {
+    return {
+      limitedProcesses: () => processes,
+      killOverLimit: vi.fn((_pid: number, _error: ResourceLimitError) => {}),
+    };
+  }
+
+  it("sums the members of a process group", async () => {
+    const pid = spawnGroup("sleep 30 & sleep 30");
+    await vi.waitFor(async () => {
+      const group = (await readProcessGroups("/proc", new Set([pid]))).get(pid);
+      // The shell (unless it exec'd the last sleep) and the sleeps
+      expect(group?.pids.length).toBeGreaterThanOrEqual(2);
+      expect(group!.pids).toContain(pid);
+      expect(group!.rssBytes).toBeGreaterThan(0);
+    });
+  });
+
+  it("kills a session over its RSS limit", async () => {
+    const pid = spawnGroup("sleep 30");
+    const fake = target([{ pid, contextId: "ctx-1", limits: limits({ max_rss_mb: 0.01 }) }]);
+    const watchdog = new ResourceWatchdog(log, fake);
+
+    await watchdog.check();
+
+    expect(fake.killOverLimit).toHaveBeenCalledTimes(1);
+    const [killedPid, error] = fake.killOverLimit.mock.calls[0]!;
+    expect(killedPid).toBe(pid);
+    expect(error).toBeInstanceOf(ResourceLimitError);
+    expect(error.message).toContain("limits.max_rss_mb");
+  });
+
+  it("kills a session that stays over its CPU limit for the window", async () => {
+    const pid = spawnGroup("while :; do :; done");
+    const fake = target([{ pid, contextId: "ctx-1", limits: limits({ max_cpu_percent: 20 }) }]);
+    const watchdog = new ResourceWatchdog(log, fake, { cpuWindowMs: 300 });
+
+    await watchdog.check();
+    expect(fake.killOverLimit).not.toHaveBeenCalled();
+    await new Promise((resolve) => setTimeout(resolve, 400));
+    await watchdog.check();
+
+    expect(fake.killOverLimit).toHaveBeenCalledTimes(1);
+    expect(fake.killOverLimit.mock.calls[0]![1].message).toContain("limits.max_cpu_percent");
+  });
+
+  it("leaves idle sessions alone", async () => {
+    const pid = spawnGroup("sleep 30");
+    const fake = target([{ pid, contextId: "ctx-1", limits: limits({ max_rss_mb: 1024, max_cpu_percent: 50 }) }]);
+    const watchdog = new ResourceWatchdog(log, fake, { cpuWindowMs: 200 });
+
+    await watchdog.check();
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    await watchdog.check();
+
+    expect(fake.killOverLimit).not.toHaveBeenCalled();
+  });
+});
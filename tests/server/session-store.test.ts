@@ -182,6 +182,60 @@ describe("SessionStore", () => {
     expect(evicted).toBe(false);
   });
 
+  it("fires onSessionRemoved for every removal, dead process or not", () => {
+    const config = loadConfig("/nonexistent");
+    const removed: string[] = [];
+    const store = new SessionStore(config, log, appDb, {
+      onSessionRemoved: (contextId) => removed.push(contextId),
+    });
+    store.create("s1", "general", "alice", "ctx-1", "task-1");
+    store.delete("s1");
+    store.create("s2", "general", "alice", "ctx-2", "task-2");
+    store.markAllProcessesDead();
+    store.delete("s2");
+    expect(removed).toEqual(["ctx-1", "ctx-2"]);
+    store.stop();
+  });
+
+  it("builds the fork tree from any context in it", () => {
+    const store = createStore();
+    store.create("s1", "general", "alice", "ctx-root", "task-1");
+    store.create("s2", "general", "alice", "ctx-a", "task-2", "ctx-root");
+    store.create("s3", "general", "alice", "ctx-b", "task-3", "ctx-root");
+    store.create("s4", "general", "alice", "ctx-a1", "task-4", "ctx-a");
+    store.create("s5", "general", "alice", "ctx-other", "task-5");
+
+    const tree = store.forkTree("ctx-a1")!;
+    expect(tree.contextId).toBe("ctx-root");
+    expect(tree.children.map((c) => c.contextId)).toEqual(["ctx-a", "ctx-b"]);
+    expect(tree.children[0]!.children.map((c) => c.contextId)).toEqual(["ctx-a1"]);
+    expect(tree.children[1]!.children).toEqual([]);
+    expect(store.forkTree("nope")).toBeUndefined();
+  });
+
+  it("persists the parent context across restarts", () => {
+    const config = loadConfig("/nonexistent");
+    const store1 = new SessionStore(config, log, appDb);
+    store1.create("s1", "general", "alice", "ctx-root", "task-1");
+    store1.create("s2", "general", "alice", "ctx-fork", "task-2", "ctx-root");
+
+    const store2 = new SessionStore(config, log, appDb);
+    expect(store2.getByContextId("ctx-fork")!.parentContextId).toBe("ctx-root");
+    expect(store2.getByContextId("ctx-root")!.parentContextId).toBeNull();
+  });
+
+  it("persists a context's customization across restarts", () => {
+    const config = loadConfig("/nonexistent");
+    const store1 = new SessionStore(config, log, appDb);
+    const customization = { system_prompt: "Answer in French.", max_turns: 5, disallowed_tools: ["Bash"] };
+    store1.create("s1", "general", "alice", "ctx-custom", "task-1", undefined, customization);
+    store1.create("s2", "general", "alice", "ctx-plain", "task-2");
+
+    const store2 = new SessionStore(config, log, appDb);
+    expect(store2.getByContextId("ctx-custom")!.customization).toEqual(customization);
+    expect(store2.getByContextId("ctx-plain")!.customization).toBeNull();
+  });
+
   it("savePid and getLastPid persist and retrieve PID", () => {
     const store = createStore();
     store.create("s1", "general", "alice", "ctx-1", "task-1");
@@ -1,7 +1,7 @@
 import { describe, it, expect } from "vitest";
 import express from "express";
 import request from "supertest";
-import { checkClaudeBinary, requestTimeoutMiddleware, requestIdMiddleware } from "../../src/server/index.js";
+import { checkClaudeBinary, unsupportedClaudeFlags, requestTimeoutMiddleware, requestIdMiddleware } from "../../src/server/index.js";
 import type { Request, Response, NextFunction } from "express";
 
 describe("checkClaudeBinary", () => {
@@ -20,6 +20,16 @@ describe("checkClaudeBinary", () => {
   });
 });
 
+describe("unsupportedClaudeFlags", () => {
+  it("returns the flags --help doesn't list", () => {
+    expect(unsupportedClaudeFlags("node", ["--eval", "--no-such-flag", "--max-turns"])).toEqual(["--no-such-flag"]);
+  });
+
+  it("returns null when --help can't be run", () => {
+    expect(unsupportedClaudeFlags("/nonexistent/binary", ["--model"])).toBeNull();
+  });
+});
+
 describe("requestTimeoutMiddleware", () => {
   it("calls next and sets timeout on the request", () => {
     const middleware = requestTimeoutMiddleware(30);
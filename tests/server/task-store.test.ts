@@ -150,6 +150,16 @@ describe("SqliteTaskStore", () => {
     expect(loaded!.status.state).toBe("completed");
   });
 
+  it("listUnfinished returns submitted and working tasks only", async () => {
+    const states = ["submitted", "working", "completed", "failed", "canceled"] as const;
+    for (const state of states) {
+      await store.save({ id: `t-${state}`, contextId: "ctx", kind: "task", status: { state } });
+    }
+
+    const ids = store.listUnfinished().map((t) => t.id).sort();
+    expect(ids).toEqual(["t-submitted", "t-working"]);
+  });
+
   // -------------------------------------------------------------------------
   // Tenant isolation
   // -------------------------------------------------------------------------
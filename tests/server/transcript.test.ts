@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { appendFileSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { TranscriptTail } from "../../src/server/transcript.js";
+import { estimateCostUsd } from "../../src/server/pricing.js";
+
+const usage = { input_tokens: 1000, output_tokens: 200, cache_creation_input_tokens: 0, cache_read_input_tokens: 0 };
+
+function line(entry: Record<string, unknown>): string {
+  return JSON.stringify(entry) + "\n";
+}
+
+function prompt(text: string, timestamp = "2026-01-01T00:00:00.000Z"): string {
+  return line({ type: "user", timestamp, message: { role: "user", content: text } });
+}
+
+function assistant(id: string, content: unknown[], extra?: Record<string, unknown>): string {
+  return line({
+    type: "assistant",
+    timestamp: "2026-01-01T00:00:05.000Z",
+    message: { id, model: "claude-sonnet-4-5", role: "assistant", content, usage },
+    ...extra,
+  });
+}
+
+describe("TranscriptTail", () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "claude-a2a-transcript-"));
+    mkdirSync(join(dir, "projects", "-work-repo"), { recursive: true });
+    path = join(dir, "projects", "-work-repo", "sess-1.jsonl");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("finds a session's transcript in any project", async () => {
+    writeFileSync(path, "");
+    expect((await TranscriptTail.find("sess-1", dir))?.path).toBe(path);
+    expect(await TranscriptTail.find("sess-2", dir)).toBeNull();
+    expect(await TranscriptTail.find("sess-1", join(dir, "missing"))).toBeNull();
+  });
+
+  it("has no turn before a prompt", async () => {
+    writeFileSync(path, line({ type: "summary", summary: "earlier" }));
+    const tail = new TranscriptTail(path);
+    await tail.read();
+    expect(tail.turn).toBeNull();
+  });
+
+  it("answers with the last assistant message of the latest turn", async () => {
+    writeFileSync(path,
+      prompt("first question") +
+      assistant("msg-0", [{ type: "text", text: "old answer" }]) +
+      prompt("second question", "2026-01-01T00:01:00.000Z") +
+      assistant("msg-1", [{ type: "text", text: "Let me look." }]) +
+      assistant("msg-1", [{ type: "tool_use", id: "tu-1", name: "Read", input: {} }]) +
+      line({ type: "user", message: { role: "user", content: [{ type: "tool_result", tool_use_id: "tu-1" }] } }) +
+      assistant("side", [{ type: "text", text: "subagent" }], { isSidechain: true }) +
+      assistant("msg-2", [{ type: "text", text: "Found it" }]) +
+      line({
+        type: "assistant",
+        message: { id: "msg-2", model: "claude-sonnet-4-5", content: [{ type: "text", text: "." }], usage, stop_reason: "end_turn" },
+      }),
+    );
+    const tail = new TranscriptTail(path);
+    await tail.read();
+
+    const turn = tail.turn!;
+    expect(turn.text).toBe("Found it.");
+    expect(turn.stopReason).toBe("end_turn");
+    expect(turn.isError).toBe(false);
+    expect(turn.model).toBe("claude-sonnet-4-5");
+    expect(turn.apiCalls).toBe(2);
+    // Split entries repeat the usage: counted once per message
+    expect(turn.usage.input_tokens).toBe(2000);
+    expect(turn.usage.output_tokens).toBe(400);
+    expect(turn.startedAt).toBe(Date.parse("2026-01-01T00:01:00.000Z"));
+    expect(turn.updatedAt).toBe(Date.parse("2026-01-01T00:00:05.000Z"));
+  });
+
+  it("estimates the cost unless the transcript records it", async () => {
+    writeFileSync(path, prompt("q") + assistant("msg-1", [{ type: "text", text: "a" }]));
+    const tail = new TranscriptTail(path);
+    await tail.read();
+    expect(tail.turn!.costEstimated).toBe(true);
+    expect(tail.turn!.costUsd).toBeCloseTo(estimateCostUsd(usage, "claude-sonnet-4-5"));
+    expect(tail.turn!.costUsd).toBeCloseTo(0.006);
+
+    appendFileSync(path, prompt("q2") + assistant("msg-2", [{ type: "text", text: "b" }], { costUSD: 0.42 }));
+    await tail.read();
+    expect(tail.turn!.costEstimated).toBe(false);
+    expect(tail.turn!.costUsd).toBe(0.42);
+  });
+
+  it("reads appended data incrementally and waits for partial lines", async () => {
+    writeFileSync(path, prompt("q"));
+    const tail = new TranscriptTail(path);
+    await tail.read();
+    expect(tail.turn!.text).toBe("");
+
+    const entry = assistant("msg-1", [{ type: "text", text: "done" }]);
+    appendFileSync(path, entry.slice(0, 20));
+    await tail.read();
+    expect(tail.turn!.apiCalls).toBe(0);
+
+    appendFileSync(path, entry.slice(20));
+    await tail.read();
+    expect(tail.turn!.text).toBe("done");
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { execFileSync } from "node:child_process";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import pino from "pino";
+import { WorkspaceManager, WorkspaceError } from "../../src/server/services/workspace-manager.js";
+import { loadConfig, type AgentConfig } from "../../src/server/config.js";
+
+const log = pino({ level: "silent" });
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync("git", ["-c", "user.name=test", "-c", "user.email=test@example.com", ...args], {
+    cwd,
+    encoding: "utf-8",
+  });
+}
+
+describe("WorkspaceManager", () => {
+  let tmp: string;
+  let source: string;
+  let agentConfig: AgentConfig;
+  let workspaces: WorkspaceManager;
+
+  beforeEach(() => {
+    tmp = mkdtempSync(join(tmpdir(), "claude-a2a-ws-"));
+    source = join(tmp, "source");
+    mkdirSync(join(source, "pkg"), { recursive: true });
+    writeFileSync(join(source, "README.md"), "hello\n");
+    writeFileSync(join(source, "pkg", "index.ts"), "export {};\n");
+
+    const config = loadConfig("/nonexistent");
+    config.data_dir = join(tmp, "data");
+    agentConfig = { ...config.agents["general"]!, work_dir: source, workspace: "isolated" };
+    workspaces = new WorkspaceManager(config, log);
+  });
+
+  afterEach(() => {
+    rmSync(tmp, { recursive: true, force: true });
+  });
+
+  function initRepo(): void {
+    git(source, "init", "--quiet");
+    git(source, "add", "-A");
+    git(source, "commit", "--quiet", "-m", "initial");
+  }
+
+  describe("git sources", () => {
+    beforeEach(initRepo);
+
+    it("checks out a worktree per context and leaves the source alone", async () => {
+      const a = await workspaces.prepare("ctx-a", agentConfig);
+      const b = await workspaces.prepare("ctx-b", agentConfig);
+
+      expect(a).not.toBe(b);
+      writeFileSync(join(a, "README.md"), "changed in a\n");
+      expect(readFileSync(join(b, "README.md"), "utf-8")).toBe("hello\n");
+      expect(readFileSync(join(source, "README.md"), "utf-8")).toBe("hello\n");
+      expect(git(source, "worktree", "list")).toContain(a);
+    });
+
+    it("runs in the same subdirectory when work_dir is inside the repo", async () => {
+      const dir = await workspaces.prepare("ctx-sub", { ...agentConfig, work_dir: join(source, "pkg") });
+      expect(existsSync(join(dir, "index.ts"))).toBe(true);
+    });
+
+    it("returns the same directory for the same context", async () => {
+      const [first, second] = await Promise.all([
+        workspaces.prepare("ctx-a", agentConfig),
+        workspaces.prepare("ctx-a", agentConfig),
+      ]);
+      expect(second).toBe(first);
+      expect(await workspaces.prepare("ctx-a", agentConfig)).toBe(first);
+    });
+
+    it("diffs each turn's changes against the previous turn", async () => {
+      const dir = await workspaces.prepare("ctx-a", agentConfig);
+      expect(await workspaces.checkpoint("ctx-a", "task-1")).toBeNull();
+
+      writeFileSync(join(dir, "README.md"), "hello\nworld\n");
+      writeFileSync(join(dir, "new.txt"), "new\n");
+      const first = await workspaces.checkpoint("ctx-a", "task-2");
+      expect(first).toContain("+world");
+      expect(first).toContain("new file mode");
+      expect(first).toContain("b/new.txt");
+
+      rmSync(join(dir, "new.txt"));
+      const second = await workspaces.checkpoint("ctx-a", "task-3");
+      expect(second).toContain("deleted file mode");
+      expect(second).not.toContain("README.md");
+
+      // The snapshots live outside the worktree's own index
+      expect(git(dir, "status", "--porcelain")).toContain("README.md");
+    });
+
+    it("starts a fork from its parent's last snapshot", async () => {
+      const parent = await workspaces.prepare("ctx-parent", agentConfig);
+      writeFileSync(join(parent, "README.md"), "parent change\n");
+      await workspaces.checkpoint("ctx-parent", "task-4");
+
+      const fork = await workspaces.prepare("ctx-fork", agentConfig, "ctx-parent");
+      expect(readFileSync(join(fork, "README.md"), "utf-8")).toBe("parent change\n");
+      expect(await workspaces.checkpoint("ctx-fork", "task-5")).toBeNull();
+    });
+
+    it("rolls back to an earlier task's checkpoint", async () => {
+      const dir = await workspaces.prepare("ctx-a", agentConfig);
+      writeFileSync(join(dir, "README.md"), "good\n");
+      await workspaces.checkpoint("ctx-a", "task-good");
+
+      writeFileSync(join(dir, "README.md"), "wrecked\n");
+      writeFileSync(join(dir, "junk.txt"), "junk\n");
+      rmSync(join(dir, "pkg"), { recursive: true });
+      await workspaces.checkpoint("ctx-a", "task-bad");
+
+      expect(await workspaces.hasCheckpoint("ctx-a", "task-good")).toBe(true);
+      await workspaces.rollback("ctx-a", "task-good");
+
+      expect(readFileSync(join(dir, "README.md"), "utf-8")).toBe("good\n");
+      expect(existsSync(join(dir, "junk.txt"))).toBe(false);
+      expect(existsSync(join(dir, "pkg", "index.ts"))).toBe(true);
+      // The next turn's diff starts from the restored state
+      expect(await workspaces.checkpoint("ctx-a", "task-next")).toBeNull();
+    });
+
+    it("keeps checkpoints per context", async () => {
+      await workspaces.prepare("ctx-a", agentConfig);
+      await workspaces.prepare("ctx-b", agentConfig);
+      await workspaces.checkpoint("ctx-a", "task-1");
+
+      expect(await workspaces.hasCheckpoint("ctx-b", "task-1")).toBe(false);
+      await expect(workspaces.rollback("ctx-b", "task-1")).rejects.toThrow(WorkspaceError);
+    });
+
+    it("removes the worktree and its checkpoint refs", async () => {
+      const dir = await workspaces.prepare("ctx-a", agentConfig);
+      await workspaces.checkpoint("ctx-a", "task-1");
+      expect(git(source, "for-each-ref", "refs/claude-a2a/")).not.toBe("");
+      await workspaces.remove("ctx-a");
+
+      expect(existsSync(dir)).toBe(false);
+      expect(git(source, "worktree", "list")).not.toContain(dir);
+      expect(git(source, "for-each-ref", "refs/claude-a2a/")).toBe("");
+      expect(await workspaces.checkpoint("ctx-a", "task-6")).toBeNull();
+    });
+  });
+
+  describe("non-git sources", () => {
+    it("copies the directory and diffs it", async () => {
+      const dir = await workspaces.prepare("ctx-a", agentConfig);
+      expect(existsSync(join(dir, ".git"))).toBe(false);
+
+      writeFileSync(join(dir, "pkg", "index.ts"), "export const x = 1;\n");
+      const diff = await workspaces.checkpoint("ctx-a", "task-7");
+      expect(diff).toContain("+export const x = 1;");
+      expect(readFileSync(join(source, "pkg", "index.ts"), "utf-8")).toBe("export {};\n");
+    });
+
+    it("rolls back a copy", async () => {
+      const dir = await workspaces.prepare("ctx-a", agentConfig);
+      await workspaces.checkpoint("ctx-a", "task-1");
+      writeFileSync(join(dir, "README.md"), "wrecked\n");
+      writeFileSync(join(dir, "junk.txt"), "junk\n");
+      await workspaces.checkpoint("ctx-a", "task-2");
+
+      await workspaces.rollback("ctx-a", "task-1");
+      expect(readFileSync(join(dir, "README.md"), "utf-8")).toBe("hello\n");
+      expect(existsSync(join(dir, "junk.txt"))).toBe(false);
+    });
+
+    it("copies the parent's files for a fork", async () => {
+      const parent = await workspaces.prepare("ctx-parent", agentConfig);
+      writeFileSync(join(parent, "README.md"), "parent change\n");
+      await workspaces.checkpoint("ctx-parent", "task-8");
+
+      const fork = await workspaces.prepare("ctx-fork", agentConfig, "ctx-parent");
+      expect(readFileSync(join(fork, "README.md"), "utf-8")).toBe("parent change\n");
+      expect(await workspaces.checkpoint("ctx-fork", "task-9")).toBeNull();
+    });
+  });
+
+  it("sweeps workspaces of contexts that are gone", async () => {
+    initRepo();
+    const kept = await workspaces.prepare("ctx-kept", agentConfig);
+    const gone = await workspaces.prepare("ctx-gone", agentConfig);
+
+    expect(await workspaces.sweep((contextId) => contextId === "ctx-kept")).toBe(1);
+    expect(existsSync(kept)).toBe(true);
+    expect(existsSync(gone)).toBe(false);
+  });
+});